@@ -2,7 +2,7 @@ import type { NextConfig } from 'next'
 
 const nextConfig: NextConfig = {
   // Externalize Node.js-only packages to prevent bundling issues during SSR
-  serverExternalPackages: ['pino', 'pino-pretty', 'thread-stream'],
+  serverExternalPackages: ['pino', 'pino-pretty', 'thread-stream', '@electric-sql/pglite'],
 
   // Turbopack is enabled by default in Next.js 16
   turbopack: {},
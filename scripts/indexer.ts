@@ -0,0 +1,73 @@
+/**
+ * Onchain event indexer for the configured association store.
+ *
+ * Usage:
+ *   npm run indexer [-- --once]   index AssociationsStore events, polling for new blocks
+ *                                 (or catch up to the head once and exit)
+ *
+ * Configuration (environment or .env files, like the app):
+ *   INDEXER_RPC_URL           JSON-RPC endpoint, e.g. http://127.0.0.1:8545 for a local
+ *                             chain (default: Base Sepolia public RPC)
+ *   INDEXER_CONTRACT_ADDRESS  AssociationsStore to index (default: ASSOCIATIONS_STORE_ADDRESS)
+ *   INDEXER_START_BLOCK       first block when there is no checkpoint (default: 0)
+ *   INDEXER_CONFIRMATIONS     reorg window in blocks (default: 12)
+ *   INDEXER_BATCH_SIZE        blocks per getLogs call (default: 2000)
+ *   INDEXER_POLL_INTERVAL     milliseconds between polls (default: 12000)
+ * plus ASSOCIATION_STORE / DATABASE_URL / PGLITE_DATA_DIR for the store.
+ */
+import nextEnv from '@next/env'
+import { type Address, createPublicClient, http, isAddress } from 'viem'
+import { baseSepolia } from 'viem/chains'
+import { ASSOCIATIONS_STORE_ADDRESS } from '../src/lib/contracts'
+import { createIndexer } from '../src/lib/indexer'
+import { assertAssociationStoreSchema, createAssociationStoreFromEnv } from '../src/lib/store'
+
+nextEnv.loadEnvConfig(process.cwd())
+
+function integerFromEnv(name: string, fallback: number): number {
+  const value = process.env[name]
+  if (value === undefined || value === '') return fallback
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`Invalid ${name} "${value}", expected a non-negative integer`)
+  }
+  return parsed
+}
+
+async function main() {
+  const once = process.argv.includes('--once')
+
+  const address = (process.env.INDEXER_CONTRACT_ADDRESS || ASSOCIATIONS_STORE_ADDRESS) as Address
+  if (!isAddress(address)) {
+    throw new Error(`Invalid INDEXER_CONTRACT_ADDRESS "${address}"`)
+  }
+  const pollInterval = integerFromEnv('INDEXER_POLL_INTERVAL', 12_000)
+
+  await assertAssociationStoreSchema()
+  const indexer = createIndexer({
+    client: createPublicClient({
+      chain: process.env.INDEXER_RPC_URL ? undefined : baseSepolia,
+      transport: http(process.env.INDEXER_RPC_URL || undefined),
+    }),
+    store: createAssociationStoreFromEnv(),
+    address,
+    startBlock: BigInt(integerFromEnv('INDEXER_START_BLOCK', 0)),
+    confirmations: integerFromEnv('INDEXER_CONFIRMATIONS', 12),
+    batchSize: integerFromEnv('INDEXER_BATCH_SIZE', 2000),
+    log: console.log,
+  })
+
+  for (;;) {
+    const { checkpoint, created, revoked } = await indexer.runOnce()
+    if (created || revoked) {
+      console.log(`Indexed ${created} created and ${revoked} revoked associations, at block ${checkpoint}`)
+    }
+    if (once) return
+    await new Promise((resolve) => setTimeout(resolve, pollInterval))
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err)
+  process.exit(1)
+})
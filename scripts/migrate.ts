@@ -0,0 +1,65 @@
+/**
+ * Database migration CLI for the configured association store.
+ *
+ * Usage:
+ *   npm run db:migrate [-- <version>]    apply pending migrations (up to <version>)
+ *   npm run db:rollback [-- <version>]   revert the last migration (or down to <version>)
+ *   npm run db:status                     show applied and pending migrations
+ *
+ * Reads ASSOCIATION_STORE / DATABASE_URL / PGLITE_DATA_DIR from the environment
+ * and .env files, like the app.
+ */
+import nextEnv from '@next/env'
+import {
+  MIGRATIONS,
+  createMigrationDriverFromEnv,
+  getMigrationStatus,
+  migrateDown,
+  migrateUp,
+} from '../src/lib/store'
+
+nextEnv.loadEnvConfig(process.cwd())
+
+async function main() {
+  const [command = 'up', targetArg] = process.argv.slice(2)
+  const target = targetArg === undefined ? undefined : Number(targetArg)
+  if (target !== undefined && !Number.isInteger(target)) {
+    throw new Error(`Invalid target version "${targetArg}"`)
+  }
+
+  const driver = createMigrationDriverFromEnv()
+  if (!driver) {
+    console.log('The in-memory store has no schema to migrate')
+    return
+  }
+
+  switch (command) {
+    case 'up': {
+      const applied = await migrateUp(driver, MIGRATIONS, target)
+      for (const m of applied) console.log(`Applied ${m.version} ${m.name}`)
+      if (applied.length === 0) console.log('Already up to date')
+      break
+    }
+    case 'down': {
+      const reverted = await migrateDown(driver, MIGRATIONS, target)
+      for (const m of reverted) console.log(`Reverted ${m.version} ${m.name}`)
+      if (reverted.length === 0) console.log('Nothing to revert')
+      break
+    }
+    case 'status': {
+      const { current, latest, pending } = await getMigrationStatus(driver, MIGRATIONS)
+      console.log(`Current version: ${current}, latest: ${latest}`)
+      for (const m of pending) console.log(`Pending ${m.version} ${m.name}`)
+      break
+    }
+    default:
+      throw new Error(`Unknown command "${command}", expected up, down or status`)
+  }
+
+  await driver.close?.()
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err)
+  process.exit(1)
+})
@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server'
+import { getAssociationStore } from '@/lib/store'
+import { ASSOCIATIONS_STORE_ADDRESS } from '@/lib/contracts'
+import { findAssociationsCreated } from '@/lib/contractEvents'
+import { type Hex, TransactionReceiptNotFoundError, createPublicClient, http, isHex, size } from 'viem'
+import { baseSepolia } from 'viem/chains'
+
+// Supersession of offchain associations by their onchain copies, reported by the client
+// once the storeAssociation transaction confirms. The indexer records the same thing when
+// it runs; this endpoint covers deployments without one.
+
+// Create a public client to read transaction receipts
+const publicClient = createPublicClient({
+  chain: baseSepolia,
+  transport: http(),
+})
+
+// Request body type for POST
+interface OnchainStoredRequest {
+  transactionHash: Hex  // Transaction that called storeAssociation
+}
+
+// POST to mark offchain associations stored by a confirmed transaction as superseded
+//
+// Nothing in the body is trusted but the hash: the associations and their location
+// come from the receipt's AssociationCreated logs.
+export async function POST(request: Request) {
+  try {
+    const body: OnchainStoredRequest = await request.json()
+    const { transactionHash } = body
+
+    if (!isHex(transactionHash) || size(transactionHash) !== 32) {
+      return NextResponse.json(
+        { success: false, error: 'Missing or malformed transactionHash' },
+        { status: 400 }
+      )
+    }
+
+    let receipt
+    try {
+      receipt = await publicClient.getTransactionReceipt({ hash: transactionHash })
+    } catch (err) {
+      if (!(err instanceof TransactionReceiptNotFoundError)) throw err
+      return NextResponse.json(
+        { success: false, error: 'Transaction not found or not yet confirmed' },
+        { status: 404 }
+      )
+    }
+
+    if (receipt.status !== 'success') {
+      return NextResponse.json(
+        { success: false, error: 'Transaction reverted' },
+        { status: 400 }
+      )
+    }
+
+    const created = findAssociationsCreated(receipt.logs, ASSOCIATIONS_STORE_ADDRESS)
+    if (created.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'The transaction stored no association' },
+        { status: 400 }
+      )
+    }
+
+    // Only offchain rows are marked; associations the indexer stored onchain are left alone
+    const store = getAssociationStore()
+    const onchain = { blockNumber: receipt.blockNumber, transactionHash: receipt.transactionHash }
+    const superseded: Hex[] = []
+    for (const { hash } of created) {
+      const association = await store.getByHash(hash)
+      if (association?.source === 'offchain') {
+        await store.supersedeOffchain(hash, onchain)
+        superseded.push(hash)
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      superseded,
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
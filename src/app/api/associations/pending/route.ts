@@ -0,0 +1,349 @@
+import { NextResponse } from 'next/server'
+import {
+  getAssociationStore,
+  pendingTtlFromEnv,
+  AssociationConflictError,
+  AssociationExistsError,
+  type DbPendingAssociation,
+} from '@/lib/store'
+import { decodeInteropAddress, extractAddress, isInteropAddressError } from '@/lib/erc7930'
+import { validateAssociation } from '@/lib/validation'
+import { canSignStoreRequests, defaultKeyTypeRegistry, formatKeyType } from '@/lib/keyTypes'
+import { hashAssociation } from '@/lib/eip712'
+import { parseUint40 } from '@/lib/serialize'
+import { parsePendingRejection, verifyPendingRejectionSignature, type SerializedPendingRejection } from '@/lib/revocation'
+import { type Hex, createPublicClient, http, isAddress } from 'viem'
+import type { AssociatedAccountRecord, SignedAssociationRecord } from '@/lib/types'
+import { baseSepolia } from 'viem/chains'
+
+// Pending associations: signed by the initiator, awaiting the approver.
+// The approver countersigns and stores the association through POST /api/associations
+// (or onchain), which drops the pending entry; or rejects it with PATCH.
+
+// Create a public client for ERC-1271 signature validation
+const publicClient = createPublicClient({
+  chain: baseSepolia,
+  transport: http(),
+})
+
+// Request body type for POST: the AAR and the initiator's half of the SAR
+interface PendingAssociationRequest {
+  aar: {
+    initiator: Hex
+    approver: Hex
+    validAt: string
+    validUntil: string
+    interfaceId: Hex
+    data: Hex
+  }
+  sar: {
+    initiatorKeyType: number
+    initiatorSignature: Hex
+  }
+}
+
+const nowSeconds = () => BigInt(Math.floor(Date.now() / 1000))
+
+export async function POST(request: Request) {
+  try {
+    const body: PendingAssociationRequest = await request.json()
+    const { aar, sar } = body
+    if (!aar || !sar) {
+      return NextResponse.json(
+        { success: false, error: 'Missing aar or sar' },
+        { status: 400 }
+      )
+    }
+
+    // Extract addresses from ERC-7930 format
+    let initiatorAddress: string
+    let approverAddress: string
+    try {
+      initiatorAddress = extractAddress(aar.initiator)
+      approverAddress = extractAddress(aar.approver)
+    } catch (err) {
+      if (isInteropAddressError(err)) {
+        return NextResponse.json(
+          { success: false, error: err.message, errorName: err.name },
+          { status: 400 }
+        )
+      }
+      throw err
+    }
+
+    if (!sar.initiatorSignature || sar.initiatorSignature === '0x' || !Number.isInteger(sar.initiatorKeyType)) {
+      return NextResponse.json(
+        { success: false, error: 'Missing initiator signature' },
+        { status: 400 }
+      )
+    }
+
+    const validAt = parseUint40(aar.validAt)
+    const validUntil = parseUint40(aar.validUntil)
+    if (validAt === null || validUntil === null) {
+      return NextResponse.json(
+        { success: false, error: 'validAt and validUntil must be uint40 decimal strings' },
+        { status: 400 }
+      )
+    }
+
+    const record: AssociatedAccountRecord = {
+      initiator: aar.initiator,
+      approver: aar.approver,
+      validAt,
+      validUntil,
+      interfaceId: aar.interfaceId,
+      data: aar.data,
+    }
+
+    // The approver's fields stay empty, so validation skips their signature
+    const signedRecord: SignedAssociationRecord = {
+      revokedAt: 0n,
+      initiatorKeyType: sar.initiatorKeyType,
+      approverKeyType: 0,
+      initiatorSignature: sar.initiatorSignature,
+      approverSignature: '0x',
+      record,
+    }
+
+    const validationResult = await validateAssociation({
+      aar: record,
+      sar: signedRecord,
+      publicClient,
+      keyTypeRegistry: defaultKeyTypeRegistry,
+    })
+
+    if (!validationResult.valid) {
+      return NextResponse.json(
+        { success: false, error: validationResult.error, code: validationResult.code, checks: validationResult.checks },
+        { status: 400 }
+      )
+    }
+
+    // Refused now rather than when the approver stores it: the initiator could not revoke it offchain
+    if (!canSignStoreRequests(defaultKeyTypeRegistry, sar.initiatorKeyType)) {
+      return NextResponse.json(
+        { success: false, error: `Key type ${formatKeyType(sar.initiatorKeyType)} cannot sign revocation requests, so the association cannot be stored offchain` },
+        { status: 400 }
+      )
+    }
+
+    const hash = hashAssociation(record)
+    const store = getAssociationStore()
+    const now = nowSeconds()
+
+    if (await store.getByHash(hash)) {
+      const exists = new AssociationExistsError(hash)
+      return NextResponse.json(
+        { success: false, error: exists.message, errorName: exists.name },
+        { status: 409 }
+      )
+    }
+
+    // Expired requests are dropped lazily, whenever a new one arrives
+    await store.pruneExpiredPending(now)
+
+    // A request cannot outlive the association it asks for
+    let expiresAt = now + pendingTtlFromEnv()
+    if (record.validUntil !== 0n && record.validUntil < expiresAt) {
+      expiresAt = record.validUntil
+    }
+
+    try {
+      const pending = await store.insertPending({
+        hash,
+        initiatorAddress,
+        approverAddress,
+        aar: record,
+        sar: signedRecord,
+        expiresAt,
+      }, now)
+      return NextResponse.json({ success: true, hash, pending })
+    } catch (err) {
+      if (!(err instanceof AssociationExistsError)) throw err
+
+      // Resubmitting the same request is idempotent
+      const existing = await store.getPending(hash, now)
+      if (existing && isSameRequest(existing, signedRecord)) {
+        return NextResponse.json({ success: true, hash, alreadyExists: true, pending: existing })
+      }
+
+      const conflict = new AssociationConflictError(hash)
+      return NextResponse.json(
+        { success: false, error: conflict.message, errorName: conflict.name },
+        { status: 409 }
+      )
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
+
+// GET pending associations by `hash`, or where `address` is a party (both roles, newest first)
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const hash = searchParams.get('hash')
+    const rawAddress = searchParams.get('address')
+
+    const store = getAssociationStore()
+    const now = nowSeconds()
+    let pending: DbPendingAssociation[]
+
+    if (hash) {
+      const row = await store.getPending(hash as Hex, now)
+      pending = row ? [row] : []
+    } else if (rawAddress) {
+      // EVM addresses are stored lowercased; other chain types are case-sensitive
+      const address = isAddress(rawAddress) ? rawAddress.toLowerCase() : rawAddress
+      pending = await store.listPending(address, now)
+    } else {
+      return NextResponse.json(
+        { success: false, error: 'Either hash or address is required' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      pending,
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
+
+// Request body type for PATCH (rejection)
+interface RejectPendingRequest {
+  request: SerializedPendingRejection   // PendingRejection for the pending association's hash
+  signature: Hex                        // The signature
+  signer: string                        // The claimed signer: EVM address or Solana public key
+  keyType: number                       // Key type of the signature
+}
+
+// PATCH to reject a pending association
+//
+// Auth: the approver signs a PendingRejection for the pending association's hash
+// under the store's domain, verified like a revocation (deadline, signature, nonce)
+// but with its own nonces.
+export async function PATCH(request: Request) {
+  try {
+    const body: RejectPendingRequest = await request.json()
+    const { signature, signer, keyType } = body
+
+    const rejection = parsePendingRejection(body.request)
+    if (!rejection) {
+      return NextResponse.json(
+        { success: false, error: 'Missing or malformed rejection request' },
+        { status: 400 }
+      )
+    }
+    const hash = rejection.associationHash
+
+    if (!signature || !signer || typeof signer !== 'string' || !Number.isInteger(keyType)) {
+      return NextResponse.json(
+        { success: false, error: 'Missing authentication fields (signature, signer, keyType)' },
+        { status: 400 }
+      )
+    }
+
+    const now = nowSeconds()
+    if (rejection.deadline < now) {
+      return NextResponse.json(
+        { success: false, error: 'Rejection request has expired' },
+        { status: 400 }
+      )
+    }
+
+    const store = getAssociationStore()
+    const pending = await store.getPending(hash, now)
+
+    if (!pending) {
+      return NextResponse.json(
+        { success: false, error: 'Pending association not found' },
+        { status: 404 }
+      )
+    }
+
+    if (pending.status !== 'pending') {
+      return NextResponse.json(
+        { success: false, error: 'The association is no longer pending' },
+        { status: 409 }
+      )
+    }
+
+    // EVM addresses are stored lowercased; other chain types are case-sensitive
+    const signerKey = isAddress(signer) ? signer.toLowerCase() : signer
+    if (signerKey !== pending.approver_address) {
+      return NextResponse.json(
+        { success: false, error: 'Only the approver can reject a pending association' },
+        { status: 403 }
+      )
+    }
+
+    const isValidSignature = await verifyPendingRejectionSignature({
+      rejection,
+      chainId: publicClient.chain.id,
+      storeOrigin: new URL(request.url).origin,
+      account: decodeInteropAddress(pending.approver_bytes as Hex),
+      keyType,
+      signature,
+      publicClient,
+      keyTypeRegistry: defaultKeyTypeRegistry,
+    })
+
+    if (isValidSignature === 'unsupported') {
+      return NextResponse.json(
+        { success: false, error: `Key type ${formatKeyType(keyType)} cannot sign rejection requests` },
+        { status: 400 }
+      )
+    }
+    if (!isValidSignature) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid signature' },
+        { status: 401 }
+      )
+    }
+
+    // Each signed rejection can be submitted once
+    await store.pruneExpiredRequestNonces(now)
+    if (!await store.consumeRequestNonce('rejection', signerKey, rejection.nonce, rejection.deadline)) {
+      return NextResponse.json(
+        { success: false, error: 'Rejection request nonce has already been used' },
+        { status: 409 }
+      )
+    }
+
+    const rejected = await store.rejectPending(hash, now)
+    if (!rejected) {
+      return NextResponse.json(
+        { success: false, error: 'The association is no longer pending' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      pending: rejected,
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
+
+function isSameRequest(row: DbPendingAssociation, sar: SignedAssociationRecord): boolean {
+  return row.initiator_key_type === formatKeyType(sar.initiatorKeyType) &&
+    row.initiator_signature.toLowerCase() === sar.initiatorSignature.toLowerCase()
+}
@@ -1,8 +1,24 @@
 import { NextResponse } from 'next/server'
-import { sql, type DbAssociation } from '@/lib/db'
-import { extractAddress } from '@/lib/erc7930'
-import { validateAssociation } from '@/lib/validation'
-import { type Hex, verifyMessage, createPublicClient, http } from 'viem'
+import {
+  getAssociationStore,
+  rowToRecords,
+  hasSameSignatures,
+  isSuperseded,
+  parseAssociationQuery,
+  AssociationConflictError,
+  AssociationExistsError,
+  InvalidAssociationQueryError,
+  type AssociationQuery,
+  type DbAssociation,
+} from '@/lib/store'
+import { decodeInteropAddress, extractAddress, isInteropAddressError } from '@/lib/erc7930'
+import { validateAssociation, parseValidationTime, resolveValidationTime, type ResolvedValidationTime } from '@/lib/validation'
+import { canSignStoreRequests, defaultKeyTypeRegistry, formatKeyType } from '@/lib/keyTypes'
+import { hashAssociation } from '@/lib/eip712'
+import { parseUint40 } from '@/lib/serialize'
+import { parseRevocationRequest, verifyRevocationSignature, type SerializedRevocationRequest } from '@/lib/revocation'
+import { type Hex, createPublicClient, http, isAddress } from 'viem'
+import type { AssociatedAccountRecord, SignedAssociationRecord } from '@/lib/types'
 import { baseSepolia } from 'viem/chains'
 
 // Create a public client for ERC-1271 signature validation
@@ -30,108 +46,131 @@ interface StoreAssociationRequest {
   }
 }
 
-// Helper to format key type as 6-char string (e.g., "0x0001")
-function formatKeyType(keyType: number): string {
-  return `0x${keyType.toString(16).padStart(4, '0')}`
-}
-
 export async function POST(request: Request) {
   try {
     const body: StoreAssociationRequest = await request.json()
     const { aar, sar } = body
+    if (!aar || !sar) {
+      return NextResponse.json(
+        { success: false, error: 'Missing aar or sar' },
+        { status: 400 }
+      )
+    }
 
     // Extract addresses from ERC-7930 format
-    const initiatorAddress = extractAddress(aar.initiator)
-    const approverAddress = extractAddress(aar.approver)
+    let initiatorAddress: string
+    let approverAddress: string
+    try {
+      initiatorAddress = extractAddress(aar.initiator)
+      approverAddress = extractAddress(aar.approver)
+    } catch (err) {
+      if (isInteropAddressError(err)) {
+        return NextResponse.json(
+          { success: false, error: err.message, errorName: err.name },
+          { status: 400 }
+        )
+      }
+      throw err
+    }
+
+    const validAt = parseUint40(aar.validAt)
+    const validUntil = parseUint40(aar.validUntil)
+    const revokedAt = parseUint40(sar.revokedAt)
+    if (validAt === null || validUntil === null || revokedAt === null) {
+      return NextResponse.json(
+        { success: false, error: 'validAt, validUntil and revokedAt must be uint40 decimal strings' },
+        { status: 400 }
+      )
+    }
+
+    const record: AssociatedAccountRecord = {
+      initiator: aar.initiator,
+      approver: aar.approver,
+      validAt,
+      validUntil,
+      interfaceId: aar.interfaceId,
+      data: aar.data,
+    }
+
+    const signedRecord: SignedAssociationRecord = {
+      revokedAt,
+      initiatorKeyType: sar.initiatorKeyType,
+      approverKeyType: sar.approverKeyType,
+      initiatorSignature: sar.initiatorSignature,
+      approverSignature: sar.approverSignature,
+      record,
+    }
 
     // ERC-8092 Validation (with ERC-1271 support for smart contract wallets)
     const validationResult = await validateAssociation({
-      aar: {
-        initiator: aar.initiator,
-        approver: aar.approver,
-        validAt: BigInt(aar.validAt),
-        validUntil: BigInt(aar.validUntil),
-        interfaceId: aar.interfaceId,
-        data: aar.data,
-      },
-      sar: {
-        revokedAt: BigInt(sar.revokedAt),
-        initiatorKeyType: sar.initiatorKeyType,
-        approverKeyType: sar.approverKeyType,
-        initiatorSignature: sar.initiatorSignature,
-        approverSignature: sar.approverSignature,
-        record: {
-          initiator: aar.initiator,
-          approver: aar.approver,
-          validAt: BigInt(aar.validAt),
-          validUntil: BigInt(aar.validUntil),
-          interfaceId: aar.interfaceId,
-          data: aar.data,
-        },
-      },
-      initiatorAddress: initiatorAddress as Hex,
-      approverAddress: approverAddress as Hex,
+      aar: record,
+      sar: signedRecord,
       publicClient,
+      keyTypeRegistry: defaultKeyTypeRegistry,
     })
 
     if (!validationResult.valid) {
       return NextResponse.json(
-        { success: false, error: validationResult.error },
+        { success: false, error: validationResult.error, code: validationResult.code, checks: validationResult.checks },
         { status: 400 }
       )
     }
 
-    // Ensure accounts exist (upsert)
-    await sql`
-      INSERT INTO accounts (address) 
-      VALUES (${initiatorAddress})
-      ON CONFLICT (address) DO NOTHING
-    `
-    await sql`
-      INSERT INTO accounts (address) 
-      VALUES (${approverAddress})
-      ON CONFLICT (address) DO NOTHING
-    `
-
-    // Insert the association
-    const result = await sql`
-      INSERT INTO associations (
-        initiator_address,
-        approver_address,
-        initiator_bytes,
-        approver_bytes,
-        valid_at,
-        valid_until,
-        interface_id,
-        data,
-        revoked_at,
-        initiator_key_type,
-        approver_key_type,
-        initiator_signature,
-        approver_signature
-      ) VALUES (
-        ${initiatorAddress},
-        ${approverAddress},
-        ${aar.initiator},
-        ${aar.approver},
-        ${BigInt(aar.validAt)},
-        ${aar.validUntil === '0' ? null : BigInt(aar.validUntil)},
-        ${aar.interfaceId === '0x00000000' ? null : aar.interfaceId},
-        ${aar.data === '0x' ? null : aar.data},
-        ${sar.revokedAt === '0' ? null : BigInt(sar.revokedAt)},
-        ${formatKeyType(sar.initiatorKeyType)},
-        ${formatKeyType(sar.approverKeyType)},
-        ${sar.initiatorSignature},
-        ${sar.approverSignature}
+    // Validation skips missing signatures; half-signed associations go to /api/associations/pending
+    const unsigned = validationResult.checks.find((check) => check.code === 'NotPopulated')
+    if (unsigned) {
+      return NextResponse.json(
+        { success: false, error: `${unsigned.message}: both parties must sign before storing`, code: unsigned.code, checks: validationResult.checks },
+        { status: 400 }
       )
-      RETURNING id
-    `
+    }
+
+    // Either party must be able to revoke the association offchain (ERC-8092)
+    const unrevocable = [sar.initiatorKeyType, sar.approverKeyType].find((keyType) => !canSignStoreRequests(defaultKeyTypeRegistry, keyType))
+    if (unrevocable !== undefined) {
+      return NextResponse.json(
+        { success: false, error: `Key type ${formatKeyType(unrevocable)} cannot sign revocation requests, so the association cannot be stored offchain` },
+        { status: 400 }
+      )
+    }
+
+    // The EIP-712 hash identifies the association in both stores
+    const hash = hashAssociation(record)
+
+    // Store the association (and its accounts)
+    const store = getAssociationStore()
+    try {
+      await store.insert({
+        hash,
+        initiatorAddress,
+        approverAddress,
+        aar: record,
+        sar: signedRecord,
+      })
+    } catch (err) {
+      if (!(err instanceof AssociationExistsError)) throw err
 
-    const associationId = result[0]?.id
+      // Resubmitting the same signed record is idempotent, like the contract's AssociationAlreadyExists
+      const existing = await store.getByHash(hash)
+      if (existing && hasSameSignatures(existing, signedRecord)) {
+        return NextResponse.json({
+          success: true,
+          hash,
+          alreadyExists: true,
+          association: existing,
+        })
+      }
+
+      const conflict = new AssociationConflictError(hash)
+      return NextResponse.json(
+        { success: false, error: conflict.message, errorName: conflict.name },
+        { status: 409 }
+      )
+    }
 
     return NextResponse.json({
       success: true,
-      associationId,
+      hash,
     })
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error'
@@ -145,35 +184,87 @@ export async function POST(request: Request) {
 export async function GET(request: Request) {
   try {
     const { searchParams } = new URL(request.url)
-    const address = searchParams.get('address')?.toLowerCase()
-    const id = searchParams.get('id')
+    const hash = searchParams.get('hash')
+    const atParam = searchParams.get('at')
 
+    // Resolve `at` up front so every association is validated at the same time/block
+    let at: ResolvedValidationTime | null = null
+    if (atParam) {
+      const parsed = parseValidationTime(atParam)
+      if (!parsed) {
+        return NextResponse.json(
+          { success: false, error: `Invalid at: expected a unix timestamp, block:<number> or a block tag, got "${atParam}"` },
+          { status: 400 }
+        )
+      }
+      try {
+        at = await resolveValidationTime(parsed, publicClient)
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Unknown error'
+        return NextResponse.json(
+          { success: false, error: `Could not resolve at=${atParam}: ${message}` },
+          { status: 400 }
+        )
+      }
+    }
+
+    const store = getAssociationStore()
     let associations: DbAssociation[]
+    let nextCursor: string | null = null
 
-    if (id) {
-      // Get specific association by ID
-      associations = await sql`
-        SELECT * FROM associations WHERE id = ${parseInt(id, 10)}
-      ` as DbAssociation[]
-    } else if (address) {
-      // Get all associations for an address (as initiator or approver)
-      associations = await sql`
-        SELECT * FROM associations 
-        WHERE initiator_address = ${address} OR approver_address = ${address}
-        ORDER BY created_at DESC
-      ` as DbAssociation[]
+    if (hash) {
+      // Get specific association by its EIP-712 hash
+      const association = await store.getByHash(hash as Hex)
+      associations = association ? [association] : []
     } else {
-      // Get all associations (with limit)
-      associations = await sql`
-        SELECT * FROM associations 
-        ORDER BY created_at DESC 
-        LIMIT 100
-      ` as DbAssociation[]
+      // Filtered page of associations; status is evaluated at `at` if given, otherwise now
+      let query: AssociationQuery
+      try {
+        query = parseAssociationQuery(searchParams, at?.timestamp ?? BigInt(Math.floor(Date.now() / 1000)))
+      } catch (err) {
+        if (err instanceof InvalidAssociationQueryError) {
+          return NextResponse.json({ success: false, error: err.message }, { status: 400 })
+        }
+        throw err
+      }
+      ({ associations, nextCursor } = await store.query(query))
     }
 
+    // Offchain copies of associations also stored onchain, where the onchain record takes precedence
+    const withSupersession = associations.map((association) => ({ ...association, superseded: isSuperseded(association) }))
+
+    if (!at) {
+      return NextResponse.json({
+        success: true,
+        associations: withSupersession,
+        nextCursor,
+      })
+    }
+
+    // Validate each association as of `at`
+    const resolvedAt = at
+    const validated = await Promise.all(
+      withSupersession.map(async (association) => {
+        const { aar, sar } = rowToRecords(association)
+        const validation = await validateAssociation({
+          aar,
+          sar,
+          publicClient,
+          keyTypeRegistry: defaultKeyTypeRegistry,
+          at: resolvedAt,
+        })
+        return { ...association, validation }
+      })
+    )
+
     return NextResponse.json({
       success: true,
-      associations,
+      at: {
+        timestamp: at.timestamp.toString(),
+        blockNumber: at.blockNumber?.toString() ?? null,
+      },
+      associations: validated,
+      nextCursor,
     })
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error'
@@ -186,102 +277,142 @@ export async function GET(request: Request) {
 
 // Request body type for PATCH (revocation)
 interface RevokeAssociationRequest {
-  id: number
-  revokedAt?: number
-  message: string      // The message that was signed
-  signature: Hex       // The signature
-  signer: string       // The claimed signer address
+  request: SerializedRevocationRequest  // The EIP-712 RevocationRequest that was signed
+  signature: Hex                        // The signature
+  signer: string                        // The claimed signer: EVM address or Solana public key
+  keyType: number                       // Key type of the signature
 }
 
 // PATCH to revoke an association
 // Per ERC-8092: "If a previously revoked association is revoked again 
 // with an earlier timestamp, the earlier timestamp MUST take precedence."
 // 
-// Auth: The connected wallet must sign a message, and we verify:
-// 1. The signature recovers to the claimed signer
+// Auth: A party signs an EIP-712 RevocationRequest under the store's domain, and we verify:
+// 1. The request has not passed its deadline
 // 2. The signer is either the initiator or approver of the association
+// 3. The signature is valid for that party's account and key type (EOA, smart wallet, passkey, Solana, ...)
+// 4. The signer has not used the request's nonce before
+//
+// As onchain, the association is revoked at max(now, revokedAt): a request cannot backdate it.
+// The nonce is consumed only once every other check has passed, so a rejected request can be retried.
 export async function PATCH(request: Request) {
   try {
     const body: RevokeAssociationRequest = await request.json()
-    const { id, revokedAt, message, signature, signer } = body
+    const { signature, signer, keyType } = body
 
     // Validate required fields
-    if (!id) {
+    const revocation = parseRevocationRequest(body.request)
+    if (!revocation) {
       return NextResponse.json(
-        { success: false, error: 'Missing id' },
+        { success: false, error: 'Missing or malformed revocation request' },
         { status: 400 }
       )
     }
+    const hash = revocation.associationHash
 
-    if (!message || !signature || !signer) {
+    if (!signature || !signer || typeof signer !== 'string' || !Number.isInteger(keyType)) {
       return NextResponse.json(
-        { success: false, error: 'Missing authentication fields (message, signature, signer)' },
+        { success: false, error: 'Missing authentication fields (signature, signer, keyType)' },
         { status: 400 }
       )
     }
 
-    // Verify the signature recovers to the claimed signer
-    const isValidSignature = await verifyMessage({
-      address: signer as Hex,
-      message,
-      signature,
-    })
-
-    if (!isValidSignature) {
+    const now = BigInt(Math.floor(Date.now() / 1000))
+    if (revocation.deadline < now) {
       return NextResponse.json(
-        { success: false, error: 'Invalid signature' },
-        { status: 401 }
+        { success: false, error: 'Revocation request has expired' },
+        { status: 400 }
       )
     }
 
     // Fetch the association to check if signer is a party
-    const associations = await sql`
-      SELECT initiator_address, approver_address FROM associations WHERE id = ${id}
-    ` as { initiator_address: string; approver_address: string }[]
+    const store = getAssociationStore()
+    const association = await store.getByHash(hash)
 
-    if (associations.length === 0) {
+    if (!association) {
       return NextResponse.json(
         { success: false, error: 'Association not found' },
         { status: 404 }
       )
     }
 
-    const association = associations[0]
-    const signerLower = signer.toLowerCase()
+    // The onchain record takes precedence, so it must be revoked onchain
+    if (isSuperseded(association)) {
+      return NextResponse.json(
+        { success: false, error: 'Association is also stored onchain; revoke it onchain', transactionHash: association.transaction_hash },
+        { status: 409 }
+      )
+    }
+
+    // EVM addresses are stored lowercased; other chain types are case-sensitive
+    const signerKey = isAddress(signer) ? signer.toLowerCase() : signer
 
     // Check that signer is either initiator or approver
-    if (signerLower !== association.initiator_address && signerLower !== association.approver_address) {
+    const accountBytes = signerKey === association.initiator_address ? association.initiator_bytes
+      : signerKey === association.approver_address ? association.approver_bytes
+        : null
+    if (!accountBytes) {
       return NextResponse.json(
         { success: false, error: 'Signer is not a party to this association' },
         { status: 403 }
       )
     }
 
-    // Verify the message format matches expected pattern
-    const expectedTimestamp = revokedAt ?? Math.floor(Date.now() / 1000)
-    const expectedMessage = `Revoke association ${id} at timestamp ${expectedTimestamp}`
-    
-    if (message !== expectedMessage) {
+    // Verify the signature with the party's key type (ERC-1271/6492 go through the public client)
+    const isValidSignature = await verifyRevocationSignature({
+      request: revocation,
+      chainId: publicClient.chain.id,
+      storeOrigin: new URL(request.url).origin,
+      account: decodeInteropAddress(accountBytes as Hex),
+      keyType,
+      signature,
+      publicClient,
+      keyTypeRegistry: defaultKeyTypeRegistry,
+    })
+
+    if (isValidSignature === 'unsupported') {
       return NextResponse.json(
-        { success: false, error: 'Message format mismatch' },
+        { success: false, error: `Key type ${formatKeyType(keyType)} cannot sign revocation requests` },
         { status: 400 }
       )
     }
+    if (!isValidSignature) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid signature' },
+        { status: 401 }
+      )
+    }
 
-    // Use provided timestamp or current time
-    const revocationTimestamp = BigInt(expectedTimestamp)
+    // An earlier existing revocation takes precedence per spec, so this one would change nothing
+    const revokedAt = revocation.revokedAt > now ? revocation.revokedAt : now
+    if (association.revoked_at !== null && BigInt(association.revoked_at) <= revokedAt) {
+      return NextResponse.json(
+        { success: false, error: 'Association is already revoked', revokedAt: association.revoked_at },
+        { status: 409 }
+      )
+    }
 
-    // Only update if:
-    // 1. Not currently revoked (revoked_at IS NULL), OR
-    // 2. New timestamp is earlier than existing (earlier takes precedence per spec)
-    await sql`
-      UPDATE associations 
-      SET revoked_at = ${revocationTimestamp}
-      WHERE id = ${id}
-        AND (revoked_at IS NULL OR revoked_at > ${revocationTimestamp})
-    `
+    // Each signed request can be submitted once; expired nonces can no longer be replayed
+    await store.pruneExpiredRequestNonces(now)
+    if (!await store.consumeRequestNonce('revocation', signerKey, revocation.nonce, revocation.deadline)) {
+      return NextResponse.json(
+        { success: false, error: 'Revocation request nonce has already been used' },
+        { status: 409 }
+      )
+    }
 
-    return NextResponse.json({ success: true, revokedAt: revocationTimestamp.toString() })
+    const revoked = await store.revoke(hash, revokedAt)
+    if (!revoked) {
+      return NextResponse.json(
+        { success: false, error: 'Association not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      revokedAt: revoked.revoked_at,
+    })
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error'
     return NextResponse.json(
@@ -290,4 +421,3 @@ export async function PATCH(request: Request) {
     )
   }
 }
-
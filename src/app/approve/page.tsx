@@ -0,0 +1,29 @@
+'use client'
+
+import { Suspense } from 'react'
+import { useSearchParams } from 'next/navigation'
+import { ApprovePanel } from '@/components/ApprovePanel'
+import { SIGNING_REQUEST_PARAM } from '@/lib/signingRequest'
+
+function ApproveRequest() {
+  const searchParams = useSearchParams()
+  return <ApprovePanel request={searchParams.get(SIGNING_REQUEST_PARAM)} />
+}
+
+export default function ApprovePage() {
+  return (
+    <div className="page">
+      <section className="demo-section">
+        <div className="demo-header">
+          <h3>Review and approve an ERC-8092 association</h3>
+        </div>
+        <div className="demo-container">
+          {/* useSearchParams needs a Suspense boundary for static rendering */}
+          <Suspense fallback={<p className="hint">Loading request...</p>}>
+            <ApproveRequest />
+          </Suspense>
+        </div>
+      </section>
+    </div>
+  )
+}
@@ -1,18 +1,22 @@
 'use client'
 
 import { useState, useCallback } from 'react'
+import type { Hex } from 'viem'
 import { FaTelegramPlane, FaGithub } from 'react-icons/fa'
 import { Demo } from '@/components/Demo'
 import { AssociationsGraph, type AssociationSelectData } from '@/components/AssociationsGraph'
 import { RecordDisplay } from '@/components/RecordDisplay'
+import { InboxPanel } from '@/components/InboxPanel'
 import { useWalletConnection } from '@/hooks'
 import { extractAddress } from '@/lib/erc7930'
 import { 
   type AssociatedAccountRecord, 
   type SignedAssociationRecord,
+  type StorageStrategy,
   createEmptyAAR,
   createEmptySAR 
 } from '@/lib/types'
+import type { ValidationResult } from '@/lib/validation'
 
 type TabMode = 'write' | 'read'
 
@@ -31,7 +35,8 @@ export default function Home() {
   const [readAar, setReadAar] = useState<AssociatedAccountRecord>(createEmptyAAR())
   const [readSar, setReadSar] = useState<SignedAssociationRecord>(createEmptySAR())
   const [readSource, setReadSource] = useState<'onchain' | 'offchain' | null>(null)
-  const [readAssociationId, setReadAssociationId] = useState<string | null>(null)
+  const [readAssociationId, setReadAssociationId] = useState<Hex | null>(null)
+  const [readValidation, setReadValidation] = useState<ValidationResult | null>(null)
   
   // Graph refresh trigger - increment to cause refetch
   const [graphRefreshTrigger, setGraphRefreshTrigger] = useState(0)
@@ -52,6 +57,7 @@ export default function Home() {
     setReadSar(data.sar)
     setReadSource(data.source)
     setReadAssociationId(data.id)
+    setReadValidation(data.validation)
     setActiveTab('read')
   }, [])
 
@@ -63,9 +69,9 @@ export default function Home() {
   }, [activeTab])
 
   // Handle store completion - refresh graph after delay
-  const handleStoreComplete = useCallback((storageMethod: 'onchain' | 'database') => {
+  const handleStoreComplete = useCallback((storageMethod: StorageStrategy) => {
     // Delay refresh to allow for block inclusion (longer for onchain)
-    const delay = storageMethod === 'onchain' ? 3000 : 500
+    const delay = storageMethod !== 'database' ? 3000 : 500
     setTimeout(() => {
       setGraphRefreshTrigger(prev => prev + 1)
     }, delay)
@@ -101,10 +107,15 @@ export default function Home() {
       return false // Already revoked
     }
     // Check if connected address is initiator or approver
-    const initiatorAddr = extractAddress(readAar.initiator)?.toLowerCase()
-    const approverAddr = extractAddress(readAar.approver)?.toLowerCase()
-    const connected = connectedAddress.toLowerCase()
-    return connected === initiatorAddr || connected === approverAddr
+    try {
+      const initiatorAddr = extractAddress(readAar.initiator)
+      const approverAddr = extractAddress(readAar.approver)
+      const connected = connectedAddress.toLowerCase()
+      return connected === initiatorAddr || connected === approverAddr
+    } catch {
+      // Malformed ERC-7930 address - nobody can be matched as a party
+      return false
+    }
   }, [isConnected, connectedAddress, readAar, readSar])
 
   // Get the current AAR/SAR based on active tab
@@ -189,6 +200,7 @@ export default function Home() {
                 revokeSource={readSource}
                 revokeAssociationId={readAssociationId}
               />
+              <InboxPanel refreshTrigger={graphRefreshTrigger} />
             </aside>
             
             {/* Right panel: Tabbed AAR/SAR display */}
@@ -213,7 +225,11 @@ export default function Home() {
                 </div>
                 
                 {/* Record display shows data based on active tab */}
-                <RecordDisplay aar={displayAar} sar={displaySar} />
+                <RecordDisplay
+                  aar={displayAar}
+                  sar={displaySar}
+                  validation={activeTab === 'read' ? readValidation ?? undefined : undefined}
+                />
                 
                 {/* Read tab hint when empty */}
                 {activeTab === 'read' && readAar.initiator === '0x' && (
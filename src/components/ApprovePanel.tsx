@@ -0,0 +1,259 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { usePublicClient } from 'wagmi'
+import { baseSepolia } from 'wagmi/chains'
+import type { FlowStep, SignedAssociationRecord, StorageStrategy } from '@/lib/types'
+import { decodeInteropAddress, extractAddress, isInteropAddressError, isInteropEvmAccount } from '@/lib/erc7930'
+import { decodeSigningRequest, InvalidSigningRequestError } from '@/lib/signingRequest'
+import { validateAssociation, type ValidationResult } from '@/lib/validation'
+import { defaultKeyTypeRegistry } from '@/lib/keyTypes'
+import { useWalletConnection, useAssociationSigning, useStorageStrategy } from '@/hooks'
+import { RecordDisplay } from './RecordDisplay'
+import { StorageStep } from './StorageStep'
+
+interface ApprovePanelProps {
+  /** Signing request token from the approval link */
+  request: string | null
+}
+
+/**
+ * Approver side of a signing request: review the half-signed association,
+ * countersign it with the approver wallet and store it.
+ */
+export function ApprovePanel({ request }: ApprovePanelProps) {
+  const decoded = useMemo(() => {
+    if (!request) return { error: 'This link has no signing request' }
+    try {
+      return { sar: decodeSigningRequest(request).sar }
+    } catch (err) {
+      if (err instanceof InvalidSigningRequestError) return { error: err.message }
+      throw err
+    }
+  }, [request])
+
+  if (!decoded.sar) {
+    return (
+      <div className="control-panel">
+        <div className="error-message">{decoded.error}</div>
+      </div>
+    )
+  }
+  return <SigningRequestApproval initialSar={decoded.sar} />
+}
+
+function SigningRequestApproval({ initialSar }: { initialSar: SignedAssociationRecord }) {
+  const [sar, setSar] = useState<SignedAssociationRecord>(initialSar)
+  const [flowStep, setFlowStep] = useState<FlowStep>('connect-approver')
+  const [storageMethod, setStorageMethod] = useState<StorageStrategy>('onchain')
+  const [validation, setValidation] = useState<ValidationResult | null>(null)
+  // Failed checks (e.g. an unreachable RPC) can be retried; each attempt reruns validation
+  const [validationAttempt, setValidationAttempt] = useState(0)
+  const [isValidationFailed, setIsValidationFailed] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const aar = sar.record
+
+  const publicClient = usePublicClient({ chainId: baseSepolia.id })
+  const {
+    isConnected,
+    address,
+    isWrongChain,
+    isSwitchingChain,
+    handleConnect,
+    handleDisconnect,
+    handleSwitchNetwork,
+  } = useWalletConnection()
+
+  const { isProcessing, handleSignApprover } = useAssociationSigning({
+    aar,
+    sar,
+    setSar,
+    setFlowStep,
+    setError,
+  })
+
+  const storage = useStorageStrategy({
+    strategy: storageMethod,
+    aar,
+    sar,
+    flowStep,
+    setFlowStep,
+    setError,
+  })
+
+  const usesOnchain = storageMethod !== 'database'
+
+  const parties = useMemo(() => {
+    try {
+      return { initiator: extractAddress(aar.initiator), approver: extractAddress(aar.approver) }
+    } catch (err) {
+      if (isInteropAddressError(err)) return null
+      throw err
+    }
+  }, [aar])
+
+  // Only EVM approvers can sign with a connected wallet here
+  const isEvmApprover = useMemo(() => {
+    try {
+      return decodeInteropAddress(aar.approver).chainType === 'eip155'
+    } catch (err) {
+      if (isInteropAddressError(err)) return false
+      throw err
+    }
+  }, [aar])
+
+  const isApprover = !!address && isInteropEvmAccount(aar.approver, address, baseSepolia.id)
+
+  // Check the initiator signature before asking the approver to countersign
+  useEffect(() => {
+    let cancelled = false
+    setIsValidationFailed(false)
+    validateAssociation({ aar, sar: initialSar, publicClient, keyTypeRegistry: defaultKeyTypeRegistry })
+      .then((result) => { if (!cancelled) setValidation(result) })
+      .catch((err) => {
+        if (cancelled) return
+        const message = err instanceof Error ? err.message : 'Unknown error'
+        setError(`Could not check the request: ${message}`)
+        setIsValidationFailed(true)
+      })
+    return () => { cancelled = true }
+  }, [aar, initialSar, publicClient, validationAttempt])
+
+  const handleRetryValidation = () => {
+    setError(null)
+    setValidationAttempt((attempt) => attempt + 1)
+  }
+
+  const initiatorCheck = validation?.checks.find((check) => check.step === 'initiatorSignature')
+  const isInitiatorSignatureValid = initiatorCheck?.status === 'pass'
+
+  // Advance once the approver wallet is connected, and go back if it is switched away
+  useEffect(() => {
+    if (flowStep === 'connect-approver' && isApprover) {
+      setFlowStep('sign-approver')
+    } else if (flowStep === 'sign-approver' && !isApprover) {
+      setFlowStep('connect-approver')
+    }
+  }, [flowStep, isApprover])
+
+  return (
+    <div className="approve-layout">
+      <div className="control-panel">
+        <div className="flow-section">
+          <h3>Approve Association</h3>
+          {parties && (
+            <div className="expected-address">
+              <span className="expected-label">Requested by:</span>
+              <span className="expected-value">{parties.initiator.slice(0, 6)}...{parties.initiator.slice(-4)}</span>
+            </div>
+          )}
+          {validation && !isInitiatorSignatureValid && (
+            <p className="warning-text">
+              The initiator signature is not valid{initiatorCheck ? `: ${initiatorCheck.message}` : ''}. Do not approve this request.
+            </p>
+          )}
+          {validation && !validation.valid && isInitiatorSignatureValid && (
+            <p className="warning-text">{validation.error}</p>
+          )}
+          {isValidationFailed && (
+            <button onClick={handleRetryValidation} className="secondary-btn">
+              Retry Check
+            </button>
+          )}
+
+          {flowStep === 'connect-approver' && (
+            <div className="step-content">
+              {!isEvmApprover ? (
+                <p className="hint">
+                  The approver is not an EVM account. Approve in the browser where the association was started.
+                </p>
+              ) : (
+                <>
+                  <p>Connect the approver wallet</p>
+                  {parties && (
+                    <div className="expected-address">
+                      <span className="expected-label">Expected address:</span>
+                      <span className="expected-value">{parties.approver.slice(0, 6)}...{parties.approver.slice(-4)}</span>
+                    </div>
+                  )}
+                  {isConnected ? (
+                    <>
+                      <p className="hint">Wrong wallet. Connect the approver address.</p>
+                      <button onClick={handleDisconnect} className="secondary-btn">
+                        Disconnect
+                      </button>
+                    </>
+                  ) : (
+                    <button onClick={handleConnect} className="primary-btn">
+                      Connect Approver Wallet
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          {flowStep === 'sign-approver' && (
+            <div className="step-content">
+              <p>Sign the association with your approver wallet</p>
+              {isWrongChain && !isSwitchingChain && (
+                <button onClick={handleSwitchNetwork} className="switch-network-btn">
+                  Switch to Base Sepolia
+                </button>
+              )}
+              <button
+                onClick={handleSignApprover}
+                className="primary-btn"
+                disabled={isProcessing || !isInitiatorSignatureValid}
+              >
+                {isProcessing ? 'Signing...' : validation ? 'Sign Association' : isValidationFailed ? 'Request not checked' : 'Checking request...'}
+              </button>
+            </div>
+          )}
+
+          {flowStep === 'store-association' && (
+            <StorageStep
+              storageMethod={storageMethod}
+              setStorageMethod={setStorageMethod}
+              storage={storage}
+              onStore={storage.handleStoreAssociation}
+            />
+          )}
+
+          {flowStep === 'complete' && (
+            <div className="step-content">
+              <p className="success">✓ Association complete!</p>
+              <a href="/" className="tx-link">Open the demo ↗</a>
+            </div>
+          )}
+
+          {flowStep === 'complete' && usesOnchain && storage.txHash && (
+            <div className="tx-status">
+              <a
+                href={`https://sepolia.basescan.org/tx/${storage.txHash}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="tx-link"
+              >
+                View on BaseScan ↗
+              </a>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="error-message">
+            {error}
+          </div>
+        )}
+      </div>
+
+      {/* The report covers the request as received, before the approver signed */}
+      <RecordDisplay
+        aar={aar}
+        sar={sar}
+        validation={sar.approverSignature === '0x' ? validation ?? undefined : undefined}
+      />
+    </div>
+  )
+}
@@ -7,13 +7,18 @@ import { baseSepolia, mainnet } from 'wagmi/chains'
 import cytoscape from 'cytoscape'
 import { useWalletConnection } from '@/hooks'
 import { ASSOCIATIONS_STORE_ADDRESS, associationsStoreAbi } from '@/lib/contracts'
-import { extractAddress } from '@/lib/erc7930'
+import { fromContractRecord } from '@/lib/contractEvents'
+import { extractAddress, isInteropAddressError } from '@/lib/erc7930'
 import { addressToErc7930, type AssociatedAccountRecord, type SignedAssociationRecord } from '@/lib/types'
-import { validateAssociation } from '@/lib/validation'
-import type { DbAssociation } from '@/lib/db'
+import { validateAssociation, type ValidationResult } from '@/lib/validation'
+import { hashAssociation } from '@/lib/eip712'
+import { defaultKeyTypeRegistry } from '@/lib/keyTypes'
+import type { DbAssociation } from '@/lib/store'
+import { ValidationChecklist } from './ValidationChecklist'
 
 interface FullAssociation {
-  id: string
+  /** EIP-712 hash of the AAR, shared by onchain and offchain copies */
+  id: Hex
   initiator: string
   approver: string
   validAt: bigint
@@ -21,7 +26,7 @@ interface FullAssociation {
   revokedAt: bigint
   source: 'onchain' | 'offchain'
   isValid: boolean
-  invalidReason?: string
+  validation: ValidationResult
   // Full record data for populating the visualization
   aar: AssociatedAccountRecord
   sar: SignedAssociationRecord
@@ -31,7 +36,9 @@ export interface AssociationSelectData {
   aar: AssociatedAccountRecord
   sar: SignedAssociationRecord
   source: 'onchain' | 'offchain'
-  id: string
+  /** EIP-712 hash of the AAR */
+  id: Hex
+  validation: ValidationResult
 }
 
 interface AssociationsGraphProps {
@@ -61,6 +68,8 @@ export function AssociationsGraph({ onAssociationSelect, refreshTrigger = 0 }: A
   const [ensNames, setEnsNames] = useState<Map<string, string>>(new Map())
   const [isLoading, setIsLoading] = useState(false)
   const [copiedAddress, setCopiedAddress] = useState<string | null>(null)
+  // Edge under the pointer, positioned relative to the graph canvas
+  const [hoveredEdge, setHoveredEdge] = useState<{ id: string; x: number; y: number } | null>(null)
   const [localRefreshCounter, setLocalRefreshCounter] = useState(0)
 
   // Combined refresh trigger (external + local)
@@ -138,46 +147,29 @@ export function AssociationsGraph({ onAssociationSelect, refreshTrigger = 0 }: A
         })
 
         const associations: FullAssociation[] = await Promise.all(
-          sars.map(async (sar, index) => {
-            const initiatorAddr = extractAddress(sar.record.initiator as Hex)
-            const approverAddr = extractAddress(sar.record.approver as Hex)
+          sars.map(async (sar) => {
+            const initiator = resolveAccountKey(sar.record.initiator as Hex)
+            const approver = resolveAccountKey(sar.record.approver as Hex)
 
-            const aarData: AssociatedAccountRecord = {
-              initiator: sar.record.initiator as Hex,
-              approver: sar.record.approver as Hex,
-              validAt: BigInt(sar.record.validAt),
-              validUntil: BigInt(sar.record.validUntil),
-              interfaceId: sar.record.interfaceId as Hex,
-              data: sar.record.data as Hex,
-            }
-
-            const sarData: SignedAssociationRecord = {
-              revokedAt: BigInt(sar.revokedAt),
-              initiatorKeyType: parseInt(sar.initiatorKeyType, 16),
-              approverKeyType: parseInt(sar.approverKeyType, 16),
-              initiatorSignature: sar.initiatorSignature as Hex,
-              approverSignature: sar.approverSignature as Hex,
-              record: aarData,
-            }
+            const { aar: aarData, sar: sarData } = fromContractRecord(sar)
 
             const validation = await validateAssociation({
               aar: aarData,
               sar: sarData,
-              initiatorAddress: initiatorAddr as Hex,
-              approverAddress: approverAddr as Hex,
               publicClient,
+              keyTypeRegistry: defaultKeyTypeRegistry,
             })
 
             return {
-              id: `onchain-${index}`,
-              initiator: initiatorAddr,
-              approver: approverAddr,
+              id: hashAssociation(aarData),
+              initiator,
+              approver,
               validAt: aarData.validAt,
               validUntil: aarData.validUntil,
               revokedAt: sarData.revokedAt,
               source: 'onchain' as const,
               isValid: validation.valid,
-              invalidReason: validation.error,
+              validation,
               aar: aarData,
               sar: sarData,
             }
@@ -202,16 +194,26 @@ export function AssociationsGraph({ onAssociationSelect, refreshTrigger = 0 }: A
     }
 
     async function fetchOffchainAssociations() {
+      if (!targetAddress) return
       try {
-        const response = await fetch(`/api/associations?address=${targetAddress}`)
-        const data = await response.json()
-
-        if (!data.success || !data.associations) {
-          return
-        }
+        // Follow the cursor through every page of the account's associations
+        const rows: (DbAssociation & { superseded: boolean })[] = []
+        let cursor: string | null = null
+        do {
+          const params = new URLSearchParams({ address: targetAddress })
+          if (cursor) params.set('cursor', cursor)
+          const response = await fetch(`/api/associations?${params}`)
+          const data = await response.json()
+
+          if (!data.success || !data.associations) {
+            return
+          }
+          rows.push(...data.associations)
+          cursor = data.nextCursor
+        } while (cursor)
 
         const associations: FullAssociation[] = await Promise.all(
-          data.associations.map(async (dbAssoc: DbAssociation) => {
+          rows.map(async (dbAssoc) => {
             const validAt = BigInt(dbAssoc.valid_at)
             const validUntil = dbAssoc.valid_until ? BigInt(dbAssoc.valid_until) : 0n
             const revokedAt = dbAssoc.revoked_at ? BigInt(dbAssoc.revoked_at) : 0n
@@ -239,21 +241,22 @@ export function AssociationsGraph({ onAssociationSelect, refreshTrigger = 0 }: A
             const validation = await validateAssociation({
               aar: aarData,
               sar: sarData,
-              initiatorAddress: dbAssoc.initiator_address as Hex,
-              approverAddress: dbAssoc.approver_address as Hex,
               publicClient,
+              keyTypeRegistry: defaultKeyTypeRegistry,
             })
 
             return {
-              id: `db-${dbAssoc.id}`,
+              id: dbAssoc.hash as Hex,
               initiator: dbAssoc.initiator_address,
               approver: dbAssoc.approver_address,
               validAt,
               validUntil,
               revokedAt,
-              source: 'offchain' as const,
+              // Rows mirrored by the onchain indexer keep their onchain source, and superseded
+              // offchain rows take it, so they are revoked onchain
+              source: dbAssoc.superseded ? 'onchain' : dbAssoc.source,
               isValid: validation.valid,
-              invalidReason: validation.error,
+              validation,
               aar: aarData,
               sar: sarData,
             }
@@ -269,23 +272,21 @@ export function AssociationsGraph({ onAssociationSelect, refreshTrigger = 0 }: A
     fetchOffchainAssociations()
   }, [targetAddress, combinedRefreshTrigger])
 
-  // Combine and deduplicate associations (onchain takes precedence)
+  // Combine and deduplicate associations by hash (onchain takes precedence)
   const mergedAssociations = useMemo(() => {
-    const pairMap = new Map<string, FullAssociation>()
+    const hashMap = new Map<Hex, FullAssociation>()
 
     for (const assoc of onchainAssociations) {
-      const key = [assoc.initiator.toLowerCase(), assoc.approver.toLowerCase()].sort().join('-')
-      pairMap.set(key, assoc)
+      hashMap.set(assoc.id, assoc)
     }
 
     for (const assoc of offchainAssociations) {
-      const key = [assoc.initiator.toLowerCase(), assoc.approver.toLowerCase()].sort().join('-')
-      if (!pairMap.has(key)) {
-        pairMap.set(key, assoc)
+      if (!hashMap.has(assoc.id)) {
+        hashMap.set(assoc.id, assoc)
       }
     }
 
-    return Array.from(pairMap.values())
+    return Array.from(hashMap.values())
   }, [onchainAssociations, offchainAssociations])
 
   // Create a map from association ID to full association for click handling
@@ -321,8 +322,9 @@ export function AssociationsGraph({ onAssociationSelect, refreshTrigger = 0 }: A
 
       const nameMap = new Map<string, string>()
 
+      // Only EVM addresses have ENS reverse records
       await Promise.all(
-        allAddresses.map(async (addr) => {
+        allAddresses.filter((addr) => isAddress(addr)).map(async (addr) => {
           try {
             const name = await mainnetClient.getEnsName({
               address: addr as Address,
@@ -371,6 +373,7 @@ export function AssociationsGraph({ onAssociationSelect, refreshTrigger = 0 }: A
         sar: assoc.sar,
         source: assoc.source,
         id: assoc.id,
+        validation: assoc.validation,
       })
     }
   }, [associationMap, onAssociationSelect])
@@ -452,7 +455,6 @@ export function AssociationsGraph({ onAssociationSelect, refreshTrigger = 0 }: A
           target: otherAddr,
           edgeType,
           isValid: assoc.isValid,
-          invalidReason: assoc.invalidReason,
         },
       })
     }
@@ -599,11 +601,22 @@ export function AssociationsGraph({ onAssociationSelect, refreshTrigger = 0 }: A
       handleEdgeClick(edgeId)
     })
 
+    // Show the validation checklist for the hovered edge
+    cy.on('mouseover', 'edge', (evt) => {
+      const { x, y } = evt.renderedPosition
+      setHoveredEdge({ id: evt.target.id(), x, y })
+    })
+
+    cy.on('mouseout', 'edge', () => {
+      setHoveredEdge(null)
+    })
+
     cyRef.current = cy
 
     return () => {
       cy.destroy()
       cyRef.current = null
+      setHoveredEdge(null)
     }
   }, [elements, handleNodeClick, handleEdgeClick])
 
@@ -662,6 +675,7 @@ export function AssociationsGraph({ onAssociationSelect, refreshTrigger = 0 }: A
   }
 
   const showEmptyState = !targetAddress || mergedAssociations.length === 0
+  const hoveredAssociation = hoveredEdge ? associationMap.get(hoveredEdge.id) : undefined
 
   return (
     <div className="graph-container">
@@ -751,7 +765,14 @@ export function AssociationsGraph({ onAssociationSelect, refreshTrigger = 0 }: A
         </div>
       ) : (
         <>
-          <div className="graph-visualization" ref={containerRef} />
+          <div className="graph-visualization-wrapper">
+            <div className="graph-visualization" ref={containerRef} />
+            {hoveredAssociation && hoveredEdge && (
+              <div className="graph-tooltip" style={{ left: hoveredEdge.x, top: hoveredEdge.y }}>
+                <ValidationChecklist checks={hoveredAssociation.validation.checks} compact />
+              </div>
+            )}
+          </div>
           <div className="graph-instructions">
             <span>Click node to copy address • Click edge to view details</span>
           </div>
@@ -760,3 +781,19 @@ export function AssociationsGraph({ onAssociationSelect, refreshTrigger = 0 }: A
     </div>
   )
 }
+
+/**
+ * Resolve the graph node ID for an ERC-7930 address.
+ * Malformed addresses keep their raw bytes as the ID so they still render,
+ * and are reported as invalid by validateAssociation.
+ */
+function resolveAccountKey(bytes: Hex): string {
+  try {
+    return extractAddress(bytes)
+  } catch (err) {
+    if (isInteropAddressError(err)) {
+      return bytes.toLowerCase()
+    }
+    throw err
+  }
+}
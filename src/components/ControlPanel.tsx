@@ -1,12 +1,16 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { type Address, type Hex, isAddress, isHex } from 'viem'
 import { useEnsAddress } from 'wagmi'
 import { baseSepolia, mainnet } from 'wagmi/chains'
-import type { FlowStep, AssociatedAccountRecord, SignedAssociationRecord } from '@/lib/types'
-import { addressToErc7930 } from '@/lib/types'
-import { useWalletConnection, useAssociationSigning, useAssociationStorage, useDatabaseStorage, useAssociationRevocation, useDatabaseRevocation } from '@/hooks'
+import type { FlowStep, AssociatedAccountRecord, SignedAssociationRecord, StorageStrategy } from '@/lib/types'
+import { addressToErc7930, STORAGE_LEG_LABELS } from '@/lib/types'
+import { decodeInteropAddress, encodeSolanaAddress, isSolanaAddress } from '@/lib/erc7930'
+import type { AssociationDraft } from '@/lib/drafts'
+import { SigningRequestShare } from './SigningRequestShare'
+import { StorageStep } from './StorageStep'
+import { useWalletConnection, useAssociationSigning, useStorageStrategy, useAssociationRevocation, useDatabaseRevocation, usePasskey, useSolanaWallet, useAssociationDrafts, useDraftBatchStorage } from '@/hooks'
 
 interface ControlPanelProps {
   flowStep: FlowStep
@@ -18,7 +22,7 @@ interface ControlPanelProps {
   /** Callback when user takes a write action (to switch tabs) */
   onWriteActivity?: () => void
   /** Callback when association is stored (to refresh graph) */
-  onStoreComplete?: (storageMethod: 'onchain' | 'database') => void
+  onStoreComplete?: (storageMethod: StorageStrategy) => void
   /** Callback when association is revoked (to refresh graph) */
   onRevokeComplete?: () => void
   /** Trigger to start revoke mode (increment to activate) */
@@ -26,7 +30,7 @@ interface ControlPanelProps {
   /** Source of the association to revoke */
   revokeSource?: 'onchain' | 'offchain' | null
   /** ID of the association to revoke */
-  revokeAssociationId?: string | null
+  revokeAssociationId?: Hex | null
 }
 
 export function ControlPanel({ 
@@ -51,10 +55,10 @@ export function ControlPanel({
   const [awaitingApproverConnect, setAwaitingApproverConnect] = useState(false)
   
   // Storage method selection
-  const [storageMethod, setStorageMethod] = useState<'onchain' | 'database'>('onchain')
+  const [storageMethod, setStorageMethod] = useState<StorageStrategy>('onchain')
   
   // External association ID (for revoking existing associations)
-  const [externalAssociationId, setExternalAssociationId] = useState<string | null>(null)
+  const [externalAssociationId, setExternalAssociationId] = useState<Hex | null>(null)
   const [isRevokingExisting, setIsRevokingExisting] = useState(false)
   
   // Optional AAR fields
@@ -81,6 +85,8 @@ export function ControlPanel({
     isProcessing,
     handleSignInitiator,
     handleSignApprover,
+    handleSignApproverWithPasskey,
+    handleSignApproverWithSolana,
   } = useAssociationSigning({
     aar,
     sar,
@@ -89,76 +95,60 @@ export function ControlPanel({
     setError,
   })
 
-  const onchainStorage = useAssociationStorage({
-    aar,
-    sar,
-    flowStep,
-    setFlowStep,
-    setError,
-  })
+  const {
+    passkey,
+    isSupported: isPasskeySupported,
+    isCreating: isCreatingPasskey,
+    handleCreatePasskey,
+  } = usePasskey({ setError })
 
-  const databaseStorage = useDatabaseStorage({
+  const solanaWallet = useSolanaWallet({ setError })
+
+  // Onchain, database or both, each leg tracked independently
+  const storage = useStorageStrategy({
+    strategy: storageMethod,
     aar,
     sar,
     flowStep,
     setFlowStep,
     setError,
   })
+  const { legs: storageLegs, associationId, handleStoreAssociation } = storage
 
-  // Use the appropriate storage based on selection
-  const {
-    txHash,
-    isWritePending,
-    isConfirming,
-    associationId: onchainAssociationId,
-    handleStoreAssociation: handleStoreOnchain,
-  } = onchainStorage
-
-  const {
-    associationId: dbAssociationId,
-    isStoring,
-    handleStoreAssociation: handleStoreDatabase,
-  } = databaseStorage
-
-  // Unified storage handler
-  const handleStoreAssociation = storageMethod === 'onchain' 
-    ? handleStoreOnchain 
-    : handleStoreDatabase
-  
-  const isStorePending = storageMethod === 'onchain' 
-    ? (isWritePending || isConfirming) 
-    : isStoring
-  
-  const associationId = storageMethod === 'onchain' 
-    ? onchainAssociationId 
-    : (dbAssociationId?.toString() ?? null)
+  // Onchain records take precedence, so revocation goes onchain whenever the association was stored there
+  const usesOnchain = storageMethod !== 'database'
 
   // ENS resolution - if it's not a valid address, try to resolve it as an ENS name
-  const isEnsName = !isAddress(approverInput) && approverInput.length > 0
+  // Solana approvers sign with Ed25519 through a Solana wallet
+  const isSolanaApprover = isSolanaAddress(approverInput)
+  const isEnsName = !isAddress(approverInput) && !isSolanaApprover && approverInput.length > 0
   const { data: resolvedAddress, isLoading: isResolvingEns } = useEnsAddress({
     name: isEnsName ? approverInput : undefined,
     chainId: mainnet.id,
   })
 
-  // Onchain revocation (uses Hex association ID)
+  // Onchain revocation (uses Hex association ID, from the storage hook or the selected association)
   const {
     revokeTxHash,
+    isSimulating: isRevokeSimulating,
     isRevokePending,
     isRevokeConfirming,
+    isRevokeConfirmed,
+    isParty: isOnchainParty,
+    revokedBy: onchainRevokedBy,
     handleRevoke: handleOnchainRevoke,
   } = useAssociationRevocation({
-    associationId: onchainAssociationId,
+    associationId: isRevokingExisting ? externalAssociationId : associationId,
+    aar,
     sar,
     setSar,
     setError,
   })
 
   // Compute effective database association ID (from storage hook or external)
-  const effectiveDbAssociationId = isRevokingExisting && externalAssociationId?.startsWith('db-')
-    ? parseInt(externalAssociationId.replace('db-', ''), 10)
-    : dbAssociationId
+  const effectiveDbAssociationId = isRevokingExisting ? externalAssociationId : associationId
 
-  // Database revocation (uses numeric ID, requires signature)
+  // Database revocation (uses the association hash, requires signature)
   const {
     isRevoking: isDbRevoking,
     handleRevoke: handleDatabaseRevoke,
@@ -170,9 +160,36 @@ export function ControlPanel({
     onSuccess: onRevokeComplete,
   })
 
+  // Drafts of associations in progress, resumable after a reload
+  const { drafts, discardDraft } = useAssociationDrafts({
+    aar,
+    sar,
+    flowStep,
+    storageMethod,
+    setSar,
+    setFlowStep,
+    setError,
+  })
+
+  // Fully signed onchain drafts, stored together in one atomic call batch from smart wallets
+  const handleDraftBatchStored = useCallback(() => onStoreComplete?.('onchain'), [onStoreComplete])
+  const draftBatch = useDraftBatchStorage({
+    drafts,
+    discardDraft,
+    setError,
+    onStored: handleDraftBatchStored,
+  })
+
   // The effective approver address (resolved ENS or raw input)
   const effectiveApproverAddress: Address | null = resolvedAddress ?? (isAddress(approverInput) ? approverInput as Address : null)
 
+  // Approver address as displayed (EVM or Solana)
+  const approverDisplayAddress = isSolanaApprover ? approverInput : effectiveApproverAddress
+
+  // Approver is the passkey account registered in this browser (signs via WebAuthn instead of a wallet)
+  const isPasskeyApprover = !!(passkey && effectiveApproverAddress &&
+    effectiveApproverAddress.toLowerCase() === passkey.address.toLowerCase())
+
   // Check if approver matches initiator
   const isSameAsInitiator = !!(initiatorAddress && effectiveApproverAddress && 
     effectiveApproverAddress.toLowerCase() === initiatorAddress.toLowerCase())
@@ -236,6 +253,13 @@ export function ControlPanel({
     }
   }, [flowStep, onStoreComplete, storageMethod])
 
+  // Notify parent when an onchain revocation confirms (to refresh graph)
+  useEffect(() => {
+    if (isRevokeConfirmed && onRevokeComplete) {
+      onRevokeComplete()
+    }
+  }, [isRevokeConfirmed, onRevokeComplete])
+
   // Handle revoke mode trigger from external (Read tab)
   useEffect(() => {
     if (revokeModeTrigger > 0 && revokeSource && revokeAssociationId) {
@@ -253,11 +277,11 @@ export function ControlPanel({
       setError('Initiator address not set')
       return
     }
-    if (!effectiveApproverAddress) {
+    if (!effectiveApproverAddress && !isSolanaApprover) {
       setError(isEnsName ? 'ENS name not found' : 'Invalid address')
       return
     }
-    if (effectiveApproverAddress.toLowerCase() === initiatorAddress.toLowerCase()) {
+    if (effectiveApproverAddress && effectiveApproverAddress.toLowerCase() === initiatorAddress.toLowerCase()) {
       setError('Must be different from initiator')
       return
     }
@@ -297,7 +321,9 @@ export function ControlPanel({
     const now = BigInt(Math.floor(Date.now() / 1000))
     const newAar: AssociatedAccountRecord = {
       initiator: addressToErc7930(initiatorAddress, baseSepolia.id),
-      approver: addressToErc7930(effectiveApproverAddress, baseSepolia.id),
+      approver: effectiveApproverAddress
+        ? addressToErc7930(effectiveApproverAddress, baseSepolia.id)
+        : encodeSolanaAddress(approverInput),
       validAt: now,
       validUntil,
       interfaceId,
@@ -311,8 +337,22 @@ export function ControlPanel({
     setFlowStep('sign-initiator')
   }
 
+  const handleResumeDraft = (draft: AssociationDraft) => {
+    const initiator = decodeInteropAddress(draft.aar.initiator)
+    const approver = decodeInteropAddress(draft.aar.approver)
+    setInitiatorAddress(initiator.chainType === 'eip155' ? initiator.address : null)
+    setApproverInput(approver.address ?? '')
+    setStorageMethod(draft.storageMethod)
+    setAar(draft.aar)
+    setSar(draft.sar)
+    setAwaitingInitiatorConnect(false)
+    setError(null)
+    setFlowStep(draft.flowStep)
+  }
+
   const handleReset = () => {
     handleDisconnect()
+    solanaWallet.handleDisconnect()
     setFlowStep('connect-initiator')
     setApproverInput('')
     setInitiatorAddress(null)
@@ -351,6 +391,42 @@ export function ControlPanel({
     })
   }
 
+  // Drafts to resume, offered until the new association's approver is chosen
+  const draftList = drafts.length > 0 && (
+    <div className="drafts">
+      <p className="hint">Resume a draft</p>
+      <ul className="draft-list">
+        {drafts.map((draft) => (
+          <li key={draft.hash} className="draft-item">
+            <span className="draft-summary">
+              <code>{`${draft.hash.slice(0, 10)}...${draft.hash.slice(-8)}`}</code>
+              <span className="storage-hint">
+                {DRAFT_STEP_LABELS[draft.flowStep] ?? draft.flowStep} • {new Date(draft.updatedAt).toLocaleString()}
+              </span>
+            </span>
+            <button onClick={() => handleResumeDraft(draft)} className="secondary-btn">
+              Resume
+            </button>
+            <button onClick={() => discardDraft(draft.hash)} className="secondary-btn">
+              Discard
+            </button>
+          </li>
+        ))}
+      </ul>
+      {draftBatch.canBatch && (
+        <>
+          <button onClick={draftBatch.handleStoreDrafts} className="primary-btn" disabled={draftBatch.isPending}>
+            {draftBatch.isPending ? 'Storing...' : `Store ${draftBatch.readyDrafts.length} signed drafts in one batch`}
+          </button>
+          <p className="hint">
+            One atomic transaction: every association is stored or none is.
+            {draftBatch.isSponsored && ' Gas is sponsored by the paymaster.'}
+          </p>
+        </>
+      )}
+    </div>
+  )
+
   return (
     <div className="control-panel">
       
@@ -405,6 +481,7 @@ export function ControlPanel({
         {flowStep === 'connect-initiator' && (
           <div className="step-content">
             <p>Connect your Initiator wallet to get started</p>
+            {draftList}
           </div>
         )}
 
@@ -415,7 +492,7 @@ export function ControlPanel({
               type="text"
               value={approverInput}
               onChange={(e) => setApproverInput(e.target.value)}
-              placeholder="0x... or vitalik.eth"
+              placeholder="0x..., vitalik.eth or Solana address"
               className="address-input"
               autoComplete="off"
               data-1p-ignore
@@ -439,6 +516,20 @@ export function ControlPanel({
               </div>
             )}
             
+            {isPasskeySupported && (
+              <button
+                type="button"
+                onClick={async () => {
+                  const account = passkey ?? await handleCreatePasskey()
+                  if (account) setApproverInput(account.address)
+                }}
+                className="secondary-btn"
+                disabled={isCreatingPasskey}
+              >
+                {isCreatingPasskey ? 'Creating Passkey...' : passkey ? 'Use My Passkey Account' : 'Create Passkey Account'}
+              </button>
+            )}
+
             {/* Advanced Options Toggle */}
             <button 
               type="button"
@@ -502,6 +593,7 @@ export function ControlPanel({
             >
               {isResolvingEns ? 'Resolving...' : 'Continue'}
             </button>
+            {draftList}
           </div>
         )}
 
@@ -524,11 +616,55 @@ export function ControlPanel({
             <div className="expected-address">
               <span className="expected-label">Expected address:</span>
               <span className="expected-value">
-                {effectiveApproverAddress?.slice(0, 6)}...{effectiveApproverAddress?.slice(-4)}
+                {approverDisplayAddress?.slice(0, 6)}...{approverDisplayAddress?.slice(-4)}
               </span>
               {isEnsName && <span className="ens-hint">({approverInput})</span>}
+              {isSolanaApprover && <span className="ens-hint">(Solana)</span>}
             </div>
-            {isConnected ? (
+            {isSolanaApprover ? (
+              solanaWallet.isConnected ? (
+                solanaWallet.address === approverInput ? (
+                  <button
+                    onClick={() => { onWriteActivity?.(); handleSignApproverWithSolana(solanaWallet.signMessage); }}
+                    className="primary-btn"
+                    disabled={isProcessing}
+                  >
+                    {isProcessing ? 'Signing...' : `Sign with ${solanaWallet.wallet?.name}`}
+                  </button>
+                ) : (
+                  <>
+                    <p className="hint">Wrong Solana account. Connect the approver address.</p>
+                    <button onClick={solanaWallet.handleDisconnect} className="secondary-btn">
+                      Disconnect {solanaWallet.wallet?.name}
+                    </button>
+                  </>
+                )
+              ) : solanaWallet.wallets.length > 0 ? (
+                solanaWallet.wallets.map((wallet) => (
+                  <button
+                    key={wallet.name}
+                    onClick={() => { onWriteActivity?.(); solanaWallet.handleConnect(wallet); }}
+                    className="primary-btn"
+                    disabled={solanaWallet.isConnecting}
+                  >
+                    {solanaWallet.isConnecting ? 'Connecting...' : `Connect ${wallet.name}`}
+                  </button>
+                ))
+              ) : (
+                <p className="hint">No Solana wallet detected. Install a Wallet Standard compatible wallet such as Phantom.</p>
+              )
+            ) : isPasskeyApprover && passkey ? (
+              <>
+                <p className="hint">The approver is your passkey account. Sign with your passkey instead of a wallet.</p>
+                <button
+                  onClick={() => { onWriteActivity?.(); handleSignApproverWithPasskey(passkey); }}
+                  className="primary-btn"
+                  disabled={isProcessing}
+                >
+                  {isProcessing ? 'Signing...' : 'Sign with Passkey'}
+                </button>
+              </>
+            ) : isConnected ? (
               <>
                 <p className="hint">Disconnect your initiator wallet first, then connect your approver wallet.</p>
                 <button onClick={handleDisconnect} className="secondary-btn">
@@ -540,6 +676,7 @@ export function ControlPanel({
                 Connect Approver Wallet
               </button>
             )}
+            {!isSolanaApprover && !isPasskeyApprover && <SigningRequestShare sar={sar} setError={setError} />}
           </div>
         )}
 
@@ -557,62 +694,12 @@ export function ControlPanel({
         )}
 
         {flowStep === 'store-association' && (
-          <div className="step-content">
-            <p>Store the association</p>
-            
-            {/* Storage Method Selector */}
-            <div className="storage-selector">
-              <label className="storage-option">
-                <input
-                  type="radio"
-                  name="storageMethod"
-                  value="onchain"
-                  checked={storageMethod === 'onchain'}
-                  onChange={() => setStorageMethod('onchain')}
-                />
-                <span className="storage-label">
-                  <strong>Onchain</strong>
-                  <span className="storage-hint">Base Sepolia • Gas fees apply</span>
-                </span>
-              </label>
-              <label className="storage-option">
-                <input
-                  type="radio"
-                  name="storageMethod"
-                  value="database"
-                  checked={storageMethod === 'database'}
-                  onChange={() => setStorageMethod('database')}
-                />
-                <span className="storage-label">
-                  <strong>Database</strong>
-                  <span className="storage-hint">Centralized • No gas fees</span>
-                </span>
-              </label>
-            </div>
-
-            <button 
-              onClick={() => { onWriteActivity?.(); handleStoreAssociation(); }} 
-              className="primary-btn"
-              disabled={isStorePending}
-            >
-              {storageMethod === 'onchain' 
-                ? (isWritePending ? 'Confirm in Wallet...' : isConfirming ? 'Storing...' : 'Store Onchain')
-                : (isStoring ? 'Storing...' : 'Store in Database')
-              }
-            </button>
-            {storageMethod === 'onchain' && txHash && (
-              <div className="tx-status">
-                <a 
-                  href={`https://sepolia.basescan.org/tx/${txHash}`}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="tx-link"
-                >
-                  View on BaseScan ↗
-                </a>
-              </div>
-            )}
-          </div>
+          <StorageStep
+            storageMethod={storageMethod}
+            setStorageMethod={setStorageMethod}
+            storage={storage}
+            onStore={() => { onWriteActivity?.(); handleStoreAssociation(); }}
+          />
         )}
 
         {flowStep === 'complete' && (
@@ -622,30 +709,30 @@ export function ControlPanel({
               <div className="association-id">
                 <span className="id-label">ID:</span>
                 <code className="id-value">
-                  {storageMethod === 'onchain' 
-                    ? `${associationId.slice(0, 10)}...${associationId.slice(-8)}`
-                    : associationId
-                  }
+                  {`${associationId.slice(0, 10)}...${associationId.slice(-8)}`}
                 </code>
-                <span className="storage-badge">{storageMethod === 'onchain' ? 'Onchain' : 'Database'}</span>
+                <span className="storage-badge">{storageLegs.map((leg) => STORAGE_LEG_LABELS[leg]).join(' + ')}</span>
               </div>
             )}
+            {storageMethod === 'both' && (
+              <p className="hint">The database copy is superseded by the onchain record once the transaction confirms.</p>
+            )}
             {sar.revokedAt === 0n ? (
               <>
                 <button 
-                  onClick={() => storageMethod === 'onchain' ? handleOnchainRevoke() : handleDatabaseRevoke()} 
+                  onClick={() => usesOnchain ? handleOnchainRevoke() : handleDatabaseRevoke()} 
                   className="danger-btn"
-                  disabled={storageMethod === 'onchain' 
-                    ? (isRevokePending || isRevokeConfirming) 
+                  disabled={usesOnchain 
+                    ? (isRevokeSimulating || isRevokePending || isRevokeConfirming) 
                     : isDbRevoking
                   }
                 >
-                  {storageMethod === 'onchain' 
-                    ? (isRevokePending ? 'Confirm in Wallet...' : isRevokeConfirming ? 'Revoking...' : 'Revoke Association')
+                  {usesOnchain 
+                    ? (isRevokeSimulating ? 'Simulating...' : isRevokePending ? 'Confirm in Wallet...' : isRevokeConfirming ? 'Revoking...' : 'Revoke Association')
                     : (isDbRevoking ? 'Sign & Revoke...' : 'Revoke Association')
                   }
                 </button>
-                {storageMethod === 'onchain' && revokeTxHash && (
+                {usesOnchain && revokeTxHash && (
                   <div className="tx-status">
                     <a 
                       href={`https://sepolia.basescan.org/tx/${revokeTxHash}`}
@@ -659,7 +746,15 @@ export function ControlPanel({
                 )}
               </>
             ) : (
-              <p className="revoked">Association has been revoked</p>
+              <>
+                <p className="revoked">Association has been revoked</p>
+                {usesOnchain && onchainRevokedBy && (
+                  <p className="info-text">
+                    Revoked at {new Date(Number(sar.revokedAt) * 1000).toLocaleString()} by{' '}
+                    <code>{`${onchainRevokedBy.slice(0, 10)}...${onchainRevokedBy.slice(-8)}`}</code>
+                  </p>
+                )}
+              </>
             )}
           </div>
         )}
@@ -669,15 +764,55 @@ export function ControlPanel({
             <p>Revoke an existing association</p>
             
             {storageMethod === 'onchain' ? (
-              <div className="revoke-info">
-                <p className="warning-text">
-                  Onchain revocation from the Read tab is not yet supported. 
-                  Please use the normal flow to revoke onchain associations.
-                </p>
-                <button onClick={handleReset} className="secondary-btn">
-                  Start New Flow
-                </button>
-              </div>
+              <>
+                <div className="revoke-info">
+                  <p className="info-text">
+                    You&apos;re about to revoke an onchain association. 
+                    This sends a transaction from the initiator or approver wallet on Base Sepolia.
+                  </p>
+                </div>
+
+                {!isConnected ? (
+                  <button onClick={handleConnect} className="primary-btn">
+                    Connect Wallet
+                  </button>
+                ) : sar.revokedAt > 0n ? (
+                  <>
+                    <p className="revoked">Association has been revoked</p>
+                    {onchainRevokedBy && (
+                      <p className="info-text">
+                        Revoked at {new Date(Number(sar.revokedAt) * 1000).toLocaleString()} by{' '}
+                        <code>{`${onchainRevokedBy.slice(0, 10)}...${onchainRevokedBy.slice(-8)}`}</code>
+                      </p>
+                    )}
+                  </>
+                ) : !isOnchainParty ? (
+                  <p className="warning-text">
+                    The connected wallet is not the initiator or approver of this association. 
+                    Connect one of their wallets to revoke it.
+                  </p>
+                ) : (
+                  <button 
+                    onClick={() => handleOnchainRevoke()} 
+                    className="danger-btn"
+                    disabled={isRevokeSimulating || isRevokePending || isRevokeConfirming}
+                  >
+                    {isRevokeSimulating ? 'Simulating...' : isRevokePending ? 'Confirm in Wallet...' : isRevokeConfirming ? 'Revoking...' : 'Revoke Association'}
+                  </button>
+                )}
+                {revokeTxHash && (
+                  <div className="tx-status">
+                    <a 
+                      href={`https://sepolia.basescan.org/tx/${revokeTxHash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="tx-link"
+                    >
+                      View on BaseScan ↗
+                    </a>
+                  </div>
+                )}
+              </>
             ) : (
               <>
                 <div className="revoke-info">
@@ -725,6 +860,13 @@ export function ControlPanel({
   )
 }
 
+const DRAFT_STEP_LABELS: Partial<Record<FlowStep, string>> = {
+  'sign-initiator': 'Awaiting initiator signature',
+  'connect-approver': 'Initiator signed',
+  'sign-approver': 'Awaiting approver signature',
+  'store-association': 'Signed, not stored',
+}
+
 function getStepNumber(step: FlowStep): number {
   // revoke-existing is a special flow, return a distinct number
   if (step === 'revoke-existing') return 0
@@ -1,12 +1,13 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { hashTypedData } from 'viem'
+import { type Hex, hashTypedData } from 'viem'
 import { ControlPanel } from './ControlPanel'
 import { 
   type FlowStep, 
   type AssociatedAccountRecord, 
   type SignedAssociationRecord,
+  type StorageStrategy,
   createEmptyAAR,
   createEmptySAR 
 } from '@/lib/types'
@@ -24,7 +25,7 @@ interface DemoProps {
   /** Callback when user takes a write action (to switch tabs) */
   onWriteActivity?: () => void
   /** Callback when association is stored (to refresh graph) */
-  onStoreComplete?: (storageMethod: 'onchain' | 'database') => void
+  onStoreComplete?: (storageMethod: StorageStrategy) => void
   /** Callback when association is revoked (to refresh graph) */
   onRevokeComplete?: () => void
   /** Trigger to start revoke mode (increment to activate) */
@@ -32,7 +33,7 @@ interface DemoProps {
   /** Source of the association to revoke */
   revokeSource?: 'onchain' | 'offchain' | null
   /** ID of the association to revoke */
-  revokeAssociationId?: string | null
+  revokeAssociationId?: Hex | null
 }
 
 export function Demo({ 
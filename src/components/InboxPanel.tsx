@@ -0,0 +1,85 @@
+'use client'
+
+import { useState } from 'react'
+import type { Hex } from 'viem'
+import type { DbPendingAssociation } from '@/lib/store'
+import { pendingRowToRecords } from '@/lib/store/rows'
+import { buildSigningRequestUrl } from '@/lib/signingRequest'
+import { useApproverInbox } from '@/hooks'
+
+interface InboxPanelProps {
+  /** Increment to refetch */
+  refreshTrigger?: number
+}
+
+const shorten = (value: string) => `${value.slice(0, 6)}...${value.slice(-4)}`
+
+const formatExpiry = (row: DbPendingAssociation) =>
+  new Date(Number(row.expires_at) * 1000).toLocaleString()
+
+/**
+ * Pending associations of the connected wallet, stored offchain until the approver
+ * countersigns (on the approve page) or rejects them.
+ */
+export function InboxPanel({ refreshTrigger }: InboxPanelProps) {
+  const [error, setError] = useState<string | null>(null)
+  const { incoming, outgoing, rejectingHash, refresh, handleReject } = useApproverInbox({ setError, refreshTrigger })
+
+  if (incoming.length === 0 && outgoing.length === 0) return null
+
+  return (
+    <div className="inbox-panel">
+      <div className="inbox-header">
+        <h3>Inbox</h3>
+        <button onClick={refresh} className="secondary-btn">Refresh</button>
+      </div>
+
+      {incoming.length > 0 && (
+        <ul className="inbox-list">
+          {incoming.map((row) => (
+            <li key={row.hash} className="inbox-item">
+              <div className="inbox-summary">
+                <span>From {shorten(row.initiator_address)}</span>
+                <span className="hint">Expires {formatExpiry(row)}</span>
+              </div>
+              <a
+                href={buildSigningRequestUrl(window.location.origin, pendingRowToRecords(row).sar)}
+                className="primary-btn"
+              >
+                Review
+              </a>
+              <button
+                onClick={() => handleReject(row.hash as Hex)}
+                className="danger-btn"
+                disabled={rejectingHash !== null}
+              >
+                {rejectingHash === row.hash ? 'Rejecting...' : 'Reject'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {outgoing.length > 0 && (
+        <ul className="inbox-list">
+          {outgoing.map((row) => (
+            <li key={row.hash} className={`inbox-item ${row.status}`}>
+              <div className="inbox-summary">
+                <span>To {shorten(row.approver_address)}</span>
+                <span className="hint">
+                  {row.status === 'rejected' ? 'Rejected by the approver' : `Awaiting approval until ${formatExpiry(row)}`}
+                </span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <div className="error-message">
+          {error}
+        </div>
+      )}
+    </div>
+  )
+}
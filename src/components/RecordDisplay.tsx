@@ -2,14 +2,18 @@
 
 import { useState } from 'react'
 import type { AssociatedAccountRecord, SignedAssociationRecord } from '@/lib/types'
+import type { ValidationResult } from '@/lib/validation'
 import { aarToJson, sarToJson, copyToClipboard } from '@/lib/serialize'
+import { ValidationChecklist } from './ValidationChecklist'
 
 interface RecordDisplayProps {
   aar: AssociatedAccountRecord
   sar: SignedAssociationRecord
+  /** Validation report for the record, shown as a checklist when present */
+  validation?: ValidationResult
 }
 
-export function RecordDisplay({ aar, sar }: RecordDisplayProps) {
+export function RecordDisplay({ aar, sar, validation }: RecordDisplayProps) {
   const [copiedStruct, setCopiedStruct] = useState<'aar' | 'sar' | null>(null)
 
   const isAarActive = aar.initiator !== '0x'
@@ -149,6 +153,21 @@ export function RecordDisplay({ aar, sar }: RecordDisplayProps) {
           </div>
         </div>
       </div>
+
+      {/* ERC-8092 validation report */}
+      {validation && (
+        <div className="record-section validation-section">
+          <div className="record-header">
+            <h2>Validation</h2>
+            <span className={`validation-status ${validation.valid ? 'valid' : 'invalid'}`}>
+              {validation.valid ? 'Valid' : 'Invalid'}
+            </span>
+          </div>
+          <div className="record-card">
+            <ValidationChecklist checks={validation.checks} />
+          </div>
+        </div>
+      )}
     </div>
   )
 }
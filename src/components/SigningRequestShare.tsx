@@ -0,0 +1,74 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import QRCode from 'qrcode'
+import type { SignedAssociationRecord } from '@/lib/types'
+import { buildSigningRequestUrl } from '@/lib/signingRequest'
+import { copyToClipboard } from '@/lib/serialize'
+import { usePendingRequest } from '@/hooks'
+
+interface SigningRequestShareProps {
+  /** SAR signed by the initiator */
+  sar: SignedAssociationRecord
+  setError: (error: string | null) => void
+}
+
+/**
+ * Link and QR code that open the half-signed association on the approver's device,
+ * or a request sent to the approver's inbox in the offchain store.
+ */
+export function SigningRequestShare({ sar, setError }: SigningRequestShareProps) {
+  const [url, setUrl] = useState<string | null>(null)
+  const [qrCode, setQrCode] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+  const { isSending, isSent, expiresAt, handleSendRequest } = usePendingRequest({ sar, setError })
+
+  // The link uses the current origin, so it is built on the client
+  useEffect(() => {
+    const requestUrl = buildSigningRequestUrl(window.location.origin, sar)
+    setUrl(requestUrl)
+    let cancelled = false
+    setQrCode(null)
+    // Long initiator signatures (ERC-6492 wrappers, WebAuthn assertions) can exceed a QR code's capacity
+    QRCode.toDataURL(requestUrl, { errorCorrectionLevel: 'L', margin: 1, width: 220 })
+      .then((dataUrl) => { if (!cancelled) setQrCode(dataUrl) })
+      .catch((err) => {
+        if (cancelled) return
+        console.error('[SigningRequestShare] QR code failed:', err)
+        setError('The signing request is too large for a QR code. Share the approval link instead.')
+      })
+    return () => { cancelled = true }
+  }, [sar, setError])
+
+  const handleCopy = async () => {
+    if (!url) return
+    if (await copyToClipboard(url)) {
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    }
+  }
+
+  if (!url) return null
+
+  return (
+    <div className="signing-request">
+      <p className="hint">Or approve on another device: scan the code, share the link, or send the request to the approver&apos;s inbox.</p>
+      {qrCode && (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={qrCode} alt="Signing request QR code" className="signing-request-qr" />
+      )}
+      <button onClick={handleCopy} className="secondary-btn">
+        {copied ? 'Link copied' : 'Copy approval link'}
+      </button>
+      {isSent && expiresAt !== null ? (
+        <p className="hint">
+          Sent to the approver&apos;s inbox until {new Date(Number(expiresAt) * 1000).toLocaleString()}
+        </p>
+      ) : (
+        <button onClick={handleSendRequest} className="secondary-btn" disabled={isSending}>
+          {isSending ? 'Sending...' : 'Send to approver inbox'}
+        </button>
+      )}
+    </div>
+  )
+}
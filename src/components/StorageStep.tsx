@@ -0,0 +1,118 @@
+'use client'
+
+import { formatEther, formatGwei } from 'viem'
+import { type StorageStrategy, STORAGE_LEG_LABELS, STORAGE_STATUS_LABELS } from '@/lib/types'
+import type { useStorageStrategy } from '@/hooks'
+
+interface StorageStepProps {
+  storageMethod: StorageStrategy
+  setStorageMethod: (method: StorageStrategy) => void
+  /** State of the selected strategy */
+  storage: ReturnType<typeof useStorageStrategy>
+  onStore: () => void
+}
+
+const STORAGE_OPTIONS: { value: StorageStrategy; label: string; hint: string }[] = [
+  { value: 'onchain', label: 'Onchain', hint: 'Base Sepolia • Gas fees apply' },
+  { value: 'database', label: 'Database', hint: 'Centralized • No gas fees' },
+  { value: 'both', label: 'Both', hint: 'Database now • Onchain record takes precedence' },
+]
+
+/**
+ * Store step of the association flow: the storage method, the fee estimate or
+ * simulation failure for onchain storage, and the progress of each leg.
+ */
+export function StorageStep({ storageMethod, setStorageMethod, storage, onStore }: StorageStepProps) {
+  const {
+    legs,
+    status,
+    txHash,
+    estimate,
+    simulationError,
+    isSimulating,
+    isWritePending,
+    isConfirming,
+    callsId,
+    callsStatus,
+    isSponsored,
+    isStoring,
+    isPending,
+  } = storage
+  const usesOnchain = storageMethod !== 'database'
+
+  return (
+    <div className="step-content">
+      <p>Store the association</p>
+
+      <div className="storage-selector">
+        {STORAGE_OPTIONS.map(({ value, label, hint }) => (
+          <label key={value} className="storage-option">
+            <input
+              type="radio"
+              name="storageMethod"
+              value={value}
+              checked={storageMethod === value}
+              onChange={() => setStorageMethod(value)}
+            />
+            <span className="storage-label">
+              <strong>{label}</strong>
+              <span className="storage-hint">{hint}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {usesOnchain && (
+        simulationError ? (
+          <p className="warning-text">Simulation failed: {simulationError}</p>
+        ) : isSponsored ? (
+          <p className="hint">Gas is sponsored by the paymaster</p>
+        ) : estimate ? (
+          <p className="hint">
+            Estimated fee: up to {formatEther(estimate.fee)} ETH
+            ({estimate.gas.toString()} gas at {formatGwei(estimate.maxFeePerGas)} gwei)
+          </p>
+        ) : isSimulating ? (
+          <p className="hint">Estimating fee...</p>
+        ) : null
+      )}
+
+      <button onClick={onStore} className="primary-btn" disabled={isPending}>
+        {storageMethod === 'onchain'
+          ? (isSimulating ? 'Simulating...' : isWritePending ? 'Confirm in Wallet...' : isConfirming ? 'Storing...' : 'Store Onchain')
+          : storageMethod === 'database'
+            ? (isStoring ? 'Storing...' : 'Store in Database')
+            : (isPending ? 'Storing...' : legs.some((leg) => status[leg] !== 'idle') ? 'Retry Remaining' : 'Store in Database & Onchain')
+        }
+      </button>
+      {legs.length > 1 && (
+        <ul className="storage-legs">
+          {legs.map((leg) => (
+            <li key={leg} className={`storage-leg ${status[leg]}`}>
+              <span>{STORAGE_LEG_LABELS[leg]}</span>
+              <span>{STORAGE_STATUS_LABELS[status[leg]]}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {usesOnchain && callsId && (
+        <p className="hint">
+          Wallet batch {`${callsId.slice(0, 10)}...`}:{' '}
+          {callsStatus === 'success' ? 'confirmed' : callsStatus === 'failure' ? 'failed' : 'pending'}
+        </p>
+      )}
+      {usesOnchain && txHash && (
+        <div className="tx-status">
+          <a
+            href={`https://sepolia.basescan.org/tx/${txHash}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="tx-link"
+          >
+            View on BaseScan ↗
+          </a>
+        </div>
+      )}
+    </div>
+  )
+}
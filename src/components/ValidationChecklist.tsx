@@ -0,0 +1,47 @@
+'use client'
+
+import type { ValidationCheck, ValidationStep } from '@/lib/validation'
+import { formatKeyType } from '@/lib/keyTypes'
+
+interface ValidationChecklistProps {
+  checks: ValidationCheck[]
+  /** Hide key type and verifier details (for tooltips) */
+  compact?: boolean
+}
+
+const STEP_LABELS: Record<ValidationStep, string> = {
+  validAt: 'validAt',
+  validUntil: 'validUntil',
+  revokedAt: 'revokedAt',
+  initiatorSignature: 'initiator signature',
+  approverSignature: 'approver signature',
+}
+
+const STATUS_ICONS = {
+  pass: '✓',
+  fail: '✕',
+  skip: '–',
+} as const
+
+/**
+ * Render the per-step ERC-8092 validation report as a checklist.
+ */
+export function ValidationChecklist({ checks, compact }: ValidationChecklistProps) {
+  return (
+    <ul className={`validation-checklist ${compact ? 'compact' : ''}`}>
+      {checks.map((check) => (
+        <li key={check.step} className={`validation-check ${check.status}`} title={check.code}>
+          <span className="check-icon">{STATUS_ICONS[check.status]}</span>
+          <span className="check-label">{STEP_LABELS[check.step]}</span>
+          <span className="check-message">{check.message}</span>
+          {!compact && check.keyType !== undefined && (
+            <span className="check-verifier">
+              {formatKeyType(check.keyType)}
+              {check.verifier && ` ${check.verifier.name} · ${check.verifier.method}`}
+            </span>
+          )}
+        </li>
+      ))}
+    </ul>
+  )
+}
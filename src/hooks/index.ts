@@ -3,5 +3,14 @@ export { useAssociationSigning } from './useAssociationSigning'
 export { useAssociationStorage } from './useAssociationStorage'
 export { useAssociationRevocation } from './useAssociationRevocation'
 export { useDatabaseStorage } from './useDatabaseStorage'
+export { useStorageStrategy } from './useStorageStrategy'
 export { useDatabaseRevocation } from './useDatabaseRevocation'
 export { useSmartWallet } from './useSmartWallet'
+export { useWalletCalls } from './useWalletCalls'
+export { usePasskey } from './usePasskey'
+export { useSolanaWallet } from './useSolanaWallet'
+export { useAssociationDrafts } from './useAssociationDrafts'
+export { useRevocationSigner } from './useRevocationSigner'
+export { usePendingRequest } from './usePendingRequest'
+export { useApproverInbox } from './useApproverInbox'
+export { useDraftBatchStorage } from './useDraftBatchStorage'
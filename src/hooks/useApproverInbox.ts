@@ -0,0 +1,109 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import type { Hex } from 'viem'
+import type { DbPendingAssociation } from '@/lib/store'
+import { createPendingRejection, serializePendingRejection } from '@/lib/revocation'
+import { useRevocationSigner } from './useRevocationSigner'
+
+interface UseApproverInboxProps {
+  setError: (error: string | null) => void
+  /** Increment to refetch */
+  refreshTrigger?: number
+}
+
+/**
+ * Pending associations of the connected wallet: requests awaiting its approval
+ * (incoming) and requests it sent as the initiator (outgoing).
+ */
+export function useApproverInbox({ setError, refreshTrigger = 0 }: UseApproverInboxProps) {
+  const { address, signRejection } = useRevocationSigner()
+  const [pending, setPending] = useState<DbPendingAssociation[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [rejectingHash, setRejectingHash] = useState<Hex | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (!address) {
+      setPending([])
+      return
+    }
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/associations/pending?address=${address}`)
+      const result = await response.json()
+      if (result.success) {
+        setPending(result.pending)
+      }
+    } catch (err) {
+      console.error('[useApproverInbox] Failed to fetch pending associations:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [address])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh, refreshTrigger])
+
+  const account = address?.toLowerCase()
+  const incoming = pending.filter((row) => row.approver_address === account && row.status === 'pending')
+  const outgoing = pending.filter((row) => row.initiator_address === account)
+
+  /**
+   * Reject an incoming request by signing a PendingRejection for its hash.
+   */
+  const handleReject = async (hash: Hex) => {
+    if (!address) {
+      setError('Wallet not connected')
+      return
+    }
+
+    setError(null)
+    setRejectingHash(hash)
+
+    try {
+      const rejection = createPendingRejection(hash)
+      const { signature, keyType } = await signRejection(rejection)
+
+      const response = await fetch('/api/associations/pending', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          request: serializePendingRejection(rejection),
+          signature,
+          signer: address,
+          keyType,
+        }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to reject the request')
+      }
+
+      setPending((prev) => prev.map((row) => row.hash === result.pending.hash ? result.pending : row))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      if (message.toLowerCase().includes('user rejected') ||
+          message.toLowerCase().includes('user denied')) {
+        setError('User rejected the signature request')
+      } else {
+        setError(message)
+      }
+    } finally {
+      setRejectingHash(null)
+    }
+  }
+
+  return {
+    incoming,
+    outgoing,
+    isLoading,
+    rejectingHash,
+    refresh,
+    handleReject,
+  }
+}
@@ -0,0 +1,97 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { Hex } from 'viem'
+import type { AssociatedAccountRecord, SignedAssociationRecord, FlowStep, StorageStrategy } from '@/lib/types'
+import { hashAssociation } from '@/lib/eip712'
+import {
+  DRAFT_STEPS,
+  deleteDraft,
+  invalidateStaleSignatures,
+  loadDrafts,
+  saveDraft,
+  type AssociationDraft,
+} from '@/lib/drafts'
+
+// Steps after the initiator signed, which need the signatures of the current AAR
+const SIGNED_STEPS: readonly FlowStep[] = ['connect-approver', 'sign-approver', 'store-association']
+
+interface UseAssociationDraftsProps {
+  aar: AssociatedAccountRecord
+  sar: SignedAssociationRecord
+  flowStep: FlowStep
+  storageMethod: StorageStrategy
+  setSar: (sar: SignedAssociationRecord) => void
+  setFlowStep: (step: FlowStep) => void
+  setError: (error: string | null) => void
+}
+
+/**
+ * Persist the association in progress as a draft and list drafts to resume.
+ * Signatures over a previous version of the AAR are cleared when it is edited.
+ */
+export function useAssociationDrafts({
+  aar,
+  sar,
+  flowStep,
+  storageMethod,
+  setSar,
+  setFlowStep,
+  setError,
+}: UseAssociationDraftsProps) {
+  const [drafts, setDrafts] = useState<AssociationDraft[]>([])
+  // Hash the current draft was saved under, to move it when the AAR changes
+  const savedHash = useRef<Hex | null>(null)
+
+  // Load drafts on mount, dropping expired ones
+  useEffect(() => {
+    setDrafts(loadDrafts(localStorage))
+  }, [])
+
+  // Invalidate signatures made over a previous version of the AAR
+  useEffect(() => {
+    const checked = invalidateStaleSignatures(aar, sar)
+    if (checked === sar) return
+    setSar(checked)
+    if (SIGNED_STEPS.includes(flowStep)) {
+      setFlowStep('sign-initiator')
+    }
+    setError('The association was edited, so its signatures were cleared. Sign it again.')
+  }, [aar, sar, flowStep, setSar, setFlowStep, setError])
+
+  // Save the association in progress; drop its draft once stored
+  useEffect(() => {
+    if (aar.initiator === '0x') return
+    const hash = hashAssociation(aar)
+    if (flowStep === 'complete') {
+      deleteDraft(localStorage, hash)
+      savedHash.current = null
+      return
+    }
+    if (!DRAFT_STEPS.includes(flowStep)) return
+    // An edited AAR has a new hash; its draft replaces the old one
+    if (savedHash.current && savedHash.current !== hash) {
+      deleteDraft(localStorage, savedHash.current)
+    }
+    saveDraft(localStorage, { hash, aar, sar, flowStep, storageMethod, updatedAt: Date.now() })
+    savedHash.current = hash
+  }, [aar, sar, flowStep, storageMethod])
+
+  // Forget which draft is being edited once the flow is reset
+  useEffect(() => {
+    if (flowStep === 'connect-initiator') {
+      savedHash.current = null
+      setDrafts(loadDrafts(localStorage))
+    }
+  }, [flowStep])
+
+  const discardDraft = useCallback((hash: Hex) => {
+    deleteDraft(localStorage, hash)
+    setDrafts((prev) => prev.filter((draft) => draft.hash !== hash))
+  }, [])
+
+  return {
+    drafts,
+    discardDraft,
+  }
+}
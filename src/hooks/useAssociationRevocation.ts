@@ -1,13 +1,21 @@
 'use client'
 
-import { useEffect } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import { type Hex } from 'viem'
-import { useWriteContract, useWaitForTransactionReceipt } from 'wagmi'
-import type { SignedAssociationRecord } from '@/lib/types'
-import { ASSOCIATIONS_STORE_ADDRESS, associationsStoreAbi } from '@/lib/contracts'
+import { useAccount, usePublicClient, useWriteContract, useWaitForTransactionReceipt } from 'wagmi'
+import { baseSepolia } from 'wagmi/chains'
+import type { AssociatedAccountRecord, SignedAssociationRecord } from '@/lib/types'
+import { ASSOCIATIONS_STORE_ADDRESS } from '@/lib/contracts'
+import { revokeAssociationCall } from '@/lib/associationCalls'
+import { findAssociationRevoked } from '@/lib/contractEvents'
+import { describeContractError } from '@/lib/contractErrors'
+import { isInteropEvmAccount } from '@/lib/erc7930'
+import { useWalletCalls } from './useWalletCalls'
 
 interface UseAssociationRevocationProps {
+  /** EIP-712 hash of the association, created in this session or selected in the graph */
   associationId: Hex | null
+  aar: AssociatedAccountRecord
   sar: SignedAssociationRecord
   setSar: (sar: SignedAssociationRecord) => void
   setError: (error: string | null) => void
@@ -15,63 +23,133 @@ interface UseAssociationRevocationProps {
 
 export function useAssociationRevocation({
   associationId,
+  aar,
   sar,
   setSar,
   setError,
 }: UseAssociationRevocationProps) {
+  const { address } = useAccount()
+  const publicClient = usePublicClient({ chainId: baseSepolia.id })
   const { writeContract, data: txHash, isPending: isRevokePending, error: revokeError } = useWriteContract()
-  const { isLoading: isRevokeConfirming, isSuccess: isRevokeConfirmed } = useWaitForTransactionReceipt({ hash: txHash })
+  const {
+    data: receipt,
+    isLoading: isRevokeConfirming,
+    isSuccess: isRevokeConfirmed,
+  } = useWaitForTransactionReceipt({ hash: txHash })
+  // Smart wallets send an EIP-5792 call batch instead of a transaction
+  const walletCalls = useWalletCalls()
+  const { callsId, callsStatus, receipts: callsReceipts, error: callsError } = walletCalls
+  const [isSimulating, setIsSimulating] = useState(false)
+  /** keccak256 of the revoking party's ERC-7930 address, from the AssociationRevoked event */
+  const [revokedBy, setRevokedBy] = useState<Hex | null>(null)
+  // Transaction hash or batch ID whose event has been applied, so the effect runs once per revocation
+  const [appliedConfirmation, setAppliedConfirmation] = useState<string | null>(null)
 
-  // Handle revocation confirmation - update local state
+  // The contract only lets the initiator or approver (as ERC-7930 addresses on this chain) revoke
+  const isParty = !!address && (
+    isInteropEvmAccount(aar.initiator, address, baseSepolia.id) ||
+    isInteropEvmAccount(aar.approver, address, baseSepolia.id)
+  )
+
+  // The confirmed transaction or call batch, keyed so its event is applied once
+  const confirmed = useMemo(() => {
+    if (receipt) return { key: receipt.transactionHash as string, logs: receipt.logs }
+    if (callsId && callsStatus === 'success') {
+      return { key: callsId, logs: callsReceipts.flatMap((callsReceipt) => callsReceipt.logs) }
+    }
+    return null
+  }, [receipt, callsId, callsStatus, callsReceipts])
+
+  // Handle revocation confirmation - take revokedAt/revokedBy from the AssociationRevoked event,
+  // since the contract revokes at max(block.timestamp, requested revokedAt)
   useEffect(() => {
-    if (isRevokeConfirmed) {
-      const now = BigInt(Math.floor(Date.now() / 1000))
-      setSar({
-        ...sar,
-        revokedAt: now,
-      })
+    if (!confirmed || !associationId || appliedConfirmation === confirmed.key) return
+    setAppliedConfirmation(confirmed.key)
+
+    const event = findAssociationRevoked(confirmed.logs, ASSOCIATIONS_STORE_ADDRESS, associationId)
+    if (!event) {
+      setError('Revocation confirmed, but the transaction did not emit AssociationRevoked')
+      return
     }
-  }, [isRevokeConfirmed, sar, setSar])
+    setRevokedBy(event.revokedBy)
+    setSar({
+      ...sar,
+      revokedAt: event.revokedAt,
+    })
+  }, [confirmed, associationId, appliedConfirmation, sar, setSar, setError])
 
   // Handle revoke errors
   useEffect(() => {
     if (revokeError) {
-      const msg = revokeError.message.toLowerCase()
-      if (msg.includes('user rejected') || msg.includes('user denied') || msg.includes('rejected the request')) {
-        setError('User rejected the transaction')
-      } else {
-        const shortMsg = revokeError.message.length > 100 
-          ? revokeError.message.slice(0, 100) + '...'
-          : revokeError.message
-        setError(shortMsg)
-      }
+      setError(describeContractError(revokeError))
     }
   }, [revokeError, setError])
 
-  const handleRevoke = (revokedAt?: number) => {
+  // Handle call batch errors, including batches that reverted onchain
+  useEffect(() => {
+    if (callsError) {
+      setError(describeContractError(callsError))
+    } else if (callsStatus === 'failure') {
+      setError('The wallet call batch failed onchain')
+    }
+  }, [callsError, callsStatus, setError])
+
+  const handleRevoke = async (revokedAt?: number) => {
     if (!associationId) {
       setError('No association ID available. Store the association first.')
       return
     }
 
+    if (!address) {
+      setError('Wallet not connected')
+      return
+    }
+
+    if (!isParty) {
+      setError('The connected wallet is not the initiator or approver of this association on Base Sepolia.')
+      return
+    }
+
     setError(null)
-    
+    setRevokedBy(null)
+
     // Use provided timestamp or 0 for immediate revocation
     const effectiveRevokedAt = revokedAt ?? 0
+    const request = revokeAssociationCall(associationId, effectiveRevokedAt)
 
-    writeContract({
-      address: ASSOCIATIONS_STORE_ADDRESS,
-      abi: associationsStoreAbi,
-      functionName: 'revokeAssociation',
-      args: [associationId, effectiveRevokedAt],
-    })
+    // Simulate first so contract errors surface before the wallet prompt
+    if (publicClient) {
+      setIsSimulating(true)
+      try {
+        await publicClient.simulateContract({ ...request, account: address })
+      } catch (err) {
+        setError(describeContractError(err))
+        return
+      } finally {
+        setIsSimulating(false)
+      }
+    }
+
+    if (walletCalls.shouldUseCalls) {
+      try {
+        await walletCalls.sendCalls([{ type: 'revoke', associationId, revokedAt: effectiveRevokedAt }])
+      } catch (err) {
+        setError(describeContractError(err))
+      }
+      return
+    }
+
+    writeContract(request)
   }
 
   return {
-    revokeTxHash: txHash,
-    isRevokePending,
-    isRevokeConfirming,
-    isRevokeConfirmed,
+    revokeTxHash: txHash ?? walletCalls.callsTxHash ?? undefined,
+    isSimulating,
+    isRevokePending: isRevokePending || walletCalls.isSending,
+    isRevokeConfirming: isRevokeConfirming || callsStatus === 'pending',
+    isRevokeConfirmed: isRevokeConfirmed || callsStatus === 'success',
+    isParty,
+    revokedBy,
     handleRevoke,
   }
 }
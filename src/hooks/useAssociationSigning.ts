@@ -3,12 +3,12 @@
 import { useState } from 'react'
 import { useSignTypedData, useDisconnect, useAccount, usePublicClient, useSwitchChain } from 'wagmi'
 import { baseSepolia } from 'wagmi/chains'
-import type { Hex } from 'viem'
+import { type Hex, bytesToHex, hexToBytes } from 'viem'
 import type { AssociatedAccountRecord, SignedAssociationRecord, FlowStep } from '@/lib/types'
 import { KEY_TYPES } from '@/lib/types'
-import { EIP712_DOMAIN, ASSOCIATED_ACCOUNT_RECORD_TYPES } from '@/lib/eip712'
-import { isSmartContract } from '@/lib/erc1271'
-import { isErc6492Signature } from '@/lib/erc6492'
+import { EIP712_DOMAIN, ASSOCIATED_ACCOUNT_RECORD_TYPES, hashAssociation } from '@/lib/eip712'
+import { detectEvmKeyType } from '@/lib/keyTypes'
+import { signWithPasskey, type PasskeyCredential } from '@/lib/webauthn'
 import { useSmartWallet } from './useSmartWallet'
 
 interface UseAssociationSigningProps {
@@ -157,28 +157,8 @@ export function useAssociationSigning({
    * 
    * @param signature - The signature to analyze
    */
-  const getKeyTypeForSignature = async (signature?: Hex): Promise<number> => {
-    // 1. Check if signature has ERC-6492 magic suffix
-    // This is definitive - only ERC-6492 wrapped signatures have this suffix
-    if (signature && isErc6492Signature(signature)) {
-      return KEY_TYPES.ERC6492
-    }
-
-    // 2. Check if address has bytecode (is a deployed smart contract)
-    if (address && publicClient) {
-      try {
-        const isContract = await isSmartContract(publicClient, address)
-        if (isContract) {
-          return KEY_TYPES.ERC1271
-        }
-      } catch {
-        // Ignore errors, fall through to K1
-      }
-    }
-
-    // 3. No ERC-6492 magic bytes and no deployed bytecode = standard EOA
-    return KEY_TYPES.K1
-  }
+  const getKeyTypeForSignature = (signature?: Hex): Promise<number> =>
+    detectEvmKeyType(publicClient, address, signature)
 
   const handleSignInitiator = async () => {
     setIsProcessing(true)
@@ -314,9 +294,68 @@ export function useAssociationSigning({
     }
   }
 
+  /**
+   * Sign as the approver with a passkey instead of a connected wallet.
+   * The WebAuthn challenge is the EIP-712 hash of the AAR.
+   */
+  const handleSignApproverWithPasskey = async (passkey: PasskeyCredential) => {
+    setIsProcessing(true)
+    setError(null)
+    try {
+      const signature = await signWithPasskey(passkey, aar)
+
+      setSar({
+        ...sar,
+        approverSignature: signature,
+        approverKeyType: KEY_TYPES.WEBAUTHN,
+      })
+      setFlowStep('store-association')
+    } catch (err) {
+      console.error('[useAssociationSigning] Passkey sign approver error:', err)
+      if (err instanceof DOMException && err.name === 'NotAllowedError') {
+        setError('User rejected the passkey request')
+      } else {
+        setError(err instanceof Error ? err.message : 'Passkey signing failed')
+      }
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  /**
+   * Sign as the approver with a Solana wallet (Ed25519).
+   * The wallet signs the raw 32-byte EIP-712 hash of the AAR.
+   */
+  const handleSignApproverWithSolana = async (signMessage: (message: Uint8Array) => Promise<Uint8Array>) => {
+    setIsProcessing(true)
+    setError(null)
+    try {
+      const signature = await signMessage(hexToBytes(hashAssociation(aar)))
+
+      setSar({
+        ...sar,
+        approverSignature: bytesToHex(signature),
+        approverKeyType: KEY_TYPES.EdDSA,
+      })
+      setFlowStep('store-association')
+    } catch (err) {
+      console.error('[useAssociationSigning] Solana sign approver error:', err)
+      const msg = err instanceof Error ? err.message.toLowerCase() : ''
+      if (msg.includes('user rejected') || msg.includes('rejected the request')) {
+        setError('User rejected the signature request')
+      } else {
+        setError(err instanceof Error ? err.message : 'Signing failed')
+      }
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
   return {
     isProcessing,
     handleSignInitiator,
     handleSignApprover,
+    handleSignApproverWithPasskey,
+    handleSignApproverWithSolana,
   }
 }
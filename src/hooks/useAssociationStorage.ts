@@ -1,10 +1,15 @@
 'use client'
 
-import { useEffect, useState } from 'react'
-import { type Hex, toHex, decodeEventLog } from 'viem'
-import { useWriteContract, useWaitForTransactionReceipt } from 'wagmi'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import type { Hex } from 'viem'
+import { useAccount, usePublicClient, useWriteContract, useWaitForTransactionReceipt } from 'wagmi'
+import { baseSepolia } from 'wagmi/chains'
 import type { AssociatedAccountRecord, SignedAssociationRecord, FlowStep } from '@/lib/types'
-import { ASSOCIATIONS_STORE_ADDRESS, associationsStoreAbi } from '@/lib/contracts'
+import { ASSOCIATIONS_STORE_ADDRESS } from '@/lib/contracts'
+import { storeAssociationCall } from '@/lib/associationCalls'
+import { describeContractError } from '@/lib/contractErrors'
+import { findAssociationsCreated } from '@/lib/contractEvents'
+import { useWalletCalls } from './useWalletCalls'
 
 interface UseAssociationStorageProps {
   aar: AssociatedAccountRecord
@@ -14,6 +19,14 @@ interface UseAssociationStorageProps {
   setError: (error: string | null) => void
 }
 
+/** Pre-flight result for storeAssociation, computed before the wallet prompt */
+export interface StoreEstimate {
+  gas: bigint
+  maxFeePerGas: bigint
+  /** Upper bound on the fee: gas * maxFeePerGas (wei) */
+  fee: bigint
+}
+
 export function useAssociationStorage({
   aar,
   sar,
@@ -22,91 +35,132 @@ export function useAssociationStorage({
   setError,
 }: UseAssociationStorageProps) {
   const [associationId, setAssociationId] = useState<Hex | null>(null)
+  const [estimate, setEstimate] = useState<StoreEstimate | null>(null)
+  const [simulationError, setSimulationError] = useState<string | null>(null)
+  const [isSimulating, setIsSimulating] = useState(false)
+  const { address } = useAccount()
+  const publicClient = usePublicClient({ chainId: baseSepolia.id })
   const { writeContract, data: txHash, isPending: isWritePending, error: writeError } = useWriteContract()
   const { isLoading: isConfirming, isSuccess: isConfirmed, data: receipt } = useWaitForTransactionReceipt({ hash: txHash })
+  // Smart wallets send an EIP-5792 call batch instead of a transaction
+  const walletCalls = useWalletCalls()
+  const { callsStatus, receipts: callsReceipts, error: callsError } = walletCalls
 
-  // Helper to convert key type number to bytes2 hex
-  const keyTypeToBytes2 = (keyType: number): Hex => {
-    return toHex(keyType, { size: 2 })
-  }
+  // Logs of the confirmed transaction or call batch
+  const confirmedLogs = useMemo(() => {
+    if (isConfirmed) return receipt?.logs ?? []
+    if (callsStatus === 'success') return callsReceipts.flatMap((callsReceipt) => callsReceipt.logs)
+    return null
+  }, [isConfirmed, receipt, callsStatus, callsReceipts])
 
   // Handle transaction confirmation and extract association ID from logs
   useEffect(() => {
-    if (isConfirmed && flowStep === 'store-association') {
+    if (confirmedLogs && flowStep === 'store-association') {
       // Extract association ID from the AssociationCreated event
-      if (receipt?.logs) {
-        for (const log of receipt.logs) {
-          try {
-            const decoded = decodeEventLog({
-              abi: associationsStoreAbi,
-              data: log.data,
-              topics: log.topics,
-            })
-            if (decoded.eventName === 'AssociationCreated') {
-              // The first indexed topic after the event signature is the hash (association ID)
-              const id = log.topics[1] as Hex
-              setAssociationId(id)
-              break
-            }
-          } catch {
-            // Not the event we're looking for, continue
-          }
-        }
+      const [created] = findAssociationsCreated(confirmedLogs, ASSOCIATIONS_STORE_ADDRESS)
+      if (created) {
+        setAssociationId(created.hash)
       }
       setFlowStep('complete')
     }
-  }, [isConfirmed, flowStep, setFlowStep, receipt])
+  }, [confirmedLogs, flowStep, setFlowStep])
 
   // Handle write errors
   useEffect(() => {
     if (writeError) {
-      // Check for user rejection patterns
-      const msg = writeError.message.toLowerCase()
-      if (msg.includes('user rejected') || msg.includes('user denied') || msg.includes('rejected the request')) {
-        setError('User rejected the transaction')
-      } else {
-        // Truncate long error messages
-        const shortMsg = writeError.message.length > 100 
-          ? writeError.message.slice(0, 100) + '...'
-          : writeError.message
-        setError(shortMsg)
-      }
+      setError(describeContractError(writeError))
     }
   }, [writeError, setError])
 
-  const handleStoreAssociation = () => {
+  // Handle call batch errors, including batches that reverted onchain
+  useEffect(() => {
+    if (callsError) {
+      setError(describeContractError(callsError))
+    } else if (callsStatus === 'failure') {
+      setError('The wallet call batch failed onchain')
+    }
+  }, [callsError, callsStatus, setError])
+
+  const buildStoreRequest = useCallback(() => storeAssociationCall(aar, sar), [aar, sar])
+
+  /**
+   * Simulate storeAssociation from the connected account and estimate its fee.
+   * Throws the simulation error, so contract reverts surface before anything is sent.
+   */
+  const preflight = useCallback(async (): Promise<StoreEstimate> => {
+    if (!publicClient || !address) throw new Error('Wallet not connected')
+    const request = buildStoreRequest()
+    await publicClient.simulateContract({ ...request, account: address })
+    const [gas, fees] = await Promise.all([
+      publicClient.estimateContractGas({ ...request, account: address }),
+      publicClient.estimateFeesPerGas(),
+    ])
+    return { gas, maxFeePerGas: fees.maxFeePerGas, fee: gas * fees.maxFeePerGas }
+  }, [publicClient, address, buildStoreRequest])
+
+  // Estimate the fee as soon as the store step is shown
+  useEffect(() => {
+    if (flowStep !== 'store-association' || !publicClient || !address) return
+    let cancelled = false
+    setIsSimulating(true)
+    setSimulationError(null)
+    preflight()
+      .then((result) => {
+        if (!cancelled) setEstimate(result)
+      })
+      .catch((err) => {
+        if (cancelled) return
+        setEstimate(null)
+        setSimulationError(describeContractError(err))
+      })
+      .finally(() => {
+        if (!cancelled) setIsSimulating(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [flowStep, publicClient, address, preflight])
+
+  const handleStoreAssociation = async () => {
     setError(null)
-    
-    // Build the contract struct matching the Solidity types
-    // Note: revokedAt must be 0 when storing a new association
-    const contractSar = {
-      revokedAt: 0,
-      initiatorKeyType: keyTypeToBytes2(sar.initiatorKeyType),
-      approverKeyType: keyTypeToBytes2(sar.approverKeyType),
-      initiatorSignature: sar.initiatorSignature,
-      approverSignature: sar.approverSignature,
-      record: {
-        initiator: aar.initiator,
-        approver: aar.approver,
-        validAt: Number(aar.validAt),
-        validUntil: Number(aar.validUntil),
-        interfaceId: aar.interfaceId,
-        data: aar.data,
-      },
+
+    // Simulate again right before sending; state may have changed since the estimate
+    setIsSimulating(true)
+    try {
+      setEstimate(await preflight())
+      setSimulationError(null)
+    } catch (err) {
+      const message = describeContractError(err)
+      setSimulationError(message)
+      setError(message)
+      return
+    } finally {
+      setIsSimulating(false)
+    }
+
+    if (walletCalls.shouldUseCalls) {
+      try {
+        await walletCalls.sendCalls([{ type: 'store', aar, sar }])
+      } catch (err) {
+        setError(describeContractError(err))
+      }
+      return
     }
 
-    writeContract({
-      address: ASSOCIATIONS_STORE_ADDRESS,
-      abi: associationsStoreAbi,
-      functionName: 'storeAssociation',
-      args: [contractSar],
-    })
+    writeContract(buildStoreRequest())
   }
 
   return {
-    txHash,
-    isWritePending,
-    isConfirming,
+    txHash: txHash ?? walletCalls.callsTxHash ?? undefined,
+    estimate,
+    simulationError,
+    isSimulating,
+    isWritePending: isWritePending || walletCalls.isSending,
+    isConfirming: isConfirming || callsStatus === 'pending',
+    /** EIP-5792 batch, when stored from a smart wallet */
+    callsId: walletCalls.callsId,
+    callsStatus,
+    isSponsored: walletCalls.shouldUseCalls && walletCalls.isSponsored,
     associationId,
     handleStoreAssociation,
   }
@@ -1,11 +1,14 @@
 'use client'
 
 import { useState } from 'react'
-import { useAccount, useSignMessage } from 'wagmi'
+import type { Hex } from 'viem'
 import type { SignedAssociationRecord } from '@/lib/types'
+import { createRevocationRequest, serializeRevocationRequest } from '@/lib/revocation'
+import { useRevocationSigner } from './useRevocationSigner'
 
 interface UseDatabaseRevocationProps {
-  associationId: number | null
+  /** EIP-712 hash of the AAR */
+  associationId: Hex | null
   sar: SignedAssociationRecord
   setSar: (sar: SignedAssociationRecord) => void
   setError: (error: string | null) => void
@@ -25,8 +28,7 @@ export function useDatabaseRevocation({
   setError,
   onSuccess,
 }: UseDatabaseRevocationProps): UseDatabaseRevocationReturn {
-  const { address } = useAccount()
-  const { signMessageAsync } = useSignMessage()
+  const { address, signRevocation } = useRevocationSigner()
   
   const [isRevoking, setIsRevoking] = useState(false)
   const [isRevoked, setIsRevoked] = useState(false)
@@ -46,12 +48,12 @@ export function useDatabaseRevocation({
     setIsRevoking(true)
 
     try {
-      // Create the revocation message to sign
+      // Create the revocation request to sign
       const timestamp = revokedAt ?? Math.floor(Date.now() / 1000)
-      const message = `Revoke association ${associationId} at timestamp ${timestamp}`
+      const revocation = createRevocationRequest(associationId, BigInt(timestamp))
 
-      // Request signature from user
-      const signature = await signMessageAsync({ message })
+      // Request signature from user (K1 for EOAs, ERC-1271/ERC-6492 for smart wallets)
+      const { signature, keyType } = await signRevocation(revocation)
 
       // Send revocation request with signature
       const response = await fetch('/api/associations', {
@@ -60,11 +62,10 @@ export function useDatabaseRevocation({
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          id: associationId,
-          revokedAt: timestamp,
-          message,
+          request: serializeRevocationRequest(revocation),
           signature,
           signer: address,
+          keyType,
         }),
       })
 
@@ -74,10 +75,10 @@ export function useDatabaseRevocation({
         throw new Error(result.error || 'Failed to revoke association')
       }
 
-      // Update local state
+      // Update local state (the store keeps an earlier existing revocation)
       setSar({
         ...sar,
-        revokedAt: BigInt(timestamp),
+        revokedAt: BigInt(result.revokedAt),
       })
       setIsRevoked(true)
       onSuccess?.()
@@ -1,6 +1,7 @@
 'use client'
 
 import { useState } from 'react'
+import type { Hex } from 'viem'
 import type { AssociatedAccountRecord, SignedAssociationRecord, FlowStep } from '@/lib/types'
 
 interface UseDatabaseStorageProps {
@@ -12,7 +13,8 @@ interface UseDatabaseStorageProps {
 }
 
 interface UseDatabaseStorageReturn {
-  associationId: number | null
+  /** EIP-712 hash of the stored AAR */
+  associationId: Hex | null
   isStoring: boolean
   handleStoreAssociation: () => Promise<void>
 }
@@ -23,7 +25,7 @@ export function useDatabaseStorage({
   setFlowStep,
   setError,
 }: UseDatabaseStorageProps): UseDatabaseStorageReturn {
-  const [associationId, setAssociationId] = useState<number | null>(null)
+  const [associationId, setAssociationId] = useState<Hex | null>(null)
   const [isStoring, setIsStoring] = useState(false)
 
   const handleStoreAssociation = async () => {
@@ -62,7 +64,8 @@ export function useDatabaseStorage({
         throw new Error(result.error || 'Failed to store association')
       }
 
-      setAssociationId(result.associationId)
+      // Resubmitting an already stored record succeeds with `alreadyExists` and the same hash
+      setAssociationId(result.hash)
       setFlowStep('complete')
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error'
@@ -0,0 +1,70 @@
+'use client'
+
+import { useEffect, useMemo, useRef } from 'react'
+import type { Hex } from 'viem'
+import { ASSOCIATIONS_STORE_ADDRESS } from '@/lib/contracts'
+import { describeContractError } from '@/lib/contractErrors'
+import { findAssociationsCreated } from '@/lib/contractEvents'
+import { isDraftReadyToStore, type AssociationDraft } from '@/lib/drafts'
+import { useWalletCalls } from './useWalletCalls'
+
+interface UseDraftBatchStorageProps {
+  drafts: AssociationDraft[]
+  /** Drop a stored draft */
+  discardDraft: (hash: Hex) => void
+  setError: (error: string | null) => void
+  /** Called once the batch is confirmed */
+  onStored?: () => void
+}
+
+/**
+ * Store every fully signed onchain draft in one atomic EIP-5792 call batch.
+ * Only offered to smart wallets that can batch atomically: either every association
+ * is stored or none is. Drafts are dropped as their AssociationCreated events confirm.
+ */
+export function useDraftBatchStorage({ drafts, discardDraft, setError, onStored }: UseDraftBatchStorageProps) {
+  const walletCalls = useWalletCalls()
+  const { callsId, callsStatus, receipts, error } = walletCalls
+  const readyDrafts = useMemo(() => drafts.filter(isDraftReadyToStore), [drafts])
+  // Batch whose confirmation was handled
+  const handledCallsId = useRef<string | null>(null)
+
+  const canBatch = walletCalls.shouldUseCalls && walletCalls.supportsAtomic && readyDrafts.length > 1
+
+  useEffect(() => {
+    if (callsStatus !== 'success' || !callsId || handledCallsId.current === callsId) return
+    handledCallsId.current = callsId
+    const logs = receipts.flatMap((receipt) => receipt.logs)
+    for (const { hash } of findAssociationsCreated(logs, ASSOCIATIONS_STORE_ADDRESS)) {
+      discardDraft(hash)
+    }
+    onStored?.()
+  }, [callsStatus, callsId, receipts, discardDraft, onStored])
+
+  // Handle call batch errors, including batches that reverted onchain
+  useEffect(() => {
+    if (error) {
+      setError(describeContractError(error))
+    } else if (callsStatus === 'failure') {
+      setError('The draft batch failed onchain; no association was stored')
+    }
+  }, [error, callsStatus, setError])
+
+  const handleStoreDrafts = async () => {
+    setError(null)
+    try {
+      await walletCalls.sendCalls(readyDrafts.map((draft) => ({ type: 'store', aar: draft.aar, sar: draft.sar })))
+    } catch (err) {
+      setError(describeContractError(err))
+    }
+  }
+
+  return {
+    readyDrafts,
+    canBatch,
+    isPending: walletCalls.isSending || callsStatus === 'pending',
+    isSponsored: walletCalls.isSponsored,
+    txHash: walletCalls.callsTxHash,
+    handleStoreDrafts,
+  }
+}
@@ -0,0 +1,66 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createPasskey, type PasskeyCredential } from '@/lib/webauthn'
+
+// localStorage key for the passkey registered in this browser
+const PASSKEY_STORAGE_KEY = 'erc8092.passkey'
+
+interface UsePasskeyProps {
+  setError: (error: string | null) => void
+}
+
+/**
+ * Manage the passkey (WebAuthn, key type 0x8001) account for this browser.
+ * The credential ID and public key are kept in localStorage so the same
+ * passkey account can sign across reloads.
+ */
+export function usePasskey({ setError }: UsePasskeyProps) {
+  const [passkey, setPasskey] = useState<PasskeyCredential | null>(null)
+  const [isSupported, setIsSupported] = useState(false)
+  const [isCreating, setIsCreating] = useState(false)
+
+  // Load the stored passkey and detect WebAuthn support on mount
+  useEffect(() => {
+    setIsSupported(typeof window !== 'undefined' && !!window.PublicKeyCredential)
+    try {
+      const stored = localStorage.getItem(PASSKEY_STORAGE_KEY)
+      if (stored) {
+        setPasskey(JSON.parse(stored) as PasskeyCredential)
+      }
+    } catch {
+      // Ignore unreadable storage
+    }
+  }, [])
+
+  const handleCreatePasskey = async (): Promise<PasskeyCredential | null> => {
+    setError(null)
+    setIsCreating(true)
+    try {
+      const created = await createPasskey(`ERC-8092 ${new Date().toISOString().slice(0, 10)}`)
+      localStorage.setItem(PASSKEY_STORAGE_KEY, JSON.stringify(created))
+      setPasskey(created)
+      return created
+    } catch (err) {
+      console.error('[usePasskey] Create passkey error:', err)
+      const msg = err instanceof Error ? err.message : 'Passkey creation failed'
+      setError(err instanceof DOMException && err.name === 'NotAllowedError' ? 'Passkey request was cancelled' : msg)
+      return null
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleForgetPasskey = () => {
+    localStorage.removeItem(PASSKEY_STORAGE_KEY)
+    setPasskey(null)
+  }
+
+  return {
+    passkey,
+    isSupported,
+    isCreating,
+    handleCreatePasskey,
+    handleForgetPasskey,
+  }
+}
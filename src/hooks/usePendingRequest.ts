@@ -0,0 +1,73 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { SignedAssociationRecord } from '@/lib/types'
+
+interface UsePendingRequestProps {
+  /** SAR signed by the initiator */
+  sar: SignedAssociationRecord
+  setError: (error: string | null) => void
+}
+
+/**
+ * Send an association signed by the initiator to the approver's inbox in the offchain store.
+ */
+export function usePendingRequest({ sar, setError }: UsePendingRequestProps) {
+  const [isSending, setIsSending] = useState(false)
+  // Unix seconds the sent request expires at
+  const [expiresAt, setExpiresAt] = useState<bigint | null>(null)
+
+  // A different association has not been sent yet
+  useEffect(() => {
+    setExpiresAt(null)
+  }, [sar.record, sar.initiatorSignature])
+
+  const handleSendRequest = async () => {
+    setError(null)
+    setIsSending(true)
+
+    try {
+      const aar = sar.record
+      const response = await fetch('/api/associations/pending', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          aar: {
+            initiator: aar.initiator,
+            approver: aar.approver,
+            validAt: aar.validAt.toString(),
+            validUntil: aar.validUntil.toString(),
+            interfaceId: aar.interfaceId,
+            data: aar.data,
+          },
+          sar: {
+            initiatorKeyType: sar.initiatorKeyType,
+            initiatorSignature: sar.initiatorSignature,
+          },
+        }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to send the request')
+      }
+
+      setExpiresAt(BigInt(result.pending.expires_at))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      setError(message)
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return {
+    isSending,
+    isSent: expiresAt !== null,
+    expiresAt,
+    handleSendRequest,
+  }
+}
@@ -0,0 +1,116 @@
+'use client'
+
+import type { Hex } from 'viem'
+import { useAccount, usePublicClient, useSignTypedData, useSwitchChain } from 'wagmi'
+import { baseSepolia } from 'wagmi/chains'
+import { detectEvmKeyType } from '@/lib/keyTypes'
+import {
+  getTypedDataForPendingRejection,
+  getTypedDataForRevocation,
+  type PendingRejection,
+  type RevocationRequest,
+} from '@/lib/revocation'
+import { useSmartWallet } from './useSmartWallet'
+
+export interface SignedRevocationRequest {
+  signature: Hex
+  /** K1 for EOAs, ERC-1271/ERC-6492 for deployed/undeployed smart wallets */
+  keyType: number
+}
+
+// Typed data of a request to the offchain store, as built by lib/revocation
+type StoreTypedData =
+  | ReturnType<typeof getTypedDataForRevocation>
+  | ReturnType<typeof getTypedDataForPendingRejection>
+
+/**
+ * Sign requests to the offchain store with the connected wallet: RevocationRequests
+ * to revoke stored associations and PendingRejections to reject pending ones.
+ */
+export function useRevocationSigner() {
+  const { address, chain, connector } = useAccount()
+  const { signTypedDataAsync } = useSignTypedData()
+  const { switchChainAsync } = useSwitchChain()
+  const { isSmartWallet } = useSmartWallet()
+  // Always use Base Sepolia for contract detection regardless of wallet's current chain
+  const publicClient = usePublicClient({ chainId: baseSepolia.id })
+
+  /**
+   * Sign the request directly with the connector's provider, as useAssociationSigning
+   * does for smart wallets, to bypass wagmi's ConnectorChainMismatchError.
+   */
+  const signTypedDataDirect = async ({ domain, types, primaryType, message }: StoreTypedData): Promise<Hex> => {
+    if (!connector || !address) {
+      throw new Error('No connector or address available')
+    }
+
+    const provider = await connector.getProvider()
+
+    // eth_signTypedData_v4 format, with the EIP712Domain type and the uint256 nonce as a string
+    const typedData = {
+      types: {
+        EIP712Domain: [
+          { name: 'name', type: 'string' },
+          { name: 'version', type: 'string' },
+          { name: 'chainId', type: 'uint256' },
+          { name: 'salt', type: 'bytes32' },
+        ],
+        ...types,
+      },
+      primaryType,
+      domain,
+      message: { ...message, nonce: message.nonce.toString() },
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const signature = await (provider as any).request({
+      method: 'eth_signTypedData_v4',
+      params: [address, JSON.stringify(typedData)],
+    })
+
+    return signature as Hex
+  }
+
+  /**
+   * Sign with the smart wallet's provider, or with wagmi through `signWithWagmi`,
+   * which each caller builds from its own typed data so wagmi can infer the message shape.
+   */
+  const signStoreRequest = async (
+    typedData: StoreTypedData,
+    signWithWagmi: () => Promise<Hex>
+  ): Promise<SignedRevocationRequest> => {
+    if (!address) {
+      throw new Error('Wallet not connected')
+    }
+
+    let signature: Hex
+    if (isSmartWallet && connector) {
+      signature = await signTypedDataDirect(typedData)
+    } else {
+      // The store's EIP-712 domain is bound to Base Sepolia
+      if (chain?.id !== baseSepolia.id) {
+        await switchChainAsync({ chainId: baseSepolia.id })
+      }
+      signature = await signWithWagmi()
+    }
+
+    const keyType = await detectEvmKeyType(publicClient, address, signature)
+    return { signature, keyType }
+  }
+
+  const signRevocation = (revocation: RevocationRequest) => {
+    const typedData = getTypedDataForRevocation(revocation, baseSepolia.id, window.location.origin)
+    return signStoreRequest(typedData, () => signTypedDataAsync(typedData))
+  }
+
+  const signRejection = (rejection: PendingRejection) => {
+    const typedData = getTypedDataForPendingRejection(rejection, baseSepolia.id, window.location.origin)
+    return signStoreRequest(typedData, () => signTypedDataAsync(typedData))
+  }
+
+  return {
+    address,
+    signRevocation,
+    signRejection,
+  }
+}
@@ -0,0 +1,108 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { getWallets } from '@wallet-standard/app'
+import type { Wallet, WalletAccount } from '@wallet-standard/base'
+import { StandardConnect, StandardDisconnect, type StandardConnectFeature, type StandardDisconnectFeature } from '@wallet-standard/features'
+import { SolanaSignMessage, type SolanaSignMessageFeature } from '@solana/wallet-standard-features'
+
+interface UseSolanaWalletProps {
+  setError: (error: string | null) => void
+}
+
+/**
+ * Check whether a wallet can connect and sign arbitrary messages with a Solana account.
+ */
+function isSolanaSigningWallet(wallet: Wallet): boolean {
+  return StandardConnect in wallet.features &&
+    SolanaSignMessage in wallet.features &&
+    wallet.chains.some((chain) => chain.startsWith('solana:'))
+}
+
+/**
+ * Solana wallet connector based on the Wallet Standard.
+ *
+ * Discovers installed Solana wallets (Phantom, Solflare, Backpack, ...), connects
+ * one, and signs raw bytes with `solana:signMessage`. Used to produce Ed25519
+ * (key type 0x0004) signatures over the AAR hash.
+ */
+export function useSolanaWallet({ setError }: UseSolanaWalletProps) {
+  const [wallets, setWallets] = useState<readonly Wallet[]>([])
+  const [wallet, setWallet] = useState<Wallet | null>(null)
+  const [account, setAccount] = useState<WalletAccount | null>(null)
+  const [isConnecting, setIsConnecting] = useState(false)
+
+  // Track wallets as they register (extensions may inject after page load)
+  useEffect(() => {
+    const registry = getWallets()
+    const update = () => setWallets(registry.get().filter(isSolanaSigningWallet))
+    update()
+    const offRegister = registry.on('register', update)
+    const offUnregister = registry.on('unregister', update)
+    return () => {
+      offRegister()
+      offUnregister()
+    }
+  }, [])
+
+  const handleConnect = async (selected: Wallet) => {
+    setError(null)
+    setIsConnecting(true)
+    try {
+      const { connect } = (selected.features as StandardConnectFeature)[StandardConnect]
+      const { accounts } = await connect()
+      const solanaAccount = accounts.find((a) => a.chains.some((chain) => chain.startsWith('solana:')))
+      if (!solanaAccount) {
+        throw new Error(`${selected.name} did not return a Solana account`)
+      }
+      setWallet(selected)
+      setAccount(solanaAccount)
+    } catch (err) {
+      console.error('[useSolanaWallet] Connect error:', err)
+      setError(err instanceof Error ? err.message : 'Failed to connect Solana wallet')
+    } finally {
+      setIsConnecting(false)
+    }
+  }
+
+  const handleDisconnect = async () => {
+    if (wallet && StandardDisconnect in wallet.features) {
+      try {
+        await (wallet.features as StandardDisconnectFeature)[StandardDisconnect].disconnect()
+      } catch {
+        // Ignore disconnect failures, local state is cleared regardless
+      }
+    }
+    setWallet(null)
+    setAccount(null)
+  }
+
+  /**
+   * Sign raw bytes with the connected account and return the Ed25519 signature.
+   * Fails if the wallet modified the message before signing.
+   */
+  const signMessage = async (message: Uint8Array): Promise<Uint8Array> => {
+    if (!wallet || !account) {
+      throw new Error('Solana wallet not connected')
+    }
+    const { signMessage: sign } = (wallet.features as SolanaSignMessageFeature)[SolanaSignMessage]
+    const [output] = await sign({ account, message })
+
+    const signedMessage = output.signedMessage
+    if (signedMessage.length !== message.length || signedMessage.some((byte, i) => byte !== message[i])) {
+      throw new Error(`${wallet.name} altered the message before signing; its signature cannot be verified`)
+    }
+    return output.signature
+  }
+
+  return {
+    wallets,
+    wallet,
+    address: account?.address ?? null,
+    isConnected: !!account,
+    isConnecting,
+    handleConnect,
+    handleDisconnect,
+    signMessage,
+  }
+}
@@ -0,0 +1,158 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  STORAGE_LEGS,
+  STORAGE_LEG_LABELS,
+  type AssociatedAccountRecord,
+  type SignedAssociationRecord,
+  type FlowStep,
+  type StorageLeg,
+  type StorageLegStatus,
+  type StorageStrategy,
+} from '@/lib/types'
+import { useAssociationStorage } from './useAssociationStorage'
+import { useDatabaseStorage } from './useDatabaseStorage'
+
+interface UseStorageStrategyProps {
+  strategy: StorageStrategy
+  aar: AssociatedAccountRecord
+  sar: SignedAssociationRecord
+  flowStep: FlowStep
+  setFlowStep: (step: FlowStep) => void
+  setError: (error: string | null) => void
+}
+
+/**
+ * Store the association with the selected strategy.
+ * Each leg (onchain, database) runs and reports independently; the flow completes once
+ * every leg of the strategy has stored the association. Failed legs can be retried alone.
+ */
+export function useStorageStrategy({
+  strategy,
+  aar,
+  sar,
+  flowStep,
+  setFlowStep,
+  setError,
+}: UseStorageStrategyProps) {
+  const [stored, setStored] = useState<Record<StorageLeg, boolean>>({ onchain: false, database: false })
+  const [legErrors, setLegErrors] = useState<Record<StorageLeg, string | null>>({ onchain: null, database: null })
+  const legs = STORAGE_LEGS[strategy]
+
+  // Each leg reports through its own callbacks instead of advancing the flow directly
+  const setOnchainFlowStep = useCallback((step: FlowStep) => {
+    if (step === 'complete') setStored((prev) => ({ ...prev, onchain: true }))
+  }, [])
+  const setDatabaseFlowStep = useCallback((step: FlowStep) => {
+    if (step === 'complete') setStored((prev) => ({ ...prev, database: true }))
+  }, [])
+
+  // With several legs, errors are prefixed with the leg they came from
+  const multiLeg = legs.length > 1
+  const setOnchainError = useCallback((error: string | null) => {
+    setLegErrors((prev) => ({ ...prev, onchain: error }))
+    if (error !== null || !multiLeg) setError(error && multiLeg ? `${STORAGE_LEG_LABELS.onchain}: ${error}` : error)
+  }, [multiLeg, setError])
+  const setDatabaseError = useCallback((error: string | null) => {
+    setLegErrors((prev) => ({ ...prev, database: error }))
+    if (error !== null || !multiLeg) setError(error && multiLeg ? `${STORAGE_LEG_LABELS.database}: ${error}` : error)
+  }, [multiLeg, setError])
+
+  const onchain = useAssociationStorage({
+    aar,
+    sar,
+    flowStep,
+    setFlowStep: setOnchainFlowStep,
+    setError: setOnchainError,
+  })
+
+  const database = useDatabaseStorage({
+    aar,
+    sar,
+    flowStep,
+    setFlowStep: setDatabaseFlowStep,
+    setError: setDatabaseError,
+  })
+
+  const legStatus = (leg: StorageLeg): StorageLegStatus => {
+    if (stored[leg]) return 'stored'
+    const pending = leg === 'onchain'
+      ? onchain.isSimulating || onchain.isWritePending || onchain.isConfirming
+      : database.isStoring
+    if (pending) return 'pending'
+    return legErrors[leg] ? 'failed' : 'idle'
+  }
+  const status: Record<StorageLeg, StorageLegStatus> = {
+    onchain: legStatus('onchain'),
+    database: legStatus('database'),
+  }
+
+  // Complete once every leg of the strategy has stored the association
+  const isStored = legs.every((leg) => stored[leg])
+  useEffect(() => {
+    if (isStored && flowStep === 'store-association') {
+      setFlowStep('complete')
+    }
+  }, [isStored, flowStep, setFlowStep])
+
+  // With both legs stored, have the server mark the offchain copy as superseded by the onchain one.
+  // The server reads the association from the transaction receipt, so only the hash is sent.
+  const reportedTxHash = useRef<string | null>(null)
+  const txHash = onchain.txHash
+  useEffect(() => {
+    if (strategy !== 'both' || !isStored || !txHash || reportedTxHash.current === txHash) return
+    reportedTxHash.current = txHash
+    fetch('/api/associations/onchain', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ transactionHash: txHash }),
+    })
+      .then((response) => response.json())
+      .then((result) => {
+        if (!result.success) throw new Error(result.error)
+      })
+      .catch((err) => {
+        const message = err instanceof Error ? err.message : 'Unknown error'
+        setError(`Could not mark the database copy as superseded: ${message}`)
+      })
+  }, [strategy, isStored, txHash, setError])
+
+  // Start from scratch when a new association reaches the store step
+  useEffect(() => {
+    if (flowStep !== 'store-association' && flowStep !== 'complete') {
+      setStored({ onchain: false, database: false })
+      setLegErrors({ onchain: null, database: null })
+    }
+  }, [flowStep])
+
+  /** Run every leg that has not stored the association yet */
+  const handleStoreAssociation = async () => {
+    setError(null)
+    await Promise.all(legs
+      .filter((leg) => !stored[leg] && status[leg] !== 'pending')
+      .map((leg) => leg === 'onchain' ? onchain.handleStoreAssociation() : database.handleStoreAssociation()))
+  }
+
+  return {
+    legs,
+    status,
+    legErrors,
+    isPending: legs.some((leg) => status[leg] === 'pending'),
+    // Both legs store under the same EIP-712 hash
+    associationId: onchain.associationId ?? database.associationId,
+    txHash: onchain.txHash,
+    estimate: onchain.estimate,
+    simulationError: onchain.simulationError,
+    isSimulating: onchain.isSimulating,
+    isWritePending: onchain.isWritePending,
+    isConfirming: onchain.isConfirming,
+    callsId: onchain.callsId,
+    callsStatus: onchain.callsStatus,
+    isSponsored: onchain.isSponsored,
+    isStoring: database.isStoring,
+    handleStoreAssociation,
+  }
+}
@@ -0,0 +1,79 @@
+'use client'
+
+import { useMemo } from 'react'
+import { type Hex } from 'viem'
+import { useSendCalls, useWaitForCallsStatus } from 'wagmi'
+import { baseSepolia } from 'wagmi/chains'
+import { type AssociationCall, toContractCall } from '@/lib/associationCalls'
+import { useSmartWallet } from './useSmartWallet'
+
+// Optional ERC-7677 paymaster that sponsors smart wallet calls
+const PAYMASTER_URL = process.env.NEXT_PUBLIC_PAYMASTER_URL || undefined
+
+/**
+ * Send AssociationsStore calls from a smart wallet via EIP-5792 (`wallet_sendCalls`).
+ *
+ * Calls are sponsored when a paymaster URL is configured and the wallet supports
+ * `paymasterService`; several calls are sent as one atomic batch. The batch status
+ * is polled with `wallet_getCallsStatus` until it is final.
+ */
+export function useWalletCalls() {
+  const { isSmartWallet, isBaseAccount, capabilities } = useSmartWallet()
+
+  const { supportsAtomic, supportsPaymaster } = useMemo(() => {
+    // Base Account supports both, and its capabilities are not queried
+    if (isBaseAccount) return { supportsAtomic: true, supportsPaymaster: true }
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const caps = (capabilities as any)?.[baseSepolia.id]
+    return {
+      // EIP-5792 v2 reports `atomic.status`; earlier wallets report `atomicBatch.supported`
+      supportsAtomic: caps?.atomic?.status === 'supported' || caps?.atomic?.status === 'ready' ||
+        !!caps?.atomicBatch?.supported,
+      supportsPaymaster: !!caps?.paymasterService?.supported,
+    }
+  }, [isBaseAccount, capabilities])
+
+  const isSponsored = !!PAYMASTER_URL && supportsPaymaster
+
+  const { sendCallsAsync, data, isPending: isSending, error: sendError, reset } = useSendCalls()
+  const {
+    data: callsStatus,
+    isLoading: isWaiting,
+    error: statusError,
+  } = useWaitForCallsStatus({ id: data?.id })
+
+  /**
+   * Send the calls as one batch. Returns the EIP-5792 batch ID.
+   * Throws if several calls are given and the wallet cannot execute them atomically.
+   */
+  const sendCalls = async (calls: AssociationCall[]): Promise<string> => {
+    if (calls.length > 1 && !supportsAtomic) {
+      throw new Error('This wallet cannot batch calls atomically. Send them one at a time.')
+    }
+    const result = await sendCallsAsync({
+      chainId: baseSepolia.id,
+      calls: calls.map(toContractCall),
+      forceAtomic: calls.length > 1,
+      capabilities: isSponsored ? { paymasterService: { url: PAYMASTER_URL } } : undefined,
+    })
+    return result.id
+  }
+
+  return {
+    /** Whether calls should go through wallet_sendCalls instead of a plain transaction */
+    shouldUseCalls: isSmartWallet,
+    supportsAtomic,
+    isSponsored,
+    callsId: data?.id ?? null,
+    /** 'pending' until the batch is final, then 'success' or 'failure' */
+    callsStatus: callsStatus?.status ?? (data ? 'pending' : null),
+    /** Transaction hash of the batch, once included */
+    callsTxHash: (callsStatus?.receipts?.[0]?.transactionHash ?? null) as Hex | null,
+    receipts: callsStatus?.receipts ?? [],
+    isSending,
+    isWaiting,
+    error: sendError ?? statusError,
+    sendCalls,
+    reset,
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Runs once when the server starts.
+ * Refuses to start against a database whose schema is behind the app's migrations.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return
+
+  const { assertAssociationStoreSchema } = await import('@/lib/store')
+  await assertAssociationStoreSchema()
+}
@@ -0,0 +1,68 @@
+import { type Address, type Hex, encodeFunctionData, toHex } from 'viem'
+import { ASSOCIATIONS_STORE_ADDRESS, associationsStoreAbi } from './contracts'
+import type { AssociatedAccountRecord, SignedAssociationRecord } from './types'
+
+/**
+ * AssociationsStore calls, shared by plain transactions and EIP-5792 call batches.
+ */
+
+// A write to the AssociationsStore contract
+export type AssociationCall =
+  | { type: 'store'; aar: AssociatedAccountRecord; sar: SignedAssociationRecord }
+  | { type: 'revoke'; associationId: Hex; revokedAt: number }
+
+// Helper to convert key type number to bytes2 hex
+const keyTypeToBytes2 = (keyType: number): Hex => {
+  return toHex(keyType, { size: 2 })
+}
+
+/**
+ * storeAssociation, with the contract struct matching the Solidity types.
+ */
+export function storeAssociationCall(aar: AssociatedAccountRecord, sar: SignedAssociationRecord) {
+  // Note: revokedAt must be 0 when storing a new association
+  const contractSar = {
+    revokedAt: 0,
+    initiatorKeyType: keyTypeToBytes2(sar.initiatorKeyType),
+    approverKeyType: keyTypeToBytes2(sar.approverKeyType),
+    initiatorSignature: sar.initiatorSignature,
+    approverSignature: sar.approverSignature,
+    record: {
+      initiator: aar.initiator,
+      approver: aar.approver,
+      validAt: Number(aar.validAt),
+      validUntil: Number(aar.validUntil),
+      interfaceId: aar.interfaceId,
+      data: aar.data,
+    },
+  }
+
+  return {
+    address: ASSOCIATIONS_STORE_ADDRESS,
+    abi: associationsStoreAbi,
+    functionName: 'storeAssociation',
+    args: [contractSar],
+  } as const
+}
+
+/**
+ * revokeAssociation; a `revokedAt` of 0 revokes at the block timestamp.
+ */
+export function revokeAssociationCall(associationId: Hex, revokedAt: number) {
+  return {
+    address: ASSOCIATIONS_STORE_ADDRESS,
+    abi: associationsStoreAbi,
+    functionName: 'revokeAssociation',
+    args: [associationId, revokedAt],
+  } as const
+}
+
+/**
+ * Encode an AssociationCall in the { to, data } form wallet_sendCalls batches take.
+ */
+export function toContractCall(call: AssociationCall): { to: Address; data: Hex } {
+  const { address, ...request } = call.type === 'store'
+    ? storeAssociationCall(call.aar, call.sar)
+    : revokeAssociationCall(call.associationId, call.revokedAt)
+  return { to: address, data: encodeFunctionData(request) }
+}
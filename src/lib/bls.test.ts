@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { type Hex, bytesToHex, hexToBytes } from 'viem'
+import { bls12_381 } from '@noble/curves/bls12-381'
+import { hashAssociation } from './eip712'
+import { blsPublicKeyToAddress, createBlsSigner, decodeBlsSignature, encodeBlsSignature, verifyBlsSignature } from './bls'
+import { testRecord } from '@/test/fixtures'
+
+const signer = createBlsSigner(`0x${'01'.repeat(32)}`)
+const aar = testRecord()
+
+describe('verifyBlsSignature', () => {
+  it('verify a signature from the local signer', () => {
+    assert.equal(verifyBlsSignature(signer.address, aar, signer.signAssociation(aar)), true)
+  })
+
+  it('reject a signature under another ciphersuite DST', () => {
+    const signature = bls12_381.sign(hexToBytes(hashAssociation(aar)), hexToBytes(signer.privateKey), {
+      DST: 'BLS_SIG_BLS12381G2_XMD:SHA-256_SSWU_RO_NUL_',
+    })
+    const envelope = encodeBlsSignature({ signature: bytesToHex(signature), publicKey: signer.publicKey })
+    assert.equal(verifyBlsSignature(signer.address, aar, envelope), false)
+  })
+
+  it('reject a signature for a tampered record', () => {
+    const signature = signer.signAssociation(testRecord({ data: '0x01' }))
+    assert.equal(verifyBlsSignature(signer.address, aar, signature), false)
+  })
+
+  it('reject a public key that does not match the address', () => {
+    const other = createBlsSigner()
+    assert.equal(verifyBlsSignature(signer.address, aar, other.signAssociation(aar)), false)
+  })
+
+  it('reject malformed public keys and envelopes', () => {
+    // Bound to the address, but not a point on the curve: invalid rather than an error
+    const publicKey: Hex = `0x${'ff'.repeat(48)}`
+    const { signature } = decodeBlsSignature(signer.signAssociation(aar))!
+    assert.equal(verifyBlsSignature(blsPublicKeyToAddress(publicKey), aar, encodeBlsSignature({ signature, publicKey })), false)
+
+    assert.equal(verifyBlsSignature(signer.address, aar, signer.signAssociation(aar).slice(0, -2) as Hex), false)
+  })
+})
@@ -0,0 +1,115 @@
+import { type Address, type Hex, bytesToHex, concat, getAddress, hexToBytes, isAddressEqual, keccak256, size, slice } from 'viem'
+import { bls12_381 } from '@noble/curves/bls12-381'
+import { hashAssociation } from './eip712'
+import type { AssociatedAccountRecord } from './types'
+
+/**
+ * BLS12-381 (BLS, key type 0x0003) signatures
+ *
+ * Uses the Ethereum consensus layer scheme: public keys are compressed G1 points
+ * (48 bytes), signatures are compressed G2 points (96 bytes), and the message is
+ * hashed to G2 with the proof-of-possession ciphersuite DST.
+ *
+ * Signature encoding (144 bytes):
+ * | signature (96) | publicKey (48) |
+ *
+ * The signed message is the 32-byte EIP-712 hash of the AAR. The signer's
+ * ERC-7930 address MUST be keccak256(publicKey)[12:].
+ */
+
+export const BLS_SIGNATURE_LENGTH = 144
+
+// Ethereum consensus ciphersuite (BLS_SIG_BLS12381G2_XMD:SHA-256_SSWU_RO_POP_)
+export const BLS_DST = 'BLS_SIG_BLS12381G2_XMD:SHA-256_SSWU_RO_POP_'
+
+export interface BlsSignature {
+  /** Compressed G2 signature */
+  signature: Hex
+  /** Compressed G1 public key */
+  publicKey: Hex
+}
+
+/**
+ * Derive the account address bound to a BLS public key.
+ */
+export function blsPublicKeyToAddress(publicKey: Hex): Address {
+  return getAddress(slice(keccak256(publicKey), 12))
+}
+
+export function encodeBlsSignature(signature: BlsSignature): Hex {
+  return concat([signature.signature, signature.publicKey])
+}
+
+/**
+ * Decode a BLS signature envelope. Returns null if the length is wrong.
+ */
+export function decodeBlsSignature(signature: Hex): BlsSignature | null {
+  if (size(signature) !== BLS_SIGNATURE_LENGTH) return null
+  return {
+    signature: slice(signature, 0, 96),
+    publicKey: slice(signature, 96, 144),
+  }
+}
+
+/**
+ * Verify a BLS signature over the EIP-712 hash of an AAR for the given account.
+ */
+export function verifyBlsSignature(
+  address: Address,
+  aar: AssociatedAccountRecord,
+  signature: Hex
+): boolean {
+  return verifyBlsHashSignature(address, hashAssociation(aar), signature)
+}
+
+/**
+ * Verify a BLS signature over any 32-byte EIP-712 digest (e.g. a revocation request).
+ */
+export function verifyBlsHashSignature(
+  address: Address,
+  hash: Hex,
+  signature: Hex
+): boolean {
+  const decoded = decodeBlsSignature(signature)
+  if (!decoded) return false
+
+  if (!isAddressEqual(blsPublicKeyToAddress(decoded.publicKey), address)) {
+    return false
+  }
+
+  try {
+    return bls12_381.verify(
+      hexToBytes(decoded.signature),
+      hexToBytes(hash),
+      hexToBytes(decoded.publicKey),
+      { DST: BLS_DST }
+    )
+  } catch {
+    // Points not on the curve or not in the prime-order subgroup
+    return false
+  }
+}
+
+/**
+ * Local BLS signer for testing and scripting.
+ * Generates a random key if none is provided.
+ */
+export function createBlsSigner(privateKey?: Hex) {
+  const secret = privateKey ? hexToBytes(privateKey) : bls12_381.utils.randomPrivateKey()
+  const publicKey = bytesToHex(bls12_381.getPublicKey(secret))
+
+  const signHash = (hash: Hex): Hex => {
+    const signature = bls12_381.sign(hexToBytes(hash), secret, { DST: BLS_DST })
+    return encodeBlsSignature({ signature: bytesToHex(signature), publicKey })
+  }
+
+  return {
+    privateKey: bytesToHex(secret),
+    publicKey,
+    address: blsPublicKeyToAddress(publicKey),
+    /** Sign a 32-byte digest and return the BLS signature envelope */
+    signHash,
+    /** Sign the EIP-712 hash of the AAR and return the BLS signature envelope */
+    signAssociation: (aar: AssociatedAccountRecord): Hex => signHash(hashAssociation(aar)),
+  }
+}
@@ -0,0 +1,69 @@
+import { BaseError, ContractFunctionRevertedError, type ContractErrorName, type Hex } from 'viem'
+import { associationsStoreAbi } from './contracts'
+
+/**
+ * Human readable explanations for AssociationsStore reverts.
+ */
+
+export type AssociationsStoreErrorName = ContractErrorName<typeof associationsStoreAbi>
+
+// Keyed by every custom error in the ABI, so a new error fails to compile until it is described
+const CONTRACT_ERROR_MESSAGES: Record<AssociationsStoreErrorName, (args: readonly unknown[]) => string> = {
+  AssociationAlreadyExists: () =>
+    'This association is already stored onchain.',
+  AssociationAlreadyRevoked: () =>
+    'This association has already been revoked onchain.',
+  AssociationNotFound: () =>
+    'This association is not stored onchain.',
+  InvalidAssociation: () =>
+    'The contract rejected the association: a signature does not verify, or the validity window is invalid.',
+  UnauthorizedRevocation: () =>
+    'Only the initiator or approver of an association can revoke it. Connect one of their wallets.',
+  InteroperableAddressParsingError: ([address]) =>
+    `The contract could not parse the ERC-7930 address ${address as Hex}.`,
+  UnsupportedChainType: ([chainType]) =>
+    `The contract does not support accounts on chain type ${chainType as Hex}.`,
+  UnsupportedKeyType: ([keyType]) =>
+    `The contract cannot verify signatures of key type ${keyType as Hex}. Store this association in the database instead.`,
+}
+
+function isAssociationsStoreError(name: string): name is AssociationsStoreErrorName {
+  return Object.prototype.hasOwnProperty.call(CONTRACT_ERROR_MESSAGES, name)
+}
+
+// User rejections surface with different wording across wallets
+function isUserRejection(message: string): boolean {
+  const msg = message.toLowerCase()
+  return msg.includes('user rejected') || msg.includes('user denied') || msg.includes('rejected the request')
+}
+
+/**
+ * Name of the custom error a contract call reverted with, if any.
+ */
+export function getContractErrorName(error: unknown): string | null {
+  return getRevertData(error)?.errorName ?? null
+}
+
+function getRevertData(error: unknown): ContractFunctionRevertedError['data'] | null {
+  if (!(error instanceof BaseError)) return null
+  const reverted = error.walk((err) => err instanceof ContractFunctionRevertedError)
+  return reverted instanceof ContractFunctionRevertedError ? reverted.data ?? null : null
+}
+
+/**
+ * Describe a failed simulation or transaction for display.
+ */
+export function describeContractError(error: unknown): string {
+  const revert = getRevertData(error)
+  if (revert) {
+    return isAssociationsStoreError(revert.errorName)
+      ? CONTRACT_ERROR_MESSAGES[revert.errorName](revert.args ?? [])
+      : `The contract rejected the call with ${revert.errorName}.`
+  }
+
+  const message = error instanceof BaseError ? error.shortMessage : error instanceof Error ? error.message : String(error)
+  if (isUserRejection(message)) {
+    return 'User rejected the transaction'
+  }
+  return message
+}
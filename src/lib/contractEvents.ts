@@ -0,0 +1,135 @@
+import { type Address, type Hex, type Log, decodeEventLog, isAddressEqual } from 'viem'
+import { associationsStoreAbi } from './contracts'
+import type { AssociatedAccountRecord, SignedAssociationRecord } from './types'
+
+/**
+ * Decoding of AssociationsStore events, shared by the revocation hook and the indexer.
+ */
+
+// SignedAssociationRecord as returned by the contract (ABI tuple)
+export interface ContractSignedAssociationRecord {
+  revokedAt: number | bigint
+  initiatorKeyType: Hex
+  approverKeyType: Hex
+  initiatorSignature: Hex
+  approverSignature: Hex
+  record: {
+    initiator: Hex
+    approver: Hex
+    validAt: number | bigint
+    validUntil: number | bigint
+    interfaceId: Hex
+    data: Hex
+  }
+}
+
+export interface AssociationCreatedEvent {
+  eventName: 'AssociationCreated'
+  hash: Hex
+  aar: AssociatedAccountRecord
+  sar: SignedAssociationRecord
+}
+
+export interface AssociationRevokedEvent {
+  eventName: 'AssociationRevoked'
+  hash: Hex
+  /** keccak256 of the revoking party's ERC-7930 address */
+  revokedBy: Hex
+  /** Effective revocation time: max(block.timestamp, requested revokedAt) */
+  revokedAt: bigint
+}
+
+export type AssociationsStoreEvent = AssociationCreatedEvent | AssociationRevokedEvent
+
+// Log fields needed for decoding; transaction receipts and EIP-5792 call receipts both provide them
+export interface RawLog {
+  address: Address
+  data: Hex
+  topics: readonly Hex[]
+}
+
+/**
+ * Convert a contract SAR tuple to the app's AAR/SAR types.
+ */
+export function fromContractRecord(sar: ContractSignedAssociationRecord): {
+  aar: AssociatedAccountRecord
+  sar: SignedAssociationRecord
+} {
+  const aar: AssociatedAccountRecord = {
+    initiator: sar.record.initiator,
+    approver: sar.record.approver,
+    validAt: BigInt(sar.record.validAt),
+    validUntil: BigInt(sar.record.validUntil),
+    interfaceId: sar.record.interfaceId,
+    data: sar.record.data,
+  }
+  return {
+    aar,
+    sar: {
+      revokedAt: BigInt(sar.revokedAt),
+      initiatorKeyType: parseInt(sar.initiatorKeyType, 16),
+      approverKeyType: parseInt(sar.approverKeyType, 16),
+      initiatorSignature: sar.initiatorSignature,
+      approverSignature: sar.approverSignature,
+      record: aar,
+    },
+  }
+}
+
+/**
+ * Decode an AssociationsStore log. Returns null for logs of other events.
+ */
+export function decodeAssociationsStoreLog(log: Pick<RawLog, 'data' | 'topics'>): AssociationsStoreEvent | null {
+  let event
+  try {
+    event = decodeEventLog({ abi: associationsStoreAbi, data: log.data, topics: log.topics as Log['topics'] })
+  } catch {
+    return null
+  }
+
+  switch (event.eventName) {
+    case 'AssociationCreated':
+      return { eventName: event.eventName, hash: event.args.hash, ...fromContractRecord(event.args.sar) }
+    case 'AssociationRevoked':
+      return {
+        eventName: event.eventName,
+        hash: event.args.hash,
+        revokedBy: event.args.revokedBy,
+        revokedAt: event.args.revokedAt,
+      }
+  }
+}
+
+/**
+ * Find the AssociationRevoked event for `hash` among a transaction receipt's logs.
+ */
+export function findAssociationRevoked(
+  logs: readonly RawLog[],
+  contractAddress: Address,
+  hash: Hex
+): AssociationRevokedEvent | null {
+  for (const log of logs) {
+    if (!isAddressEqual(log.address, contractAddress)) continue
+    const event = decodeAssociationsStoreLog(log)
+    if (event?.eventName === 'AssociationRevoked' && event.hash.toLowerCase() === hash.toLowerCase()) {
+      return event
+    }
+  }
+  return null
+}
+
+/**
+ * AssociationCreated events of `contractAddress` among a transaction receipt's logs.
+ */
+export function findAssociationsCreated(
+  logs: readonly RawLog[],
+  contractAddress: Address
+): AssociationCreatedEvent[] {
+  const events: AssociationCreatedEvent[] = []
+  for (const log of logs) {
+    if (!isAddressEqual(log.address, contractAddress)) continue
+    const event = decodeAssociationsStoreLog(log)
+    if (event?.eventName === 'AssociationCreated') events.push(event)
+  }
+  return events
+}
@@ -159,6 +159,16 @@ export const associationsStoreAbi = [
     ],
     anonymous: false,
   },
+  {
+    type: 'event',
+    name: 'AssociationRevoked',
+    inputs: [
+      { name: 'hash', type: 'bytes32', indexed: true, internalType: 'bytes32' },
+      { name: 'revokedBy', type: 'bytes32', indexed: true, internalType: 'bytes32' },
+      { name: 'revokedAt', type: 'uint256', indexed: false, internalType: 'uint256' },
+    ],
+    anonymous: false,
+  },
   { type: 'error', name: 'AssociationAlreadyExists', inputs: [] },
   { type: 'error', name: 'AssociationAlreadyRevoked', inputs: [] },
   { type: 'error', name: 'AssociationNotFound', inputs: [] },
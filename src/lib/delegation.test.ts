@@ -0,0 +1,137 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { type Address, type Hex, concat, encodeAbiParameters, isAddressEqual } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { hashAssociation } from './eip712'
+import { ERC1271_MAGIC_VALUE } from './erc1271'
+import { decodeInteropAddress, encodeEvmAddress } from './erc7930'
+import {
+  DELEGATION_SCHEMAS,
+  createAuthorizedKeyDelegationVerifier,
+  createDefaultDelegationRegistry,
+  createDelegationRegistry,
+  createEip7702DelegationVerifier,
+  encodeDelegatedSignature,
+  verifyDelegatedSignature,
+} from './delegation'
+import { CHAIN_ID, testAddress, testRecord } from '@/test/fixtures'
+
+const aar = testRecord()
+const hash = hashAssociation(aar)
+const accountAddress = testAddress(1)
+const account = decodeInteropAddress(encodeEvmAddress(accountAddress, CHAIN_ID))
+const delegate = testAddress(0xd1)
+const registryAddress = testAddress(0xee)
+const key = privateKeyToAccount(`0x${'02'.repeat(32)}`)
+
+interface ChainOptions {
+  /** Code at the account: an EIP-7702 designator, contract code or none */
+  code?: Hex
+  /** Whether the account's isValidSignature accepts `proof` */
+  acceptsProof?: Hex
+  /** Signers the authorized-key registry reports for the account */
+  authorized?: Address[]
+}
+
+// The calls the delegation schemas make, answered from `options`
+function fakeChain(options: ChainOptions) {
+  return {
+    call: async () => undefined,
+    getCode: async () => options.code,
+    readContract: async (args: { address: Address; functionName: string; args: readonly unknown[] }) => {
+      if (args.functionName === 'isValidSignature') {
+        const [digest, proof] = args.args as [Hex, Hex]
+        return digest === hash && proof === options.acceptsProof ? ERC1271_MAGIC_VALUE : '0xffffffff'
+      }
+      if (args.functionName === 'isAuthorizedSigner' && isAddressEqual(args.address, registryAddress)) {
+        const [, signer] = args.args as [Address, Address]
+        return (options.authorized ?? []).some((authorized) => isAddressEqual(authorized, signer))
+      }
+      throw new Error(`Unexpected call ${args.functionName}`)
+    },
+  }
+}
+
+const designator = concat(['0xef0100', delegate])
+
+describe('delegation registry', () => {
+  it('fail closed on unknown schemas, a missing registry and throwing verifiers', async () => {
+    const signature = encodeDelegatedSignature({ schema: 'unknown', proof: '0x' })
+    assert.equal(await verifyDelegatedSignature(createDefaultDelegationRegistry(), account, aar, signature), false)
+    assert.equal(await verifyDelegatedSignature(undefined, account, aar, signature), false)
+
+    const registry = createDelegationRegistry()
+    registry.register('throws', async () => { throw new Error('boom') })
+    assert.equal(await verifyDelegatedSignature(registry, account, aar, encodeDelegatedSignature({ schema: 'throws', proof: '0x' })), false)
+  })
+
+  it('reject envelopes that are not ABI encoded', async () => {
+    assert.equal(await verifyDelegatedSignature(createDefaultDelegationRegistry(), account, aar, '0x1234'), false)
+  })
+
+  it('dispatch to the verifier registered for the schema', async () => {
+    const registry = createDelegationRegistry()
+    registry.register('custom', async (proof, context) => proof === '0x01' && context.hash === hash)
+    assert.deepEqual(registry.schemas(), ['custom'])
+    assert.equal(await verifyDelegatedSignature(registry, account, aar, encodeDelegatedSignature({ schema: 'custom', proof: '0x01' })), true)
+    assert.equal(await verifyDelegatedSignature(registry, account, aar, encodeDelegatedSignature({ schema: 'custom', proof: '0x02' })), false)
+  })
+})
+
+describe('eip7702 schema', () => {
+  const proof: Hex = '0xabcd'
+  const signature = encodeDelegatedSignature({ schema: DELEGATION_SCHEMAS.EIP7702, proof })
+  const registry = createDefaultDelegationRegistry()
+
+  it('accept a proof the delegate code validates', async () => {
+    const client = fakeChain({ code: designator, acceptsProof: proof })
+    assert.equal(await verifyDelegatedSignature(registry, account, aar, signature, client), true)
+  })
+
+  it('reject accounts without a delegation designator', async () => {
+    assert.equal(await verifyDelegatedSignature(registry, account, aar, signature, fakeChain({ acceptsProof: proof })), false)
+    assert.equal(await verifyDelegatedSignature(registry, account, aar, signature, fakeChain({ code: '0x6080', acceptsProof: proof })), false)
+  })
+
+  it('reject proofs the delegate code does not validate, and a missing client', async () => {
+    const client = fakeChain({ code: designator, acceptsProof: '0x01' })
+    assert.equal(await verifyDelegatedSignature(registry, account, aar, signature, client), false)
+    assert.equal(await verifyDelegatedSignature(registry, account, aar, signature), false)
+  })
+
+  it('reject delegates outside the allowlist', async () => {
+    const allowlisted = createDelegationRegistry()
+    allowlisted.register(DELEGATION_SCHEMAS.EIP7702, createEip7702DelegationVerifier([testAddress(0xd2)]))
+    const client = fakeChain({ code: designator, acceptsProof: proof })
+    assert.equal(await verifyDelegatedSignature(allowlisted, account, aar, signature, client), false)
+  })
+})
+
+describe('authorized-key schema', () => {
+  const registry = createDelegationRegistry()
+  registry.register(DELEGATION_SCHEMAS.AUTHORIZED_KEY, createAuthorizedKeyDelegationVerifier(registryAddress))
+
+  async function authorizedKeySignature(signer: Address, digest: Hex = hash): Promise<Hex> {
+    const proof = encodeAbiParameters(
+      [{ type: 'address' }, { type: 'bytes' }],
+      [signer, await key.sign({ hash: digest })]
+    )
+    return encodeDelegatedSignature({ schema: DELEGATION_SCHEMAS.AUTHORIZED_KEY, proof })
+  }
+
+  it('accept a signature by a key the registry authorizes', async () => {
+    const client = fakeChain({ authorized: [key.address] })
+    assert.equal(await verifyDelegatedSignature(registry, account, aar, await authorizedKeySignature(key.address), client), true)
+  })
+
+  it('reject keys the registry does not authorize', async () => {
+    const client = fakeChain({ authorized: [testAddress(3)] })
+    assert.equal(await verifyDelegatedSignature(registry, account, aar, await authorizedKeySignature(key.address), client), false)
+  })
+
+  it('reject a signature that does not recover to the named signer', async () => {
+    const client = fakeChain({ authorized: [key.address, testAddress(3)] })
+    assert.equal(await verifyDelegatedSignature(registry, account, aar, await authorizedKeySignature(testAddress(3)), client), false)
+    assert.equal(await verifyDelegatedSignature(registry, account, aar, await authorizedKeySignature(key.address, `0x${'00'.repeat(32)}`), client), false)
+  })
+})
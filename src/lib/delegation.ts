@@ -0,0 +1,197 @@
+import { type Address, type Hex, decodeAbiParameters, encodeAbiParameters, getAddress, isAddressEqual, recoverAddress, size, slice } from 'viem'
+import { hashAssociation } from './eip712'
+import { ERC1271_MAGIC_VALUE, erc1271Abi, type Erc1271Client } from './erc1271'
+import type { InteropAddress } from './erc7930'
+import type { AssociatedAccountRecord } from './types'
+
+/**
+ * Delegated auth (key type 0x0000)
+ *
+ * A Delegated signature defers authorization to an application-specific schema.
+ * The signature bytes are the ABI encoding of:
+ *
+ *   (string schema, bytes proof)
+ *
+ * `schema` identifies the delegation schema and `proof` is parsed by the verifier
+ * registered for it. Consumers without a verifier for the schema MUST treat the
+ * signature as invalid.
+ *
+ * Built-in schemas:
+ * - `eip7702`: the account is an EOA delegated via EIP-7702. `proof` is passed to
+ *   `isValidSignature(hash, proof)` on the account, which executes the delegate's code.
+ * - `authorized-key`: `proof` is `abi.encode(address signer, bytes signature)`. The
+ *   secp256k1 `signature` over the AAR hash must recover to `signer`, and a registry
+ *   contract must report `isAuthorizedSigner(account, signer) == true`.
+ */
+
+const DELEGATED_SIGNATURE_PARAMS = [
+  { name: 'schema', type: 'string' },
+  { name: 'proof', type: 'bytes' },
+] as const
+
+const AUTHORIZED_KEY_PROOF_PARAMS = [
+  { name: 'signer', type: 'address' },
+  { name: 'signature', type: 'bytes' },
+] as const
+
+// EIP-7702 delegation designator prefix (0xef0100 || delegate address)
+const EIP7702_DESIGNATOR_PREFIX = '0xef0100'
+
+export const DELEGATION_SCHEMAS = {
+  EIP7702: 'eip7702',
+  AUTHORIZED_KEY: 'authorized-key',
+} as const
+
+// Registry contract interface for the authorized-key schema
+export const authorizedSignerRegistryAbi = [
+  {
+    type: 'function',
+    name: 'isAuthorizedSigner',
+    inputs: [
+      { name: 'account', type: 'address', internalType: 'address' },
+      { name: 'signer', type: 'address', internalType: 'address' },
+    ],
+    outputs: [{ name: '', type: 'bool', internalType: 'bool' }],
+    stateMutability: 'view',
+  },
+] as const
+
+export interface DelegatedSignature {
+  schema: string
+  proof: Hex
+}
+
+export interface DelegationContext {
+  /** The account the Delegated signature claims to authenticate */
+  account: InteropAddress
+  aar: AssociatedAccountRecord
+  /** EIP-712 hash of the AAR */
+  hash: Hex
+  publicClient?: Erc1271Client
+  /** Block at which onchain state is read (latest if omitted) */
+  blockNumber?: bigint
+}
+
+export type DelegationVerifier = (proof: Hex, context: DelegationContext) => Promise<boolean>
+
+export interface DelegationRegistry {
+  /** Register (or replace) the verifier for a schema identifier */
+  register: (schema: string, verifier: DelegationVerifier) => void
+  /** Get the verifier for a schema identifier, if registered */
+  get: (schema: string) => DelegationVerifier | undefined
+  /** Registered schema identifiers */
+  schemas: () => string[]
+}
+
+export function createDelegationRegistry(): DelegationRegistry {
+  const verifiers = new Map<string, DelegationVerifier>()
+  return {
+    register: (schema, verifier) => {
+      verifiers.set(schema, verifier)
+    },
+    get: (schema) => verifiers.get(schema),
+    schemas: () => Array.from(verifiers.keys()),
+  }
+}
+
+export function encodeDelegatedSignature(signature: DelegatedSignature): Hex {
+  return encodeAbiParameters(DELEGATED_SIGNATURE_PARAMS, [signature.schema, signature.proof])
+}
+
+/**
+ * Decode a Delegated signature envelope. Returns null if it is not valid ABI.
+ */
+export function decodeDelegatedSignature(signature: Hex): DelegatedSignature | null {
+  try {
+    const [schema, proof] = decodeAbiParameters(DELEGATED_SIGNATURE_PARAMS, signature)
+    return { schema, proof }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Verify a Delegated signature by dispatching to the verifier registered for its schema.
+ * Fails closed: unknown schemas, a missing registry or a throwing verifier are all invalid.
+ */
+export async function verifyDelegatedSignature(
+  registry: DelegationRegistry | undefined,
+  account: InteropAddress,
+  aar: AssociatedAccountRecord,
+  signature: Hex,
+  publicClient?: Erc1271Client,
+  blockNumber?: bigint
+): Promise<boolean> {
+  const decoded = decodeDelegatedSignature(signature)
+  if (!decoded) return false
+
+  const verifier = registry?.get(decoded.schema)
+  if (!verifier) return false
+
+  try {
+    return await verifier(decoded.proof, { account, aar, hash: hashAssociation(aar), publicClient, blockNumber })
+  } catch {
+    return false
+  }
+}
+
+/**
+ * EIP-7702 delegate schema verifier.
+ * @param allowedDelegates - Optional allowlist of delegate implementations
+ */
+export function createEip7702DelegationVerifier(allowedDelegates?: Address[]): DelegationVerifier {
+  return async (proof, { account, hash, publicClient, blockNumber }) => {
+    if (!publicClient || account.chainType !== 'eip155' || !account.address) return false
+
+    const code = await publicClient.getCode({ address: account.address, blockNumber })
+    if (!code || size(code) !== 23 || !code.toLowerCase().startsWith(EIP7702_DESIGNATOR_PREFIX)) {
+      return false
+    }
+
+    const delegate = getAddress(slice(code, 3))
+    if (allowedDelegates && !allowedDelegates.some((allowed) => isAddressEqual(allowed, delegate))) {
+      return false
+    }
+
+    const result = await publicClient.readContract({
+      address: account.address,
+      abi: erc1271Abi,
+      functionName: 'isValidSignature',
+      args: [hash, proof],
+      blockNumber,
+    })
+    return result === ERC1271_MAGIC_VALUE
+  }
+}
+
+/**
+ * Authorized-key schema verifier backed by a registry contract.
+ * @param registryAddress - Contract implementing `isAuthorizedSigner(address,address)`
+ */
+export function createAuthorizedKeyDelegationVerifier(registryAddress: Address): DelegationVerifier {
+  return async (proof, { account, hash, publicClient, blockNumber }) => {
+    if (!publicClient || account.chainType !== 'eip155' || !account.address) return false
+
+    const [signer, signature] = decodeAbiParameters(AUTHORIZED_KEY_PROOF_PARAMS, proof)
+    const recovered = await recoverAddress({ hash, signature })
+    if (!isAddressEqual(recovered, signer)) return false
+
+    return await publicClient.readContract({
+      address: registryAddress,
+      abi: authorizedSignerRegistryAbi,
+      functionName: 'isAuthorizedSigner',
+      args: [account.address, signer],
+      blockNumber,
+    }) === true
+  }
+}
+
+/**
+ * Registry with the schemas this demo supports out of the box.
+ * Apps register additional schemas on the returned registry.
+ */
+export function createDefaultDelegationRegistry(): DelegationRegistry {
+  const registry = createDelegationRegistry()
+  registry.register(DELEGATION_SCHEMAS.EIP7702, createEip7702DelegationVerifier())
+  return registry
+}
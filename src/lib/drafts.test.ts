@@ -0,0 +1,125 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { hashAssociation } from './eip712'
+import {
+  DRAFTS_STORAGE_KEY,
+  DRAFT_TTL_MS,
+  type AssociationDraft,
+  type DraftStorage,
+  deleteDraft,
+  invalidateStaleSignatures,
+  isDraftExpired,
+  loadDrafts,
+  saveDraft,
+} from './drafts'
+import { testAssociation, testRecord } from '@/test/fixtures'
+
+const NOW = 1_700_000_000_000
+
+function memoryStorage(): DraftStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>()
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => { items.set(key, value) },
+  }
+}
+
+function testDraft(overrides: Partial<AssociationDraft> = {}, validUntil = 0n): AssociationDraft {
+  const { hash, aar, sar } = testAssociation({ validUntil })
+  return { hash, aar, sar, flowStep: 'sign-approver', storageMethod: 'onchain', updatedAt: NOW, ...overrides }
+}
+
+describe('draft storage', () => {
+  it('round-trip drafts, most recent first', () => {
+    const storage = memoryStorage()
+    const older = testDraft({ updatedAt: NOW - 1000 })
+    const newer = testDraft({ updatedAt: NOW }, 2_000_000_000n)
+    saveDraft(storage, older)
+    saveDraft(storage, newer)
+    assert.deepEqual(loadDrafts(storage, NOW), [newer, older])
+
+    deleteDraft(storage, newer.hash)
+    assert.deepEqual(loadDrafts(storage, NOW), [older])
+  })
+
+  it('treat unreadable storage as empty', () => {
+    const storage = memoryStorage()
+    storage.items.set(DRAFTS_STORAGE_KEY, '{not json')
+    assert.deepEqual(loadDrafts(storage, NOW), [])
+  })
+})
+
+describe('draft expiry', () => {
+  it('expire drafts untouched for the TTL', () => {
+    const draft = testDraft()
+    assert.equal(isDraftExpired(draft, NOW + DRAFT_TTL_MS), false)
+    assert.equal(isDraftExpired(draft, NOW + DRAFT_TTL_MS + 1), true)
+  })
+
+  it('expire drafts whose AAR is no longer valid', () => {
+    const draft = testDraft({}, BigInt(NOW / 1000))
+    assert.equal(isDraftExpired(draft, NOW - 1), false)
+    assert.equal(isDraftExpired(draft, NOW), true)
+  })
+
+  it('prune expired drafts when loading', () => {
+    const storage = memoryStorage()
+    const stale = testDraft({ updatedAt: NOW - DRAFT_TTL_MS - 1 })
+    const fresh = testDraft({}, 2_000_000_000n)
+    saveDraft(storage, stale)
+    saveDraft(storage, fresh)
+    assert.deepEqual(loadDrafts(storage, NOW), [fresh])
+    assert.deepEqual(Object.keys(JSON.parse(storage.items.get(DRAFTS_STORAGE_KEY)!)), [fresh.hash])
+  })
+})
+
+describe('draft integrity', () => {
+  it('prune drafts stored under a hash that does not match their AAR', () => {
+    const storage = memoryStorage()
+    const draft = testDraft()
+    saveDraft(storage, draft)
+    // An AAR edited in storage no longer hashes to its key
+    const all = JSON.parse(storage.items.get(DRAFTS_STORAGE_KEY)!)
+    all[draft.hash].aar.data = '0x01'
+    storage.items.set(DRAFTS_STORAGE_KEY, JSON.stringify(all))
+
+    assert.deepEqual(loadDrafts(storage, NOW), [])
+    assert.deepEqual(JSON.parse(storage.items.get(DRAFTS_STORAGE_KEY)!), {})
+  })
+
+  it('prune malformed drafts', () => {
+    const storage = memoryStorage()
+    const draft = testDraft()
+    saveDraft(storage, draft)
+    const all = JSON.parse(storage.items.get(DRAFTS_STORAGE_KEY)!)
+    all[draft.hash].aar.validAt = 'soon'
+    storage.items.set(DRAFTS_STORAGE_KEY, JSON.stringify(all))
+
+    assert.deepEqual(loadDrafts(storage, NOW), [])
+  })
+})
+
+describe('invalidateStaleSignatures', () => {
+  const { aar, sar } = testAssociation()
+
+  it('keep signatures over the same AAR', () => {
+    assert.equal(invalidateStaleSignatures(testRecord(), sar), sar)
+  })
+
+  it('clear signatures over an edited AAR', () => {
+    const edited = testRecord({ data: '0x01' })
+    const cleared = invalidateStaleSignatures(edited, sar)
+    assert.equal(cleared.initiatorSignature, '0x')
+    assert.equal(cleared.approverSignature, '0x')
+    assert.equal(cleared.initiatorKeyType, 0)
+    assert.equal(cleared.approverKeyType, 0)
+    assert.equal(hashAssociation(cleared.record), hashAssociation(edited))
+    assert.notEqual(hashAssociation(cleared.record), hashAssociation(aar))
+  })
+
+  it('leave unsigned records alone', () => {
+    const unsigned = { ...sar, initiatorSignature: '0x' as const, approverSignature: '0x' as const }
+    assert.equal(invalidateStaleSignatures(testRecord({ data: '0x01' }), unsigned), unsigned)
+  })
+})
@@ -0,0 +1,165 @@
+import type { Hex } from 'viem'
+import { hashAssociation } from './eip712'
+import type { AssociatedAccountRecord, FlowStep, SignedAssociationRecord, StorageStrategy } from './types'
+
+/**
+ * Resumable association drafts
+ *
+ * An association in progress (AAR, partially signed SAR, flow step and storage
+ * method) is kept in localStorage under its AAR hash, so a reload or a wallet
+ * deep link that reopens the tab can pick up where the flow stopped.
+ */
+
+// localStorage key holding all drafts, by AAR hash
+export const DRAFTS_STORAGE_KEY = 'erc8092.drafts'
+
+// Drafts not touched for this long are dropped (ms)
+export const DRAFT_TTL_MS = 24 * 60 * 60 * 1000
+
+// Steps worth resuming: the AAR exists but the association is not stored yet
+export const DRAFT_STEPS: readonly FlowStep[] = ['sign-initiator', 'connect-approver', 'sign-approver', 'store-association']
+
+export interface AssociationDraft {
+  /** EIP-712 hash of the AAR */
+  hash: Hex
+  aar: AssociatedAccountRecord
+  sar: SignedAssociationRecord
+  flowStep: FlowStep
+  storageMethod: StorageStrategy
+  /** Last change (ms since epoch) */
+  updatedAt: number
+}
+
+// JSON form of a draft, integers as decimal strings
+interface SerializedDraft {
+  hash: Hex
+  aar: Omit<AssociatedAccountRecord, 'validAt' | 'validUntil'> & { validAt: string; validUntil: string }
+  sar: Omit<SignedAssociationRecord, 'revokedAt' | 'record'> & { revokedAt: string }
+  flowStep: FlowStep
+  storageMethod: StorageStrategy
+  updatedAt: number
+}
+
+// The subset of Storage used here
+export type DraftStorage = Pick<Storage, 'getItem' | 'setItem'>
+
+function serializeDraft({ hash, aar, sar, flowStep, storageMethod, updatedAt }: AssociationDraft): SerializedDraft {
+  return {
+    hash,
+    aar: { ...aar, validAt: aar.validAt.toString(), validUntil: aar.validUntil.toString() },
+    // The SAR's record is the AAR itself, so it is not stored twice
+    sar: {
+      revokedAt: sar.revokedAt.toString(),
+      initiatorKeyType: sar.initiatorKeyType,
+      approverKeyType: sar.approverKeyType,
+      initiatorSignature: sar.initiatorSignature,
+      approverSignature: sar.approverSignature,
+    },
+    flowStep,
+    storageMethod,
+    updatedAt,
+  }
+}
+
+function parseDraft(value: SerializedDraft): AssociationDraft {
+  const aar: AssociatedAccountRecord = {
+    ...value.aar,
+    validAt: BigInt(value.aar.validAt),
+    validUntil: BigInt(value.aar.validUntil),
+  }
+  return {
+    hash: value.hash,
+    aar,
+    sar: { ...value.sar, revokedAt: BigInt(value.sar.revokedAt), record: aar },
+    flowStep: value.flowStep,
+    storageMethod: value.storageMethod,
+    updatedAt: value.updatedAt,
+  }
+}
+
+function readAll(storage: DraftStorage): Record<string, SerializedDraft> {
+  try {
+    const stored = storage.getItem(DRAFTS_STORAGE_KEY)
+    return stored ? JSON.parse(stored) as Record<string, SerializedDraft> : {}
+  } catch {
+    // Unreadable storage is treated as empty
+    return {}
+  }
+}
+
+/**
+ * Whether a draft can no longer be completed: untouched for DRAFT_TTL_MS, or its AAR has expired.
+ */
+export function isDraftExpired(draft: AssociationDraft, now: number = Date.now()): boolean {
+  if (now - draft.updatedAt > DRAFT_TTL_MS) return true
+  return draft.aar.validUntil !== 0n && draft.aar.validUntil * 1000n <= BigInt(now)
+}
+
+/**
+ * Load unexpired drafts, most recent first. Expired and malformed drafts are removed.
+ */
+export function loadDrafts(storage: DraftStorage, now: number = Date.now()): AssociationDraft[] {
+  const all = readAll(storage)
+  const drafts: AssociationDraft[] = []
+  const kept: Record<string, SerializedDraft> = {}
+  for (const [hash, value] of Object.entries(all)) {
+    let draft: AssociationDraft
+    try {
+      draft = parseDraft(value)
+    } catch {
+      continue
+    }
+    // A draft stored under the wrong hash has an AAR that was edited outside the app
+    if (isDraftExpired(draft, now) || hashAssociation(draft.aar) !== hash) continue
+    drafts.push(draft)
+    kept[hash] = value
+  }
+  if (Object.keys(kept).length !== Object.keys(all).length) {
+    storage.setItem(DRAFTS_STORAGE_KEY, JSON.stringify(kept))
+  }
+  return drafts.sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export function saveDraft(storage: DraftStorage, draft: AssociationDraft): void {
+  const all = readAll(storage)
+  all[draft.hash] = serializeDraft(draft)
+  storage.setItem(DRAFTS_STORAGE_KEY, JSON.stringify(all))
+}
+
+export function deleteDraft(storage: DraftStorage, hash: Hex): void {
+  const all = readAll(storage)
+  if (!(hash in all)) return
+  delete all[hash]
+  storage.setItem(DRAFTS_STORAGE_KEY, JSON.stringify(all))
+}
+
+/**
+ * Whether a draft is signed by both parties and only waits to be stored onchain,
+ * so it can go into a batch with others.
+ */
+export function isDraftReadyToStore(draft: AssociationDraft): boolean {
+  return draft.flowStep === 'store-association' &&
+    draft.storageMethod === 'onchain' &&
+    draft.sar.initiatorSignature !== '0x' &&
+    draft.sar.approverSignature !== '0x'
+}
+
+/**
+ * Clear signatures made over a different AAR. Signatures commit to the AAR hash,
+ * so editing any AAR field invalidates them. Returns the SAR unchanged if still valid.
+ */
+export function invalidateStaleSignatures(
+  aar: AssociatedAccountRecord,
+  sar: SignedAssociationRecord
+): SignedAssociationRecord {
+  const hasSignatures = sar.initiatorSignature !== '0x' || sar.approverSignature !== '0x'
+  if (!hasSignatures || hashAssociation(sar.record) === hashAssociation(aar)) return sar
+  return {
+    ...sar,
+    initiatorKeyType: 0,
+    approverKeyType: 0,
+    initiatorSignature: '0x',
+    approverSignature: '0x',
+    record: aar,
+  }
+}
@@ -0,0 +1,30 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { base58 } from '@scure/base'
+import { createEd25519Signer, verifyEd25519Signature } from './ed25519'
+import { testRecord } from '@/test/fixtures'
+
+const signer = createEd25519Signer(`0x${'01'.repeat(32)}`)
+const aar = testRecord()
+
+describe('verifyEd25519Signature', () => {
+  it('verify a signature from the local signer', () => {
+    assert.equal(verifyEd25519Signature(signer.address, aar, signer.signAssociation(aar)), true)
+  })
+
+  it('reject a signature for a different address', () => {
+    const other = createEd25519Signer()
+    assert.equal(verifyEd25519Signature(other.address, aar, signer.signAssociation(aar)), false)
+  })
+
+  it('reject a signature for another record', () => {
+    assert.equal(verifyEd25519Signature(signer.address, aar, signer.signAssociation(testRecord({ validUntil: 1n }))), false)
+  })
+
+  it('reject an address that is not a 32-byte public key', () => {
+    const publicKey = base58.decode(signer.address)
+    const signature = signer.signAssociation(aar)
+    assert.equal(verifyEd25519Signature(base58.encode(publicKey.slice(0, 31)), aar, signature), false)
+    assert.equal(verifyEd25519Signature('not-base58-0OIl', aar, signature), false)
+  })
+})
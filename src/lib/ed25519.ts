@@ -0,0 +1,69 @@
+import { type Hex, bytesToHex, hexToBytes, size } from 'viem'
+import { ed25519 } from '@noble/curves/ed25519'
+import { base58 } from '@scure/base'
+import { hashAssociation } from './eip712'
+import type { AssociatedAccountRecord } from './types'
+
+/**
+ * Ed25519 (EdDSA, key type 0x0004) signatures
+ *
+ * The signature is the raw 64-byte Ed25519 signature over the 32-byte EIP-712
+ * hash of the AAR. The public key is the signer's ERC-7930 address itself,
+ * so only Solana (32-byte public key) addresses can sign with this key type.
+ */
+
+export const ED25519_SIGNATURE_LENGTH = 64
+
+/**
+ * Verify an Ed25519 signature over the EIP-712 hash of an AAR.
+ * @param address - Base58 encoded Solana address (the Ed25519 public key)
+ */
+export function verifyEd25519Signature(
+  address: string,
+  aar: AssociatedAccountRecord,
+  signature: Hex
+): boolean {
+  return verifyEd25519HashSignature(address, hashAssociation(aar), signature)
+}
+
+/**
+ * Verify an Ed25519 signature over any 32-byte EIP-712 digest (e.g. a revocation request).
+ * @param address - Base58 encoded Solana address (the Ed25519 public key)
+ */
+export function verifyEd25519HashSignature(
+  address: string,
+  hash: Hex,
+  signature: Hex
+): boolean {
+  if (size(signature) !== ED25519_SIGNATURE_LENGTH) return false
+
+  try {
+    return ed25519.verify(
+      hexToBytes(signature),
+      hexToBytes(hash),
+      base58.decode(address)
+    )
+  } catch {
+    // Malformed public key or signature
+    return false
+  }
+}
+
+/**
+ * Local Ed25519 signer for testing and scripting.
+ * Generates a random key if none is provided.
+ */
+export function createEd25519Signer(privateKey?: Hex) {
+  const secret = privateKey ? hexToBytes(privateKey) : ed25519.utils.randomPrivateKey()
+
+  const signHash = (hash: Hex): Hex => bytesToHex(ed25519.sign(hexToBytes(hash), secret))
+
+  return {
+    privateKey: bytesToHex(secret),
+    address: base58.encode(ed25519.getPublicKey(secret)),
+    /** Sign a 32-byte digest */
+    signHash,
+    /** Sign the EIP-712 hash of the AAR */
+    signAssociation: (aar: AssociatedAccountRecord): Hex => signHash(hashAssociation(aar)),
+  }
+}
@@ -1,3 +1,4 @@
+import { type Hex, hashTypedData } from 'viem'
 import type { AssociatedAccountRecord } from './types'
 
 // EIP-712 Domain for Associated Accounts (from ERC-8092 spec)
@@ -40,3 +41,16 @@ export function getTypedDataForAAR(aar: AssociatedAccountRecord) {
   }
 }
 
+// Compute the EIP-712 hash of an AAR (the digest every key type signs)
+export function hashAssociation(aar: AssociatedAccountRecord): Hex {
+  return hashTypedData({
+    domain: EIP712_DOMAIN,
+    types: ASSOCIATED_ACCOUNT_RECORD_TYPES,
+    primaryType: 'AssociatedAccountRecord',
+    message: {
+      ...aarToEip712Message(aar),
+      validAt: Number(aar.validAt),
+      validUntil: Number(aar.validUntil),
+    },
+  })
+}
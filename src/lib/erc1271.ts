@@ -1,5 +1,5 @@
-import { type Address, type Hex, hashTypedData, getAddress } from 'viem'
-import { EIP712_DOMAIN, ASSOCIATED_ACCOUNT_RECORD_TYPES } from './eip712'
+import { type Address, type Hex, getAddress } from 'viem'
+import { hashAssociation } from './eip712'
 import type { AssociatedAccountRecord } from './types'
 
 // ERC-1271 magic value returned for valid signatures
@@ -14,9 +14,14 @@ export interface Erc1271Client {
   readContract: (args: any) => Promise<any>
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   call: (args: any) => Promise<any>
-  getCode: (args: { address: Address }) => Promise<Hex | undefined>
+  getCode: (args: { address: Address; blockNumber?: bigint }) => Promise<Hex | undefined>
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   verifyTypedData?: (args: any) => Promise<boolean>
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  verifyHash?: (args: any) => Promise<boolean>
+  /** Used to resolve block numbers/tags when validating as of a past block */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  getBlock?: (args: any) => Promise<{ number: bigint | null; timestamp: bigint }>
 }
 
 // ERC-1271 ABI for isValidSignature
@@ -48,34 +53,37 @@ export async function isSmartContract(
 /**
  * Validate a signature using ERC-1271's isValidSignature.
  * Used for smart contract wallets that implement the ERC-1271 interface.
+ * @param blockNumber - Evaluate the call at this block (latest if omitted)
  */
 export async function verifyErc1271Signature(
   client: Erc1271Client,
   contractAddress: Address,
   aar: AssociatedAccountRecord,
-  signature: Hex
+  signature: Hex,
+  blockNumber?: bigint
 ): Promise<boolean> {
   // Compute the EIP-712 hash of the AAR
-  const hash = hashTypedData({
-    domain: EIP712_DOMAIN,
-    types: ASSOCIATED_ACCOUNT_RECORD_TYPES,
-    primaryType: 'AssociatedAccountRecord',
-    message: {
-      initiator: aar.initiator,
-      approver: aar.approver,
-      validAt: Number(aar.validAt),
-      validUntil: Number(aar.validUntil),
-      interfaceId: aar.interfaceId,
-      data: aar.data,
-    },
-  })
+  return verifyErc1271HashSignature(client, contractAddress, hashAssociation(aar), signature, blockNumber)
+}
 
+/**
+ * Validate a signature over an arbitrary digest (e.g. a revocation request) using isValidSignature.
+ * @param blockNumber - Evaluate the call at this block (latest if omitted)
+ */
+export async function verifyErc1271HashSignature(
+  client: Erc1271Client,
+  contractAddress: Address,
+  hash: Hex,
+  signature: Hex,
+  blockNumber?: bigint
+): Promise<boolean> {
   try {
     const result = await client.readContract({
       address: getAddress(contractAddress),
       abi: erc1271Abi,
       functionName: 'isValidSignature',
       args: [hash, signature],
+      blockNumber,
     })
 
     return result === ERC1271_MAGIC_VALUE
@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { type Hex, concat } from 'viem'
+import {
+  CHAIN_TYPES,
+  ERC7930_VERSION,
+  InteroperableAddressParsingError,
+  UnsupportedChainType,
+  decodeInteropAddress,
+  encodeEvmAddress,
+  encodeInteropAddress,
+  encodeSolanaAddress,
+  extractAddress,
+  isInteropEvmAccount,
+} from './erc7930'
+import { CHAIN_ID, testAddress } from '@/test/fixtures'
+
+const SOLANA_ADDRESS = '11111111111111111111111111111112'
+
+// Version 1, eip155, chain reference of `chainReference`, 20-byte address
+function evmBytes(chainReference: Hex): Hex {
+  const length = (chainReference.length - 2) / 2
+  return concat(['0x0001', CHAIN_TYPES.eip155, `0x${length.toString(16).padStart(2, '0')}`, chainReference, '0x14', testAddress(1)])
+}
+
+describe('ERC-7930 round-trips', () => {
+  it('round-trip an EVM address', () => {
+    const bytes = encodeEvmAddress(testAddress(1), CHAIN_ID)
+    const decoded = decodeInteropAddress(bytes)
+    assert.equal(decoded.chainType, 'eip155')
+    assert.equal(decoded.chainType === 'eip155' && decoded.chainId, CHAIN_ID)
+    assert.equal(extractAddress(bytes), testAddress(1))
+    assert.equal(encodeInteropAddress(decoded), bytes)
+  })
+
+  it('round-trip a Solana address', () => {
+    const bytes = encodeSolanaAddress(SOLANA_ADDRESS)
+    const decoded = decodeInteropAddress(bytes)
+    assert.equal(decoded.chainType, 'solana')
+    assert.equal(decoded.address, SOLANA_ADDRESS)
+    assert.equal(encodeInteropAddress(decoded), bytes)
+  })
+
+  it('round-trip a bitcoin address without a chain reference', () => {
+    const interop = { version: ERC7930_VERSION, chainType: 'bip122', chainReference: '0x', address: 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq' } as const
+    assert.deepEqual(decodeInteropAddress(encodeInteropAddress(interop)), interop)
+  })
+
+  it('omit the chain reference of an EVM address', () => {
+    const bytes = encodeInteropAddress({ version: ERC7930_VERSION, chainType: 'eip155', chainReference: '0x', chainId: null, address: testAddress(1) })
+    assert.equal(isInteropEvmAccount(bytes, testAddress(1), CHAIN_ID), true)
+  })
+})
+
+describe('ERC-7930 malformed input', () => {
+  it('reject input shorter than the header', () => {
+    assert.throws(() => decodeInteropAddress('0x00010000'), InteroperableAddressParsingError)
+  })
+
+  it('reject truncated input', () => {
+    const bytes = encodeEvmAddress(testAddress(1), CHAIN_ID)
+    assert.throws(() => decodeInteropAddress(bytes.slice(0, -2) as Hex), InteroperableAddressParsingError)
+    // Chain reference length past the end of the input
+    assert.throws(() => decodeInteropAddress('0x000100002001'), InteroperableAddressParsingError)
+  })
+
+  it('reject length mismatches', () => {
+    const bytes = encodeEvmAddress(testAddress(1), CHAIN_ID)
+    assert.throws(() => decodeInteropAddress(concat([bytes, '0x00'])), InteroperableAddressParsingError)
+    // 19-byte address declared as 20
+    assert.throws(() => decodeInteropAddress(concat(['0x000100000114', testAddress(1)]).slice(0, -2) as Hex), InteroperableAddressParsingError)
+  })
+
+  it('reject unknown versions and chain types', () => {
+    assert.throws(() => decodeInteropAddress(concat(['0x0002', encodeEvmAddress(testAddress(1), CHAIN_ID).slice(6) as Hex])), InteroperableAddressParsingError)
+    assert.throws(() => decodeInteropAddress('0x00010009010100'), UnsupportedChainType)
+  })
+
+  it('reject chain IDs beyond the safe integer range', () => {
+    const bytes = evmBytes('0x0100000000000000')
+    assert.throws(() => decodeInteropAddress(bytes), InteroperableAddressParsingError)
+    assert.throws(() => extractAddress(bytes), InteroperableAddressParsingError)
+    assert.equal(isInteropEvmAccount(bytes, testAddress(1), CHAIN_ID), false)
+    assert.throws(() => decodeInteropAddress(evmBytes(`0x${'01'.repeat(33)}`)), InteroperableAddressParsingError)
+  })
+
+  it('accept the largest safe chain ID', () => {
+    const decoded = decodeInteropAddress(evmBytes('0x1fffffffffffff'))
+    assert.equal(decoded.chainType === 'eip155' && decoded.chainId, Number.MAX_SAFE_INTEGER)
+  })
+})
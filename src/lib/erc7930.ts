@@ -1,17 +1,284 @@
-import { type Hex } from 'viem'
+import { type Address, type Hex, concat, getAddress, hexToBigInt, hexToBytes, hexToNumber, hexToString, isHex, numberToBytes, numberToHex, size, slice, stringToHex, toHex } from 'viem'
+import { base58 } from '@scure/base'
 
 /**
- * Extract the EVM address from ERC-7930 binary representation.
- * ERC-7930 format ends with the 20-byte address for EVM chains.
+ * ERC-7930 Interoperable Addresses (binary representation)
+ *
+ * Layout:
+ * | Version (2) | ChainType (2) | ChainReferenceLength (1) | ChainReference (n) | AddressLength (1) | Address (m) |
+ *
+ * Either the chain reference or the address may be omitted by setting its length to zero.
+ * See: https://eips.ethereum.org/EIPS/eip-7930
+ */
+
+export const ERC7930_VERSION = 1
+
+// CAIP-350 binary chain type identifiers
+export const CHAIN_TYPES = {
+  eip155: '0x0000',
+  solana: '0x0002',
+  bip122: '0x0003',
+} as const satisfies Record<string, Hex>
+
+export type ChainTypeName = keyof typeof CHAIN_TYPES
+
+interface InteropAddressFields {
+  version: number
+  /** Raw chain reference bytes ('0x' when omitted) */
+  chainReference: Hex
+}
+
+export interface Eip155InteropAddress extends InteropAddressFields {
+  chainType: 'eip155'
+  /** EIP-155 chain ID, null when the chain reference is omitted */
+  chainId: number | null
+  /** Checksummed 20-byte address, null when the address is omitted */
+  address: Address | null
+}
+
+export interface SolanaInteropAddress extends InteropAddressFields {
+  chainType: 'solana'
+  /** Base58 encoded 32-byte public key, null when the address is omitted */
+  address: string | null
+}
+
+export interface Bip122InteropAddress extends InteropAddressFields {
+  chainType: 'bip122'
+  /** Address text (base58check or bech32), null when the address is omitted */
+  address: string | null
+}
+
+export type InteropAddress = Eip155InteropAddress | SolanaInteropAddress | Bip122InteropAddress
+
+/**
+ * Thrown when bytes do not form a well-formed ERC-7930 address.
+ * Mirrors the AssociationsStore contract's `InteroperableAddressParsingError(bytes)`.
+ */
+export class InteroperableAddressParsingError extends Error {
+  readonly data: Hex
+
+  constructor(data: Hex, reason: string) {
+    super(`Invalid ERC-7930 address ${data}: ${reason}`)
+    this.name = 'InteroperableAddressParsingError'
+    this.data = data
+  }
+}
+
+/**
+ * Thrown when an ERC-7930 address uses a chain type this library cannot interpret.
+ * Mirrors the AssociationsStore contract's `UnsupportedChainType(bytes2)`.
+ */
+export class UnsupportedChainType extends Error {
+  readonly chainType: Hex
+
+  constructor(chainType: Hex) {
+    super(`Unsupported ERC-7930 chain type ${chainType}`)
+    this.name = 'UnsupportedChainType'
+    this.chainType = chainType
+  }
+}
+
+/**
+ * Decode the ERC-7930 binary representation into a typed InteropAddress.
+ * Throws InteroperableAddressParsingError or UnsupportedChainType.
+ */
+export function decodeInteropAddress(bytes: Hex): InteropAddress {
+  if (!isHex(bytes, { strict: true })) {
+    throw new InteroperableAddressParsingError(bytes, 'not a hex string')
+  }
+  if (size(bytes) < 6) {
+    throw new InteroperableAddressParsingError(bytes, 'shorter than the 6-byte header')
+  }
+
+  const version = hexToNumber(slice(bytes, 0, 2))
+  if (version !== ERC7930_VERSION) {
+    throw new InteroperableAddressParsingError(bytes, `unknown version ${version}`)
+  }
+
+  const chainTypeId = slice(bytes, 2, 4)
+  const chainReferenceLength = hexToNumber(slice(bytes, 4, 5))
+  const addressLengthOffset = 5 + chainReferenceLength
+  if (size(bytes) < addressLengthOffset + 1) {
+    throw new InteroperableAddressParsingError(bytes, 'chain reference length exceeds input')
+  }
+
+  const chainReference = chainReferenceLength > 0 ? slice(bytes, 5, addressLengthOffset) : '0x'
+  const addressLength = hexToNumber(slice(bytes, addressLengthOffset, addressLengthOffset + 1))
+  const addressOffset = addressLengthOffset + 1
+  if (size(bytes) !== addressOffset + addressLength) {
+    throw new InteroperableAddressParsingError(bytes, 'address length does not match input')
+  }
+  if (chainReferenceLength === 0 && addressLength === 0) {
+    throw new InteroperableAddressParsingError(bytes, 'both chain reference and address are empty')
+  }
+
+  const address = addressLength > 0 ? slice(bytes, addressOffset) : null
+
+  switch (chainTypeId) {
+    case CHAIN_TYPES.eip155: {
+      if (address !== null && addressLength !== 20) {
+        throw new InteroperableAddressParsingError(bytes, `eip155 address must be 20 bytes, got ${addressLength}`)
+      }
+      if (chainReferenceLength > 32) {
+        throw new InteroperableAddressParsingError(bytes, 'eip155 chain reference exceeds 32 bytes')
+      }
+      // Chain IDs are numbers throughout the app (viem, wagmi), so larger ones cannot be represented
+      if (chainReferenceLength > 0 && hexToBigInt(chainReference) > BigInt(Number.MAX_SAFE_INTEGER)) {
+        throw new InteroperableAddressParsingError(bytes, 'eip155 chain ID exceeds the safe integer range')
+      }
+      return {
+        version,
+        chainType: 'eip155',
+        chainReference,
+        chainId: chainReferenceLength > 0 ? hexToNumber(chainReference) : null,
+        address: address ? getAddress(address) : null,
+      }
+    }
+    case CHAIN_TYPES.solana: {
+      if (address !== null && addressLength !== 32) {
+        throw new InteroperableAddressParsingError(bytes, `solana address must be 32 bytes, got ${addressLength}`)
+      }
+      return {
+        version,
+        chainType: 'solana',
+        chainReference,
+        address: address ? base58.encode(hexToBytes(address)) : null,
+      }
+    }
+    case CHAIN_TYPES.bip122: {
+      return {
+        version,
+        chainType: 'bip122',
+        chainReference,
+        address: address ? hexToString(address) : null,
+      }
+    }
+    default:
+      throw new UnsupportedChainType(chainTypeId)
+  }
+}
+
+/**
+ * Encode a typed InteropAddress into its ERC-7930 binary representation.
+ */
+export function encodeInteropAddress(interop: InteropAddress): Hex {
+  let address: Hex = '0x'
+  if (interop.address !== null) {
+    switch (interop.chainType) {
+      case 'eip155':
+        address = getAddress(interop.address).toLowerCase() as Hex
+        break
+      case 'solana':
+        address = toHex(base58.decode(interop.address))
+        break
+      case 'bip122':
+        address = stringToHex(interop.address)
+        break
+    }
+  }
+
+  const chainReference = interop.chainType === 'eip155' && interop.chainId !== null
+    ? toHex(numberToBytes(interop.chainId))
+    : interop.chainReference
+
+  // Round-trip through the decoder so encoded output is always well-formed
+  const bytes = concat([
+    numberToHex(interop.version, { size: 2 }),
+    CHAIN_TYPES[interop.chainType],
+    numberToHex(size(chainReference), { size: 1 }),
+    chainReference,
+    numberToHex(size(address), { size: 1 }),
+    address,
+  ])
+  decodeInteropAddress(bytes)
+  return bytes
+}
+
+/**
+ * Encode an EVM address on an EIP-155 chain.
+ */
+export function encodeEvmAddress(address: Address, chainId: number): Hex {
+  return encodeInteropAddress({
+    version: ERC7930_VERSION,
+    chainType: 'eip155',
+    chainReference: '0x',
+    chainId,
+    address,
+  })
+}
+
+// CAIP-2 chain references for Solana clusters (truncated genesis hashes)
+export const SOLANA_CHAIN_REFERENCES = {
+  mainnet: '5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp',
+  devnet: 'EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
+} as const
+
+/**
+ * Check whether text is a base58 encoded 32-byte Solana public key.
+ */
+export function isSolanaAddress(address: string): boolean {
+  try {
+    return base58.decode(address).length === 32
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Encode a Solana address on a Solana cluster (devnet by default, alongside Base Sepolia).
+ */
+export function encodeSolanaAddress(
+  address: string,
+  cluster: keyof typeof SOLANA_CHAIN_REFERENCES = 'devnet'
+): Hex {
+  return encodeInteropAddress({
+    version: ERC7930_VERSION,
+    chainType: 'solana',
+    chainReference: toHex(base58.decode(SOLANA_CHAIN_REFERENCES[cluster])),
+    address,
+  })
+}
+
+/**
+ * Canonical account identifier for an InteropAddress, used as the database
+ * key and graph node ID. EVM addresses are lowercased; other chain types keep
+ * their case-sensitive text form.
+ */
+export function toAccountKey(interop: InteropAddress): string {
+  if (interop.address === null) {
+    throw new InteroperableAddressParsingError(encodeInteropAddress(interop), 'address is empty')
+  }
+  return interop.chainType === 'eip155' ? interop.address.toLowerCase() : interop.address
+}
+
+/**
+ * Extract the account identifier from ERC-7930 binary representation.
+ * Throws if the bytes are not a well-formed interoperable address.
  */
 export function extractAddress(erc7930Bytes: Hex): string {
-  // Remove 0x prefix, get last 40 chars (20 bytes = address)
-  const hex = erc7930Bytes.slice(2)
-  if (hex.length >= 40) {
-    const address = '0x' + hex.slice(-40)
-    return address.toLowerCase()
+  return toAccountKey(decodeInteropAddress(erc7930Bytes))
+}
+
+/**
+ * Whether ERC-7930 bytes identify the EVM account `address` on `chainId`.
+ * An omitted chain reference matches any chain; malformed bytes match nothing.
+ */
+export function isInteropEvmAccount(erc7930Bytes: Hex, address: Address, chainId: number): boolean {
+  try {
+    const interop = decodeInteropAddress(erc7930Bytes)
+    return interop.chainType === 'eip155' &&
+      interop.address !== null &&
+      interop.address.toLowerCase() === address.toLowerCase() &&
+      (interop.chainId === null || interop.chainId === chainId)
+  } catch (err) {
+    if (isInteropAddressError(err)) return false
+    throw err
   }
-  // Fallback: assume it's already a raw address
-  return erc7930Bytes.toLowerCase()
 }
 
+/**
+ * Check whether an error was raised by the ERC-7930 codec.
+ */
+export function isInteropAddressError(error: unknown): error is InteroperableAddressParsingError | UnsupportedChainType {
+  return error instanceof InteroperableAddressParsingError || error instanceof UnsupportedChainType
+}
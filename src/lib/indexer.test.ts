@@ -0,0 +1,147 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { type Hex, type Log, encodeAbiParameters, encodeEventTopics, getAbiItem, keccak256, toHex } from 'viem'
+import { testAssociation } from '@/test/fixtures'
+import { storeAssociationCall } from './associationCalls'
+import { ASSOCIATIONS_STORE_ADDRESS, associationsStoreAbi } from './contracts'
+import { createIndexer, ReorgTooDeepError, type IndexerClient } from './indexer'
+import { createMemoryAssociationStore, createPgliteAssociationStore, isSuperseded, type AssociationStore, type NewAssociation } from './store'
+
+type EventLog = Pick<Log, 'data' | 'topics'>
+
+function associationCreated({ hash, aar, sar }: NewAssociation): EventLog {
+  const event = getAbiItem({ abi: associationsStoreAbi, name: 'AssociationCreated' })
+  return {
+    topics: encodeEventTopics({
+      abi: associationsStoreAbi,
+      eventName: 'AssociationCreated',
+      args: { hash, initiator: keccak256(aar.initiator), approver: keccak256(aar.approver) },
+    }) as Log['topics'],
+    data: encodeAbiParameters(event.inputs.filter((input) => !input.indexed), [storeAssociationCall(aar, sar).args[0]]),
+  }
+}
+
+function associationRevoked(hash: Hex, revokedAt: bigint): EventLog {
+  return {
+    topics: encodeEventTopics({
+      abi: associationsStoreAbi,
+      eventName: 'AssociationRevoked',
+      args: { hash, revokedBy: keccak256('0x01') },
+    }) as Log['topics'],
+    data: encodeAbiParameters([{ type: 'uint256' }], [revokedAt]),
+  }
+}
+
+/**
+ * A chain of blocks with AssociationsStore logs. Blocks mined after a reorg get
+ * different hashes, as another fork's would.
+ */
+function createFakeChain() {
+  const blocks: { hash: Hex; logs: Log[] }[] = []
+  let fork = 0
+  const getLogsCalls: { fromBlock: bigint; toBlock: bigint }[] = []
+
+  const mine = (...events: EventLog[]) => {
+    const number = BigInt(blocks.length)
+    const hash = keccak256(toHex(`${fork}:${number}`))
+    blocks.push({
+      hash,
+      logs: events.map((event, logIndex) => ({
+        ...event,
+        address: ASSOCIATIONS_STORE_ADDRESS,
+        blockHash: hash,
+        blockNumber: number,
+        logIndex,
+        transactionHash: keccak256(toHex(`${fork}:${number}:${logIndex}`)),
+        transactionIndex: 0,
+        removed: false,
+      })),
+    })
+  }
+
+  // Drop blocks from `blockNumber` on; the next mined blocks belong to a new fork
+  const reorg = (blockNumber: bigint) => {
+    blocks.length = Number(blockNumber)
+    fork++
+  }
+
+  const client: IndexerClient = {
+    getBlockNumber: async () => BigInt(blocks.length - 1),
+    getBlock: async ({ blockNumber }) => ({ number: blockNumber, hash: blocks[Number(blockNumber)].hash }),
+    getLogs: async ({ fromBlock, toBlock }) => {
+      getLogsCalls.push({ fromBlock, toBlock })
+      return blocks.slice(Number(fromBlock), Number(toBlock) + 1).flatMap((block) => block.logs)
+    },
+  }
+
+  return { client, mine, reorg, getLogsCalls }
+}
+
+const BACKENDS: [string, () => AssociationStore][] = [
+  ['memory', createMemoryAssociationStore],
+  ['pglite', () => createPgliteAssociationStore()],
+]
+
+for (const [name, createStore] of BACKENDS) {
+  describe(`indexer on the ${name} store`, () => {
+    it('resume from the checkpoint', async () => {
+      const store = createStore()
+      const chain = createFakeChain()
+      const association = testAssociation()
+      chain.mine()
+      chain.mine(associationCreated(association))
+      chain.mine()
+      const indexer = createIndexer({ client: chain.client, store, address: ASSOCIATIONS_STORE_ADDRESS, startBlock: 0n, confirmations: 2, batchSize: 2 })
+
+      assert.deepEqual(await indexer.runOnce(), { checkpoint: 2n, created: 1, revoked: 0, rolledBackTo: null })
+      assert.equal((await store.getByHash(association.hash))?.source, 'onchain')
+
+      chain.mine(associationRevoked(association.hash, 500n))
+      chain.getLogsCalls.length = 0
+      assert.deepEqual(await indexer.runOnce(), { checkpoint: 3n, created: 0, revoked: 1, rolledBackTo: null })
+      assert.deepEqual(chain.getLogsCalls, [{ fromBlock: 3n, toBlock: 3n }])
+      assert.equal((await store.getByHash(association.hash))?.revoked_at, '500')
+    })
+
+    it('roll back associations, revocations and supersessions above a reorg', async () => {
+      const store = createStore()
+      const chain = createFakeChain()
+      const created = testAssociation({ validAt: 1n })
+      const superseded = testAssociation({ validAt: 2n })
+      const onchainOnly = testAssociation({ validAt: 3n })
+      await store.insert(superseded)
+
+      chain.mine(associationCreated(created))
+      chain.mine(associationCreated(superseded))
+      chain.mine(associationCreated(onchainOnly), associationRevoked(created.hash, 500n))
+      const indexer = createIndexer({ client: chain.client, store, address: ASSOCIATIONS_STORE_ADDRESS, startBlock: 0n, confirmations: 10 })
+      assert.equal((await indexer.runOnce()).created, 3)
+      assert.equal(isSuperseded((await store.getByHash(superseded.hash))!), true)
+      assert.equal((await store.getByHash(created.hash))?.revoked_at, '500')
+
+      // Blocks 1 and 2 are replaced by empty ones
+      chain.reorg(1n)
+      chain.mine()
+      chain.mine()
+      assert.deepEqual(await indexer.runOnce(), { checkpoint: 2n, created: 0, revoked: 0, rolledBackTo: 0n })
+
+      assert.equal((await store.getByHash(created.hash))?.revoked_at, null)
+      assert.equal(await store.getByHash(onchainOnly.hash), null)
+      const offchain = (await store.getByHash(superseded.hash))!
+      assert.equal(offchain.source, 'offchain')
+      assert.equal(isSuperseded(offchain), false)
+    })
+
+    it('fail on a reorg below the kept blocks', async () => {
+      const store = createStore()
+      const chain = createFakeChain()
+      for (let i = 0; i < 6; i++) chain.mine()
+      const indexer = createIndexer({ client: chain.client, store, address: ASSOCIATIONS_STORE_ADDRESS, startBlock: 0n, confirmations: 2 })
+      await indexer.runOnce()
+
+      chain.reorg(2n)
+      for (let i = 0; i < 4; i++) chain.mine()
+      await assert.rejects(indexer.runOnce(), ReorgTooDeepError)
+    })
+  })
+}
@@ -0,0 +1,210 @@
+import { type Address, type Hex, type Log } from 'viem'
+import { decodeAssociationsStoreLog } from './contractEvents'
+import { extractAddress, isInteropAddressError } from './erc7930'
+import { hashAssociation } from './eip712'
+import { AssociationExistsError, type AssociationStore, type IndexedBlock } from './store'
+
+/**
+ * Onchain event indexer
+ *
+ * Mirrors the AssociationsStore contract into the association store: every
+ * `AssociationCreated` becomes an association with source 'onchain' (or supersedes
+ * the offchain copy of the same association) and every `AssociationRevoked` is
+ * recorded and applied to it.
+ *
+ * Blocks are indexed up to the chain head. Hashes of the last `confirmations`
+ * blocks are kept; when one no longer matches the chain, everything above the
+ * last matching block is rolled back and indexed again.
+ */
+
+/**
+ * Chain access the indexer needs. viem's PublicClient satisfies it; tests and
+ * local development can pass a stand-in.
+ */
+export interface IndexerClient {
+  getBlockNumber: () => Promise<bigint>
+  getBlock: (args: { blockNumber: bigint }) => Promise<{ number: bigint | null; hash: Hex | null }>
+  /** Raw logs of the contract in the block range */
+  getLogs: (args: { address: Address; fromBlock: bigint; toBlock: bigint }) => Promise<Log[]>
+}
+
+export interface IndexerOptions {
+  client: IndexerClient
+  store: AssociationStore
+  /** AssociationsStore contract to index */
+  address: Address
+  /** First block to index when there is no checkpoint */
+  startBlock: bigint
+  /** Blocks below head - confirmations are treated as final (default 12) */
+  confirmations?: number
+  /** Maximum block range per getLogs call (default 2000) */
+  batchSize?: number
+  log?: (message: string) => void
+}
+
+export interface IndexerRunResult {
+  /** Highest indexed block, null if nothing has been indexed */
+  checkpoint: bigint | null
+  created: number
+  revoked: number
+  /** Block the index was rolled back to, if a reorg was detected */
+  rolledBackTo: bigint | null
+}
+
+/**
+ * Thrown when the chain reorganized below the blocks whose hashes are kept.
+ */
+export class ReorgTooDeepError extends Error {
+  readonly blockNumber: bigint
+
+  constructor(blockNumber: bigint) {
+    super(`Reorg below block ${blockNumber}, deeper than the indexer's confirmation window`)
+    this.name = 'ReorgTooDeepError'
+    this.blockNumber = blockNumber
+  }
+}
+
+export interface Indexer {
+  /** Catch up to the current head once */
+  runOnce: () => Promise<IndexerRunResult>
+}
+
+export function createIndexer(options: IndexerOptions): Indexer {
+  const { client, store, address, startBlock } = options
+  const confirmations = BigInt(options.confirmations ?? 12)
+  const batchSize = BigInt(options.batchSize ?? 2000)
+  const log = options.log ?? (() => {})
+
+  const blockHash = async (blockNumber: bigint): Promise<Hex> => {
+    const block = await client.getBlock({ blockNumber })
+    if (!block.hash) throw new Error(`Block ${blockNumber} has no hash`)
+    return block.hash
+  }
+
+  /**
+   * Compare kept block hashes with the chain, newest first, and roll back above
+   * the highest one that still matches. Returns that block, or null if no reorg.
+   */
+  const detectReorg = async (blocks: IndexedBlock[]): Promise<bigint | null> => {
+    for (let i = blocks.length - 1; i >= 0; i--) {
+      const block = blocks[i]
+      if ((await blockHash(block.number)).toLowerCase() === block.hash.toLowerCase()) {
+        return i === blocks.length - 1 ? null : block.number
+      }
+    }
+    throw new ReorgTooDeepError(blocks[0].number)
+  }
+
+  const runOnce = async (): Promise<IndexerRunResult> => {
+    const result: IndexerRunResult = { checkpoint: null, created: 0, revoked: 0, rolledBackTo: null }
+
+    let blocks = await store.getIndexedBlocks()
+    if (blocks.length > 0) {
+      const forkPoint = await detectReorg(blocks)
+      if (forkPoint !== null) {
+        log(`Reorg detected, rolling back to block ${forkPoint}`)
+        await store.rollbackOnchain(forkPoint)
+        result.rolledBackTo = forkPoint
+        blocks = await store.getIndexedBlocks()
+      }
+    }
+
+    const checkpoint = blocks.length > 0 ? blocks[blocks.length - 1].number : null
+    result.checkpoint = checkpoint
+    const head = await client.getBlockNumber()
+    const unconfirmedFrom = head - confirmations + 1n
+
+    for (let fromBlock = checkpoint === null ? startBlock : checkpoint + 1n; fromBlock <= head; fromBlock += batchSize) {
+      const toBlock = fromBlock + batchSize - 1n < head ? fromBlock + batchSize - 1n : head
+      const logs: Log[] = await client.getLogs({ address, fromBlock, toBlock })
+
+      for (const entry of logs) {
+        const applied = await applyLog(store, entry, log)
+        if (applied === 'created') result.created++
+        if (applied === 'revoked') result.revoked++
+      }
+
+      // Keep hashes of unconfirmed blocks for reorg detection, and the batch end as the checkpoint
+      const kept: IndexedBlock[] = []
+      for (let n = fromBlock > unconfirmedFrom ? fromBlock : unconfirmedFrom; n < toBlock; n++) {
+        kept.push({ number: n, hash: await blockHash(n) })
+      }
+      kept.push({ number: toBlock, hash: await blockHash(toBlock) })
+      await store.saveIndexedBlocks(kept, unconfirmedFrom)
+
+      result.checkpoint = toBlock
+      log(`Indexed blocks ${fromBlock}-${toBlock} (${logs.length} logs)`)
+    }
+
+    return result
+  }
+
+  return { runOnce }
+}
+
+/**
+ * Decode a log and write it to the store. Returns which event was applied, if any.
+ */
+async function applyLog(
+  store: AssociationStore,
+  entry: Log,
+  log: (message: string) => void
+): Promise<'created' | 'revoked' | null> {
+  if (entry.blockNumber === null || entry.transactionHash === null || entry.logIndex === null) {
+    // Pending logs are not indexed
+    return null
+  }
+
+  const event = decodeAssociationsStoreLog(entry)
+  if (!event) {
+    // Not an event the indexer tracks
+    return null
+  }
+
+  if (event.eventName === 'AssociationCreated') {
+    const { aar, sar } = event
+
+    let initiatorAddress: string
+    let approverAddress: string
+    try {
+      initiatorAddress = extractAddress(aar.initiator)
+      approverAddress = extractAddress(aar.approver)
+    } catch (err) {
+      if (!isInteropAddressError(err)) throw err
+      log(`Skipping association ${event.hash}: ${err.message}`)
+      return null
+    }
+
+    const onchain = { blockNumber: entry.blockNumber, transactionHash: entry.transactionHash }
+    try {
+      await store.insert({
+        hash: hashAssociation(aar),
+        initiatorAddress,
+        approverAddress,
+        aar,
+        sar,
+        source: 'onchain',
+        onchain,
+      })
+    } catch (err) {
+      if (!(err instanceof AssociationExistsError)) throw err
+      // Already stored offchain (the onchain record supersedes it), or indexed before an interrupted checkpoint
+      await store.supersedeOffchain(err.hash, onchain)
+    }
+    return 'created'
+  }
+
+  if (event.eventName === 'AssociationRevoked') {
+    await store.recordOnchainRevocation({
+      hash: event.hash,
+      revokedBy: event.revokedBy,
+      revokedAt: event.revokedAt,
+      blockNumber: entry.blockNumber,
+      transactionHash: entry.transactionHash,
+      logIndex: entry.logIndex,
+    })
+    return 'revoked'
+  }
+
+  return null
+}
@@ -0,0 +1,139 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { privateKeyToAccount } from 'viem/accounts'
+import { hashAssociation } from './eip712'
+import { ERC6492_MAGIC_SUFFIX } from './erc6492'
+import { decodeInteropAddress, encodeEvmAddress } from './erc7930'
+import {
+  PROTOCOL_KEY_TYPE_FLAG,
+  canSignStoreRequests,
+  createDefaultKeyTypeRegistry,
+  createKeyTypeRegistry,
+  detectEvmKeyType,
+  formatKeyType,
+  protocolKeyType,
+  verifyKeyTypeHashSignature,
+  verifyKeyTypeSignature,
+} from './keyTypes'
+import { validateAssociation } from './validation'
+import { WebAuthnRpIdNotConfiguredError } from './webauthn'
+import { KEY_TYPES } from './types'
+import { CHAIN_ID, testAddress, testRecord } from '@/test/fixtures'
+
+const aar = testRecord()
+const account = decodeInteropAddress(aar.initiator)
+const PROTOCOL_KEY_TYPE = protocolKeyType(0x2a)
+
+describe('key type IDs', () => {
+  it('format key types as bytes2 hex', () => {
+    assert.equal(formatKeyType(KEY_TYPES.DELEGATED), '0x0000')
+    assert.equal(formatKeyType(KEY_TYPES.WEBAUTHN), '0x8001')
+    assert.equal(formatKeyType(0xffff), '0xffff')
+  })
+
+  it('build protocol-specific key types', () => {
+    assert.equal(protocolKeyType(0), PROTOCOL_KEY_TYPE_FLAG)
+    assert.equal(protocolKeyType(0x7fff), 0xffff)
+    assert.throws(() => protocolKeyType(0x8000))
+    assert.throws(() => protocolKeyType(-1))
+    assert.throws(() => protocolKeyType(1.5))
+  })
+
+  it('only register bytes2 key types', () => {
+    const registry = createKeyTypeRegistry()
+    const definition = { name: 'Test', method: 'test', verify: () => true }
+    assert.throws(() => registry.register(0x10000, definition))
+    assert.throws(() => registry.register(-1, definition))
+    registry.register(PROTOCOL_KEY_TYPE, definition)
+    assert.deepEqual(registry.keyTypes(), [PROTOCOL_KEY_TYPE])
+    assert.equal(registry.get(PROTOCOL_KEY_TYPE)?.keyType, PROTOCOL_KEY_TYPE)
+  })
+})
+
+describe('unsupported key types', () => {
+  it('report unregistered key types as unsupported', async () => {
+    const registry = createDefaultKeyTypeRegistry()
+    assert.equal(await verifyKeyTypeSignature(registry, PROTOCOL_KEY_TYPE, '0x01', { account, aar }), 'unsupported')
+    assert.equal(await verifyKeyTypeHashSignature(registry, PROTOCOL_KEY_TYPE, '0x01', { account, hash: hashAssociation(aar) }), 'unsupported')
+  })
+
+  it('report key types without a digest verifier as unsupported for requests', async () => {
+    const registry = createDefaultKeyTypeRegistry()
+    registry.register(PROTOCOL_KEY_TYPE, { name: 'Protocol', method: 'test', verify: () => true })
+    assert.equal(await verifyKeyTypeSignature(registry, PROTOCOL_KEY_TYPE, '0x01', { account, aar }), true)
+    assert.equal(await verifyKeyTypeHashSignature(registry, PROTOCOL_KEY_TYPE, '0x01', { account, hash: hashAssociation(aar) }), 'unsupported')
+    assert.equal(canSignStoreRequests(registry, PROTOCOL_KEY_TYPE), false)
+  })
+
+  it('fail validation with UnsupportedKeyType rather than InvalidSignature', async () => {
+    const result = await validateAssociation({
+      aar,
+      sar: { revokedAt: 0n, initiatorKeyType: PROTOCOL_KEY_TYPE, approverKeyType: KEY_TYPES.K1, initiatorSignature: '0x01', approverSignature: '0x', record: aar },
+      at: { timestamp: aar.validAt },
+    })
+    assert.equal(result.valid, false)
+    assert.equal(result.code, 'UnsupportedKeyType')
+  })
+
+  it('treat a throwing verifier as an invalid signature', async () => {
+    const registry = createKeyTypeRegistry()
+    registry.register(PROTOCOL_KEY_TYPE, {
+      name: 'Throws',
+      method: 'test',
+      verify: () => { throw new Error('boom') },
+      verifyHash: () => { throw new Error('boom') },
+    })
+    assert.equal(await verifyKeyTypeSignature(registry, PROTOCOL_KEY_TYPE, '0x01', { account, aar }), false)
+    assert.equal(await verifyKeyTypeHashSignature(registry, PROTOCOL_KEY_TYPE, '0x01', { account, hash: hashAssociation(aar) }), false)
+  })
+
+  it('surface a missing WebAuthn RP ID instead of an invalid signature', async () => {
+    const registry = createKeyTypeRegistry()
+    const unconfigured = () => { throw new WebAuthnRpIdNotConfiguredError() }
+    registry.register(PROTOCOL_KEY_TYPE, { name: 'Unconfigured', method: 'test', verify: unconfigured, verifyHash: unconfigured })
+    await assert.rejects(verifyKeyTypeSignature(registry, PROTOCOL_KEY_TYPE, '0x01', { account, aar }), WebAuthnRpIdNotConfiguredError)
+    await assert.rejects(verifyKeyTypeHashSignature(registry, PROTOCOL_KEY_TYPE, '0x01', { account, hash: hashAssociation(aar) }), WebAuthnRpIdNotConfiguredError)
+  })
+})
+
+describe('default registry', () => {
+  it('let every built-in key type sign requests to the store', () => {
+    const registry = createDefaultKeyTypeRegistry()
+    for (const keyType of Object.values(KEY_TYPES)) {
+      assert.equal(canSignStoreRequests(registry, keyType), true, formatKeyType(keyType))
+    }
+  })
+
+  it('verify K1 signatures of the AAR', async () => {
+    const signer = privateKeyToAccount(`0x${'01'.repeat(32)}`)
+    const record = testRecord({ initiator: encodeEvmAddress(signer.address, CHAIN_ID) })
+    const signature = await signer.sign({ hash: hashAssociation(record) })
+    const registry = createDefaultKeyTypeRegistry()
+    const party = decodeInteropAddress(record.initiator)
+    assert.equal(await verifyKeyTypeSignature(registry, KEY_TYPES.K1, signature, { account: party, aar: record }), true)
+    assert.equal(await verifyKeyTypeSignature(registry, KEY_TYPES.K1, signature, { account, aar: record }), false)
+  })
+})
+
+describe('detectEvmKeyType', () => {
+  const client = (code: `0x${string}` | undefined) => ({
+    call: async () => undefined,
+    readContract: async () => undefined,
+    getCode: async () => code,
+  })
+
+  it('detect ERC-6492 wrapped signatures', async () => {
+    assert.equal(await detectEvmKeyType(undefined, testAddress(1), `0x1234${ERC6492_MAGIC_SUFFIX.slice(2)}`), KEY_TYPES.ERC6492)
+  })
+
+  it('detect deployed smart wallets as ERC-1271 and EOAs as K1', async () => {
+    assert.equal(await detectEvmKeyType(client('0x6080'), testAddress(1), '0x01'), KEY_TYPES.ERC1271)
+    assert.equal(await detectEvmKeyType(client(undefined), testAddress(1), '0x01'), KEY_TYPES.K1)
+    assert.equal(await detectEvmKeyType(undefined, testAddress(1)), KEY_TYPES.K1)
+  })
+
+  it('fall back to K1 when the code lookup fails', async () => {
+    const failing = { ...client(undefined), getCode: async () => { throw new Error('RPC down') } }
+    assert.equal(await detectEvmKeyType(failing, testAddress(1), '0x01'), KEY_TYPES.K1)
+  })
+})
@@ -0,0 +1,371 @@
+import { type Address, type Hex, isAddressEqual, recoverAddress, verifyTypedData } from 'viem'
+import { getTypedDataForAAR, hashAssociation } from './eip712'
+import type { AssociatedAccountRecord } from './types'
+import { KEY_TYPES } from './types'
+import { isSmartContract, verifyErc1271HashSignature, verifyErc1271Signature, type Erc1271Client } from './erc1271'
+import { isErc6492Signature } from './erc6492'
+import { verifyP256HashSignature, verifyP256Signature } from './p256'
+import { verifyEd25519HashSignature, verifyEd25519Signature } from './ed25519'
+import { verifyBlsHashSignature, verifyBlsSignature } from './bls'
+import { createDefaultDelegationRegistry, createDelegationRegistry, verifyDelegatedSignature, type DelegationRegistry } from './delegation'
+import { WebAuthnRpIdNotConfiguredError, defaultWebAuthnRpId, verifyWebAuthnHashSignature, verifyWebAuthnSignature } from './webauthn'
+import type { InteropAddress } from './erc7930'
+
+/**
+ * Key type verifier registry
+ *
+ * Maps ERC-8092 key type IDs to the verifier that checks signatures of that type.
+ * Key types at or above 0x8000 are protocol-specific (`0x8000 | PROTOCOL_ID`), so
+ * integrators can register their own without touching the validation library.
+ */
+
+// Flag bit for protocol-specific key types
+export const PROTOCOL_KEY_TYPE_FLAG = 0x8000
+
+export interface KeyTypeVerifierContext {
+  /** The account the signature claims to authenticate */
+  account: InteropAddress
+  aar: AssociatedAccountRecord
+  /** EIP-712 hash of the AAR */
+  hash: Hex
+  publicClient?: Erc1271Client
+  /** Block at which contract calls are evaluated (latest if omitted) */
+  blockNumber?: bigint
+}
+
+export type KeyTypeVerifier = (signature: Hex, context: KeyTypeVerifierContext) => Promise<boolean> | boolean
+
+// Context for signatures over a digest other than the AAR, e.g. a revocation request
+export type KeyTypeHashVerifierContext = Omit<KeyTypeVerifierContext, 'aar'>
+
+export type KeyTypeHashVerifier = (signature: Hex, context: KeyTypeHashVerifierContext) => Promise<boolean> | boolean
+
+export interface KeyTypeDefinition {
+  /** Human readable name, e.g. 'K1' or 'ERC-1271' */
+  name: string
+  /** How signatures are checked, shown in validation reports */
+  method: string
+  verify: KeyTypeVerifier
+  /** Verify a signature over an arbitrary EIP-712 digest; key types without it can only sign AARs */
+  verifyHash?: KeyTypeHashVerifier
+}
+
+export interface KeyTypeRegistration extends KeyTypeDefinition {
+  keyType: number
+}
+
+export interface KeyTypeRegistry {
+  /** Register (or replace) the verifier for a key type ID */
+  register: (keyType: number, definition: KeyTypeDefinition) => void
+  /** Get the registration for a key type ID, if any */
+  get: (keyType: number) => KeyTypeRegistration | undefined
+  /** Registered key type IDs */
+  keyTypes: () => number[]
+}
+
+export function createKeyTypeRegistry(): KeyTypeRegistry {
+  const registrations = new Map<number, KeyTypeRegistration>()
+  return {
+    register: (keyType, definition) => {
+      if (!Number.isInteger(keyType) || keyType < 0 || keyType > 0xffff) {
+        throw new Error(`Key type must be a bytes2 value, got ${keyType}`)
+      }
+      registrations.set(keyType, { ...definition, keyType })
+    },
+    get: (keyType) => registrations.get(keyType),
+    keyTypes: () => Array.from(registrations.keys()),
+  }
+}
+
+/**
+ * Build a protocol-specific key type ID (`0x8000 | PROTOCOL_ID`).
+ */
+export function protocolKeyType(protocolId: number): number {
+  if (!Number.isInteger(protocolId) || protocolId < 0 || protocolId > 0x7fff) {
+    throw new Error(`Protocol ID must be between 0 and 0x7fff, got ${protocolId}`)
+  }
+  return PROTOCOL_KEY_TYPE_FLAG | protocolId
+}
+
+/**
+ * Format a key type ID as bytes2 hex, e.g. 0x8002.
+ */
+export function formatKeyType(keyType: number): Hex {
+  return `0x${keyType.toString(16).padStart(4, '0')}`
+}
+
+// The key types below authenticate an EVM account
+function evmAddress(account: InteropAddress): Address | null {
+  return account.chainType === 'eip155' ? account.address : null
+}
+
+// EIP-712 typed data for an AAR (EIP-712 signing uses Number for uint40 fields)
+function typedData(aar: AssociatedAccountRecord) {
+  const { message, ...rest } = getTypedDataForAAR(aar)
+  return {
+    ...rest,
+    message: { ...message, validAt: Number(aar.validAt), validUntil: Number(aar.validUntil) },
+  }
+}
+
+// K1 (secp256k1): Standard EOA signature
+const verifyK1: KeyTypeVerifier = async (signature, { account, aar }) => {
+  const address = evmAddress(account)
+  if (!address) return false
+  try {
+    return await verifyTypedData({ ...typedData(aar), address, signature })
+  } catch {
+    // Malformed signature
+    return false
+  }
+}
+
+// R1 (secp256r1): P-256 signature with the public key appended, see ./p256 for the encoding
+const verifyR1: KeyTypeVerifier = (signature, { account, aar }) => {
+  const address = evmAddress(account)
+  return address ? verifyP256Signature(address, aar, signature) : false
+}
+
+// BLS (BLS12-381): signature with the public key appended, see ./bls for the encoding
+const verifyBls: KeyTypeVerifier = (signature, { account, aar }) => {
+  const address = evmAddress(account)
+  return address ? verifyBlsSignature(address, aar, signature) : false
+}
+
+// EdDSA (Ed25519): the Solana address is the public key
+const verifyEdDSA: KeyTypeVerifier = (signature, { account, aar }) => {
+  if (account.chainType !== 'solana' || !account.address) return false
+  return verifyEd25519Signature(account.address, aar, signature)
+}
+
+// WebAuthn: passkey assertion over the AAR hash for the given RP ID, see ./webauthn for the envelope
+function createWebAuthnKeyTypeVerifier(rpId?: string): KeyTypeVerifier {
+  return (signature, { account, aar }) => {
+    const address = evmAddress(account)
+    return address ? verifyWebAuthnSignature(address, aar, signature, rpId ?? defaultWebAuthnRpId()) : false
+  }
+}
+
+function createWebAuthnKeyTypeHashVerifier(rpId?: string): KeyTypeHashVerifier {
+  return (signature, { account, hash }) => {
+    const address = evmAddress(account)
+    return address ? verifyWebAuthnHashSignature(address, hash, signature, rpId ?? defaultWebAuthnRpId()) : false
+  }
+}
+
+// ERC-1271: Smart contract wallet signature (deployed)
+const verifyErc1271: KeyTypeVerifier = (signature, { account, aar, publicClient, blockNumber }) => {
+  const address = evmAddress(account)
+  // Cannot validate ERC-1271 signature without a public client
+  if (!address || !publicClient) return false
+  return verifyErc1271Signature(publicClient, address, aar, signature, blockNumber)
+}
+
+// ERC-6492: Counterfactual smart contract wallet signature (undeployed)
+// Uses viem's built-in verifyTypedData which natively supports ERC-6492 signatures
+// by detecting the magic suffix and using the Universal Signature Validator
+const verifyErc6492: KeyTypeVerifier = async (signature, { account, aar, publicClient, blockNumber }) => {
+  const address = evmAddress(account)
+  // Cannot validate ERC-6492 signature without a public client with verifyTypedData
+  if (!address || !publicClient?.verifyTypedData) return false
+  try {
+    return await publicClient.verifyTypedData({ ...typedData(aar), address, signature, blockNumber })
+  } catch {
+    return false
+  }
+}
+
+// Digest verifiers, used for requests to the offchain store (revocations, rejections)
+
+const verifyK1Hash: KeyTypeHashVerifier = async (signature, { account, hash }) => {
+  const address = evmAddress(account)
+  if (!address) return false
+  try {
+    return isAddressEqual(await recoverAddress({ hash, signature }), address)
+  } catch {
+    // Malformed signature
+    return false
+  }
+}
+
+const verifyR1Hash: KeyTypeHashVerifier = (signature, { account, hash }) => {
+  const address = evmAddress(account)
+  return address ? verifyP256HashSignature(address, hash, signature) : false
+}
+
+const verifyBlsHash: KeyTypeHashVerifier = (signature, { account, hash }) => {
+  const address = evmAddress(account)
+  return address ? verifyBlsHashSignature(address, hash, signature) : false
+}
+
+const verifyEdDSAHash: KeyTypeHashVerifier = (signature, { account, hash }) => {
+  if (account.chainType !== 'solana' || !account.address) return false
+  return verifyEd25519HashSignature(account.address, hash, signature)
+}
+
+const verifyErc1271Hash: KeyTypeHashVerifier = (signature, { account, hash, publicClient, blockNumber }) => {
+  const address = evmAddress(account)
+  if (!address || !publicClient) return false
+  return verifyErc1271HashSignature(publicClient, address, hash, signature, blockNumber)
+}
+
+const verifyErc6492Hash: KeyTypeHashVerifier = async (signature, { account, hash, publicClient, blockNumber }) => {
+  const address = evmAddress(account)
+  if (!address || !publicClient?.verifyHash) return false
+  try {
+    return await publicClient.verifyHash({ address, hash, signature, blockNumber })
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Delegated (0x0000) verifier that dispatches to the schemas in a delegation registry.
+ */
+export function createDelegatedKeyTypeVerifier(delegationRegistry: DelegationRegistry): KeyTypeVerifier {
+  return (signature, { account, aar, publicClient, blockNumber }) =>
+    verifyDelegatedSignature(delegationRegistry, account, aar, signature, publicClient, blockNumber)
+}
+
+interface DefaultKeyTypeRegistryOptions {
+  /** Delegation schemas accepted for Delegated (0x0000) signatures; none are accepted if omitted */
+  delegationRegistry?: DelegationRegistry
+  /** RP ID that WebAuthn (0x8001) assertions must be made for; defaults to defaultWebAuthnRpId() */
+  webAuthnRpId?: string
+}
+
+/**
+ * Registry with every key type this demo supports out of the box.
+ * Apps register additional (e.g. protocol-specific) key types on the returned registry.
+ */
+export function createDefaultKeyTypeRegistry(options: DefaultKeyTypeRegistryOptions = {}): KeyTypeRegistry {
+  const registry = createKeyTypeRegistry()
+  registry.register(KEY_TYPES.DELEGATED, {
+    name: 'Delegated',
+    method: 'Delegation schema registry',
+    verify: createDelegatedKeyTypeVerifier(options.delegationRegistry ?? createDelegationRegistry()),
+  })
+  registry.register(KEY_TYPES.K1, { name: 'K1', method: 'EIP-712 ecrecover', verify: verifyK1, verifyHash: verifyK1Hash })
+  registry.register(KEY_TYPES.R1, {
+    name: 'R1',
+    method: 'P-256 with appended public key',
+    verify: verifyR1,
+    verifyHash: verifyR1Hash,
+  })
+  registry.register(KEY_TYPES.BLS, {
+    name: 'BLS',
+    method: 'BLS12-381 pairing with appended public key',
+    verify: verifyBls,
+    verifyHash: verifyBlsHash,
+  })
+  registry.register(KEY_TYPES.EdDSA, {
+    name: 'EdDSA',
+    method: 'Ed25519 against the Solana public key',
+    verify: verifyEdDSA,
+    verifyHash: verifyEdDSAHash,
+  })
+  registry.register(KEY_TYPES.WEBAUTHN, {
+    name: 'WebAuthn',
+    method: 'WebAuthn assertion (P-256)',
+    verify: createWebAuthnKeyTypeVerifier(options.webAuthnRpId),
+    verifyHash: createWebAuthnKeyTypeHashVerifier(options.webAuthnRpId),
+  })
+  registry.register(KEY_TYPES.ERC1271, {
+    name: 'ERC-1271',
+    method: 'isValidSignature call',
+    verify: verifyErc1271,
+    verifyHash: verifyErc1271Hash,
+  })
+  registry.register(KEY_TYPES.ERC6492, {
+    name: 'ERC-6492',
+    method: 'Universal signature validator',
+    verify: verifyErc6492,
+    verifyHash: verifyErc6492Hash,
+  })
+  return registry
+}
+
+/**
+ * Default registry with the delegation schemas accepted for Delegated (0x0000),
+ * shared by the API routes and the UI.
+ */
+export const defaultKeyTypeRegistry = createDefaultKeyTypeRegistry({
+  delegationRegistry: createDefaultDelegationRegistry(),
+})
+
+/**
+ * Verify a signature with the verifier registered for its key type.
+ * Returns 'unsupported' when no verifier is registered; a throwing verifier is invalid,
+ * except when the server has no WebAuthn RP ID configured.
+ */
+export async function verifyKeyTypeSignature(
+  registry: KeyTypeRegistry,
+  keyType: number,
+  signature: Hex,
+  context: Omit<KeyTypeVerifierContext, 'hash'>
+): Promise<boolean | 'unsupported'> {
+  const registration = registry.get(keyType)
+  if (!registration) return 'unsupported'
+
+  try {
+    return await registration.verify(signature, { ...context, hash: hashAssociation(context.aar) })
+  } catch (error) {
+    if (error instanceof WebAuthnRpIdNotConfiguredError) throw error
+    return false
+  }
+}
+
+/**
+ * Verify a signature over an arbitrary EIP-712 digest with the key type's `verifyHash`.
+ * Returns 'unsupported' when the key type has no registration or no digest verifier.
+ */
+export async function verifyKeyTypeHashSignature(
+  registry: KeyTypeRegistry,
+  keyType: number,
+  signature: Hex,
+  context: KeyTypeHashVerifierContext
+): Promise<boolean | 'unsupported'> {
+  const verifyHash = registry.get(keyType)?.verifyHash
+  if (!verifyHash) return 'unsupported'
+
+  try {
+    return await verifyHash(signature, context)
+  } catch (error) {
+    if (error instanceof WebAuthnRpIdNotConfiguredError) throw error
+    return false
+  }
+}
+
+/**
+ * Whether a party that signed an AAR with `keyType` can also sign requests to the
+ * offchain store, so it can revoke the association there as ERC-8092 requires.
+ * Delegated (0x0000) parties are EVM accounts, which sign requests as K1 or ERC-1271.
+ */
+export function canSignStoreRequests(registry: KeyTypeRegistry, keyType: number): boolean {
+  return keyType === KEY_TYPES.DELEGATED || !!registry.get(keyType)?.verifyHash
+}
+
+/**
+ * Key type of a signature produced by an EVM wallet:
+ * ERC-6492 if wrapped with the magic suffix (undeployed smart wallet),
+ * ERC-1271 if the address has bytecode (deployed smart wallet), K1 otherwise.
+ */
+export async function detectEvmKeyType(
+  client: Erc1271Client | undefined,
+  address: Address | undefined,
+  signature?: Hex
+): Promise<number> {
+  if (signature && isErc6492Signature(signature)) {
+    return KEY_TYPES.ERC6492
+  }
+  if (client && address) {
+    try {
+      if (await isSmartContract(client, address)) {
+        return KEY_TYPES.ERC1271
+      }
+    } catch {
+      // Ignore errors, fall through to K1
+    }
+  }
+  return KEY_TYPES.K1
+}
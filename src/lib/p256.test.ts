@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { type Hex, concat, numberToHex, hexToBigInt } from 'viem'
+import { p256 } from '@noble/curves/p256'
+import { hashAssociation } from './eip712'
+import { createP256Signer, decodeP256Signature, encodeP256Signature, verifyP256Digest, verifyP256Signature } from './p256'
+import { testRecord } from '@/test/fixtures'
+
+const signer = createP256Signer(`0x${'01'.repeat(32)}`)
+const aar = testRecord()
+
+describe('verifyP256Signature', () => {
+  it('verify a signature from the local signer', () => {
+    assert.equal(verifyP256Signature(signer.address, aar, signer.signAssociation(aar)), true)
+  })
+
+  it('accept the high-S form of a signature', () => {
+    const decoded = decodeP256Signature(signer.signAssociation(aar))!
+    const s = hexToBigInt(decoded.s)
+    // noble signs in low-S form; n - s is the other valid form
+    assert.ok(s <= p256.CURVE.n / 2n)
+    const highS = encodeP256Signature({ ...decoded, s: numberToHex(p256.CURVE.n - s, { size: 32 }) })
+    assert.equal(verifyP256Signature(signer.address, aar, highS), true)
+  })
+
+  it('reject a signature for another record', () => {
+    const signature = signer.signAssociation(testRecord({ validUntil: 1n }))
+    assert.equal(verifyP256Signature(signer.address, aar, signature), false)
+  })
+
+  it('reject a public key that does not match the address', () => {
+    const other = createP256Signer()
+    assert.equal(verifyP256Signature(signer.address, aar, other.signAssociation(aar)), false)
+
+    // The right address, but the signature was made by another key
+    const decoded = decodeP256Signature(other.signAssociation(aar))!
+    const swapped = encodeP256Signature({ ...decoded, ...signer.publicKey })
+    assert.equal(verifyP256Signature(signer.address, aar, swapped), false)
+  })
+
+  it('reject malformed envelopes', () => {
+    const signature = signer.signAssociation(aar)
+    assert.equal(verifyP256Signature(signer.address, aar, signature.slice(0, -2) as Hex), false)
+    assert.equal(verifyP256Signature(signer.address, aar, concat([signature, '0x00'])), false)
+    // A public key off the curve is invalid rather than an error
+    const decoded = decodeP256Signature(signature)!
+    const offCurve = { ...decoded, y: numberToHex(hexToBigInt(decoded.y) + 1n, { size: 32 }) }
+    assert.equal(verifyP256Digest(hashAssociation(aar), offCurve), false)
+  })
+})
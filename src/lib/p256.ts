@@ -0,0 +1,127 @@
+import { type Address, type Hex, bytesToHex, concat, getAddress, hexToBytes, isAddressEqual, keccak256, size, slice } from 'viem'
+import { p256 } from '@noble/curves/p256'
+import { hashAssociation } from './eip712'
+import type { AssociatedAccountRecord } from './types'
+
+/**
+ * secp256r1 (R1, key type 0x0002) signatures
+ *
+ * Signature encoding (128 bytes):
+ * | r (32) | s (32) | x (32) | y (32) |
+ *
+ * `r`/`s` are the ECDSA signature over the EIP-712 hash of the AAR (the hash
+ * itself is the message digest, it is not hashed again). Both low-S and high-S
+ * forms are accepted, as by the RIP-7212 precompile. `x`/`y` are the
+ * uncompressed public key coordinates of the signer.
+ *
+ * The signer's ERC-7930 address MUST be the EVM-style address of that public
+ * key: the last 20 bytes of keccak256(x || y).
+ */
+
+export const P256_SIGNATURE_LENGTH = 128
+
+export interface P256Signature {
+  r: Hex
+  s: Hex
+  /** Uncompressed public key coordinates */
+  x: Hex
+  y: Hex
+}
+
+/**
+ * Derive the account address bound to a P-256 public key.
+ */
+export function p256PublicKeyToAddress(x: Hex, y: Hex): Address {
+  return getAddress(slice(keccak256(concat([x, y])), 12))
+}
+
+export function encodeP256Signature(signature: P256Signature): Hex {
+  return concat([signature.r, signature.s, signature.x, signature.y])
+}
+
+/**
+ * Decode an R1 signature envelope. Returns null if the length is wrong.
+ */
+export function decodeP256Signature(signature: Hex): P256Signature | null {
+  if (size(signature) !== P256_SIGNATURE_LENGTH) return null
+  return {
+    r: slice(signature, 0, 32),
+    s: slice(signature, 32, 64),
+    x: slice(signature, 64, 96),
+    y: slice(signature, 96, 128),
+  }
+}
+
+/**
+ * Verify a raw P-256 signature over a 32-byte digest.
+ */
+export function verifyP256Digest(digest: Hex, signature: P256Signature): boolean {
+  try {
+    const publicKey = concat(['0x04', signature.x, signature.y])
+    return p256.verify(
+      hexToBytes(concat([signature.r, signature.s])),
+      hexToBytes(digest),
+      hexToBytes(publicKey),
+      { prehash: false, lowS: false }
+    )
+  } catch {
+    // Malformed signature or public key not on the curve
+    return false
+  }
+}
+
+/**
+ * Verify an R1 signature over the EIP-712 hash of an AAR for the given account.
+ */
+export function verifyP256Signature(
+  address: Address,
+  aar: AssociatedAccountRecord,
+  signature: Hex
+): boolean {
+  return verifyP256HashSignature(address, hashAssociation(aar), signature)
+}
+
+/**
+ * Verify an R1 signature over any 32-byte EIP-712 digest (e.g. a revocation request).
+ */
+export function verifyP256HashSignature(
+  address: Address,
+  hash: Hex,
+  signature: Hex
+): boolean {
+  const decoded = decodeP256Signature(signature)
+  if (!decoded) return false
+
+  if (!isAddressEqual(p256PublicKeyToAddress(decoded.x, decoded.y), address)) {
+    return false
+  }
+
+  return verifyP256Digest(hash, decoded)
+}
+
+/**
+ * Local P-256 signer for testing and scripting.
+ * Generates a random key if none is provided.
+ */
+export function createP256Signer(privateKey?: Hex) {
+  const secret = privateKey ? hexToBytes(privateKey) : p256.utils.randomPrivateKey()
+  const publicKey = p256.getPublicKey(secret, false)
+  const x = bytesToHex(publicKey.slice(1, 33))
+  const y = bytesToHex(publicKey.slice(33, 65))
+
+  const signHash = (hash: Hex): Hex => {
+    const sig = p256.sign(hexToBytes(hash), secret, { prehash: false })
+    const compact = bytesToHex(sig.toCompactRawBytes())
+    return encodeP256Signature({ r: slice(compact, 0, 32), s: slice(compact, 32, 64), x, y })
+  }
+
+  return {
+    privateKey: bytesToHex(secret),
+    publicKey: { x, y },
+    address: p256PublicKeyToAddress(x, y),
+    /** Sign a 32-byte digest and return the R1 signature envelope */
+    signHash,
+    /** Sign the EIP-712 hash of the AAR and return the R1 signature envelope */
+    signAssociation: (aar: AssociatedAccountRecord): Hex => signHash(hashAssociation(aar)),
+  }
+}
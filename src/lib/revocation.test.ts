@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { privateKeyToAccount } from 'viem/accounts'
+import { encodeEvmAddress, encodeSolanaAddress, decodeInteropAddress } from './erc7930'
+import { KEY_TYPES } from './types'
+import { createP256Signer } from './p256'
+import { createBlsSigner } from './bls'
+import { createEd25519Signer } from './ed25519'
+import {
+  createPendingRejection,
+  createRevocationRequest,
+  getTypedDataForPendingRejection,
+  getTypedDataForRevocation,
+  hashPendingRejection,
+  hashRevocationRequest,
+  parsePendingRejection,
+  serializePendingRejection,
+  verifyPendingRejectionSignature,
+  verifyRevocationSignature,
+} from './revocation'
+
+const CHAIN_ID = 84532
+const ORIGIN = 'https://store.example'
+const HASH = `0x${'ab'.repeat(32)}` as const
+const signer = privateKeyToAccount(`0x${'01'.repeat(32)}`)
+const account = decodeInteropAddress(encodeEvmAddress(signer.address, CHAIN_ID))
+
+describe('pending rejections', () => {
+  it('round-trip through JSON', () => {
+    const rejection = createPendingRejection(HASH, 1000n)
+    assert.deepEqual(parsePendingRejection(serializePendingRejection(rejection)), rejection)
+    assert.equal(parsePendingRejection({ ...serializePendingRejection(rejection), deadline: '-1' }), null)
+  })
+
+  it('verify only as rejections, not as revocations', async () => {
+    const rejection = createPendingRejection(HASH, 1000n)
+    const signature = await signer.signTypedData(getTypedDataForPendingRejection(rejection, CHAIN_ID, ORIGIN))
+    assert.equal(await verifyPendingRejectionSignature({ rejection, chainId: CHAIN_ID, storeOrigin: ORIGIN, account, keyType: KEY_TYPES.K1, signature }), true)
+
+    // The same fields signed as a revocation do not verify as a rejection, and the other way around
+    const revocation = { ...createRevocationRequest(HASH, 0n, 1000n), nonce: rejection.nonce, deadline: rejection.deadline }
+    assert.equal(await verifyRevocationSignature({ request: revocation, chainId: CHAIN_ID, storeOrigin: ORIGIN, account, keyType: KEY_TYPES.K1, signature }), false)
+    const revocationSignature = await signer.signTypedData(getTypedDataForRevocation(revocation, CHAIN_ID, ORIGIN))
+    assert.equal(await verifyPendingRejectionSignature({ rejection, chainId: CHAIN_ID, storeOrigin: ORIGIN, account, keyType: KEY_TYPES.K1, signature: revocationSignature }), false)
+  })
+})
+
+describe('store domain', () => {
+  it('reject requests signed for another deployment of the store', async () => {
+    const request = createRevocationRequest(HASH, 0n, 1000n)
+    const signature = await signer.signTypedData(getTypedDataForRevocation(request, CHAIN_ID, ORIGIN))
+    const verify = (storeOrigin: string) =>
+      verifyRevocationSignature({ request, chainId: CHAIN_ID, storeOrigin, account, keyType: KEY_TYPES.K1, signature })
+    assert.equal(await verify(`${ORIGIN}/api/associations`), true)
+    assert.equal(await verify('https://other.example'), false)
+    assert.equal(await verify('http://store.example'), false)
+  })
+})
+
+describe('non-EVM revocations', () => {
+  const request = createRevocationRequest(HASH, 0n, 1000n)
+  const hash = hashRevocationRequest(request, CHAIN_ID, ORIGIN)
+
+  it('verify revocations signed with R1 and BLS keys', async () => {
+    for (const [keyType, local] of [[KEY_TYPES.R1, createP256Signer()], [KEY_TYPES.BLS, createBlsSigner()]] as const) {
+      const party = decodeInteropAddress(encodeEvmAddress(local.address, CHAIN_ID))
+      const signature = local.signHash(hash)
+      assert.equal(await verifyRevocationSignature({ request, chainId: CHAIN_ID, storeOrigin: ORIGIN, account: party, keyType, signature }), true)
+      assert.equal(await verifyRevocationSignature({ request, chainId: CHAIN_ID, storeOrigin: ORIGIN, account, keyType, signature }), false)
+    }
+  })
+
+  it('verify revocations and rejections signed by a Solana account', async () => {
+    const solana = createEd25519Signer()
+    const party = decodeInteropAddress(encodeSolanaAddress(solana.address))
+    const signature = solana.signHash(hash)
+    assert.equal(await verifyRevocationSignature({ request, chainId: CHAIN_ID, storeOrigin: ORIGIN, account: party, keyType: KEY_TYPES.EdDSA, signature }), true)
+
+    const rejection = createPendingRejection(HASH, 1000n)
+    const rejectionSignature = solana.signHash(hashPendingRejection(rejection, CHAIN_ID, ORIGIN))
+    assert.equal(await verifyPendingRejectionSignature({ rejection, chainId: CHAIN_ID, storeOrigin: ORIGIN, account: party, keyType: KEY_TYPES.EdDSA, signature: rejectionSignature }), true)
+    assert.equal(await verifyPendingRejectionSignature({ rejection, chainId: CHAIN_ID, storeOrigin: ORIGIN, account: party, keyType: KEY_TYPES.EdDSA, signature }), false)
+  })
+})
@@ -0,0 +1,275 @@
+import { type Hex, hashTypedData, isHex, keccak256, size, stringToHex } from 'viem'
+import type { Erc1271Client } from './erc1271'
+import type { InteropAddress } from './erc7930'
+import { defaultKeyTypeRegistry, verifyKeyTypeHashSignature, type KeyTypeRegistry } from './keyTypes'
+
+/**
+ * Typed revocation requests for the offchain store
+ *
+ * A party revokes a stored association by signing a `RevocationRequest` under the
+ * store's EIP-712 domain. The domain's salt is derived from the origin the store is
+ * served from, so a request signed for one deployment is not valid on another that
+ * holds the same association. The nonce is consumed by the store, so a request can be
+ * submitted once; the deadline bounds how long an unsubmitted request stays usable.
+ *
+ * The approver of a pending association rejects it with a `PendingRejection` under
+ * the same domain. It is a distinct type with its own nonces, so a signed rejection
+ * can never be submitted as a revocation or the other way around.
+ *
+ * Signatures are checked with the key type registry's digest verifiers, so every
+ * built-in key type can revoke: EOAs (K1), smart wallets (ERC-1271, ERC-6492),
+ * R1 and BLS keys, passkeys (WebAuthn) and Solana accounts (EdDSA).
+ */
+
+// EIP-712 domain of the offchain store (distinct from the AssociatedAccounts record domain),
+// bound to a deployment by a salt derived from its origin
+export const REVOCATION_DOMAIN_NAME = 'AssociatedAccountsStore'
+export const REVOCATION_DOMAIN_VERSION = '1'
+
+export const REVOCATION_REQUEST_TYPES = {
+  RevocationRequest: [
+    { name: 'associationHash', type: 'bytes32' },
+    { name: 'revokedAt', type: 'uint40' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint40' },
+  ],
+} as const
+
+export const PENDING_REJECTION_TYPES = {
+  PendingRejection: [
+    { name: 'associationHash', type: 'bytes32' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint40' },
+  ],
+} as const
+
+// How long a signed request stays valid by default (seconds)
+export const DEFAULT_REVOCATION_DEADLINE = 600
+
+const MAX_UINT40 = (1n << 40n) - 1n
+
+export interface RevocationRequest {
+  /** EIP-712 hash of the AAR being revoked */
+  associationHash: Hex
+  /** Revocation timestamp (unix seconds) */
+  revokedAt: bigint
+  /** Single-use value chosen by the signer */
+  nonce: bigint
+  /** Unix seconds after which the store rejects the request */
+  deadline: bigint
+}
+
+// JSON form of a RevocationRequest, integers as decimal strings
+export interface SerializedRevocationRequest {
+  associationHash: Hex
+  revokedAt: string
+  nonce: string
+  deadline: string
+}
+
+export interface PendingRejection {
+  /** EIP-712 hash of the pending association's AAR */
+  associationHash: Hex
+  /** Single-use value chosen by the signer */
+  nonce: bigint
+  /** Unix seconds after which the store rejects the request */
+  deadline: bigint
+}
+
+// JSON form of a PendingRejection, integers as decimal strings
+export interface SerializedPendingRejection {
+  associationHash: Hex
+  nonce: string
+  deadline: string
+}
+
+/**
+ * Domain salt of the store served from `storeOrigin`, e.g. https://example.com.
+ */
+export function getStoreSalt(storeOrigin: string): Hex {
+  return keccak256(stringToHex(new URL(storeOrigin).origin))
+}
+
+export function getRevocationDomain(chainId: number, storeOrigin: string) {
+  return {
+    name: REVOCATION_DOMAIN_NAME,
+    version: REVOCATION_DOMAIN_VERSION,
+    chainId,
+    salt: getStoreSalt(storeOrigin),
+  } as const
+}
+
+// Get typed data for signing (EIP-712 signing uses Number for uint40 fields)
+export function getTypedDataForRevocation(request: RevocationRequest, chainId: number, storeOrigin: string) {
+  return {
+    domain: getRevocationDomain(chainId, storeOrigin),
+    types: REVOCATION_REQUEST_TYPES,
+    primaryType: 'RevocationRequest' as const,
+    message: {
+      associationHash: request.associationHash,
+      revokedAt: Number(request.revokedAt),
+      nonce: request.nonce,
+      deadline: Number(request.deadline),
+    },
+  }
+}
+
+export function hashRevocationRequest(request: RevocationRequest, chainId: number, storeOrigin: string): Hex {
+  return hashTypedData(getTypedDataForRevocation(request, chainId, storeOrigin))
+}
+
+export function getTypedDataForPendingRejection(rejection: PendingRejection, chainId: number, storeOrigin: string) {
+  return {
+    domain: getRevocationDomain(chainId, storeOrigin),
+    types: PENDING_REJECTION_TYPES,
+    primaryType: 'PendingRejection' as const,
+    message: {
+      associationHash: rejection.associationHash,
+      nonce: rejection.nonce,
+      deadline: Number(rejection.deadline),
+    },
+  }
+}
+
+export function hashPendingRejection(rejection: PendingRejection, chainId: number, storeOrigin: string): Hex {
+  return hashTypedData(getTypedDataForPendingRejection(rejection, chainId, storeOrigin))
+}
+
+function randomNonce(): bigint {
+  return crypto.getRandomValues(new Uint8Array(32))
+    .reduce((value, byte) => (value << 8n) | BigInt(byte), 0n)
+}
+
+/**
+ * Build a request for revoking `associationHash` at `revokedAt`, with a random nonce.
+ */
+export function createRevocationRequest(
+  associationHash: Hex,
+  revokedAt: bigint,
+  now: bigint = BigInt(Math.floor(Date.now() / 1000))
+): RevocationRequest {
+  return {
+    associationHash,
+    revokedAt,
+    nonce: randomNonce(),
+    deadline: now + BigInt(DEFAULT_REVOCATION_DEADLINE),
+  }
+}
+
+/**
+ * Build a rejection of the pending association `associationHash`, with a random nonce.
+ */
+export function createPendingRejection(
+  associationHash: Hex,
+  now: bigint = BigInt(Math.floor(Date.now() / 1000))
+): PendingRejection {
+  return {
+    associationHash,
+    nonce: randomNonce(),
+    deadline: now + BigInt(DEFAULT_REVOCATION_DEADLINE),
+  }
+}
+
+export function serializeRevocationRequest(request: RevocationRequest): SerializedRevocationRequest {
+  return {
+    associationHash: request.associationHash,
+    revokedAt: request.revokedAt.toString(),
+    nonce: request.nonce.toString(),
+    deadline: request.deadline.toString(),
+  }
+}
+
+/**
+ * Parse a serialized request. Returns null if a field is missing or out of range.
+ */
+export function parseRevocationRequest(value: Partial<SerializedRevocationRequest> | undefined): RevocationRequest | null {
+  if (!value) return null
+  const { associationHash, revokedAt, nonce, deadline } = value
+  if (!associationHash || !isHex(associationHash) || size(associationHash) !== 32) return null
+
+  const integers = [revokedAt, nonce, deadline]
+  if (!integers.every((field) => typeof field === 'string' && /^\d+$/.test(field))) return null
+
+  const request: RevocationRequest = {
+    associationHash: associationHash.toLowerCase() as Hex,
+    revokedAt: BigInt(revokedAt!),
+    nonce: BigInt(nonce!),
+    deadline: BigInt(deadline!),
+  }
+  if (request.revokedAt > MAX_UINT40 || request.deadline > MAX_UINT40 || request.nonce >= 1n << 256n) return null
+  return request
+}
+
+export function serializePendingRejection(rejection: PendingRejection): SerializedPendingRejection {
+  return {
+    associationHash: rejection.associationHash,
+    nonce: rejection.nonce.toString(),
+    deadline: rejection.deadline.toString(),
+  }
+}
+
+/**
+ * Parse a serialized rejection. Returns null if a field is missing or out of range.
+ */
+export function parsePendingRejection(value: Partial<SerializedPendingRejection> | undefined): PendingRejection | null {
+  if (!value) return null
+  const { associationHash, nonce, deadline } = value
+  if (!associationHash || !isHex(associationHash) || size(associationHash) !== 32) return null
+
+  const integers = [nonce, deadline]
+  if (!integers.every((field) => typeof field === 'string' && /^\d+$/.test(field))) return null
+
+  const rejection: PendingRejection = {
+    associationHash: associationHash.toLowerCase() as Hex,
+    nonce: BigInt(nonce!),
+    deadline: BigInt(deadline!),
+  }
+  if (rejection.deadline > MAX_UINT40 || rejection.nonce >= 1n << 256n) return null
+  return rejection
+}
+
+export interface RevocationSignatureInput {
+  request: RevocationRequest
+  /** Chain ID of the store's EIP-712 domain */
+  chainId: number
+  /** Origin the store is served from, which the domain's salt is derived from */
+  storeOrigin: string
+  /** The revoking party, decoded from the stored association */
+  account: InteropAddress
+  keyType: number
+  signature: Hex
+  /** Required for ERC-1271 and ERC-6492 signatures */
+  publicClient?: Erc1271Client
+  /** Verifiers by key type; defaults to defaultKeyTypeRegistry */
+  keyTypeRegistry?: KeyTypeRegistry
+}
+
+/**
+ * Verify a party's signature over a revocation request.
+ * Returns 'unsupported' for key types that cannot sign arbitrary digests.
+ */
+export function verifyRevocationSignature(input: RevocationSignatureInput): Promise<boolean | 'unsupported'> {
+  const { request, chainId, storeOrigin, account, keyType, signature, publicClient } = input
+  return verifyKeyTypeHashSignature(input.keyTypeRegistry ?? defaultKeyTypeRegistry, keyType, signature, {
+    account,
+    hash: hashRevocationRequest(request, chainId, storeOrigin),
+    publicClient,
+  })
+}
+
+export interface PendingRejectionSignatureInput extends Omit<RevocationSignatureInput, 'request'> {
+  rejection: PendingRejection
+}
+
+/**
+ * Verify the approver's signature over a pending association rejection.
+ * Returns 'unsupported' for key types that cannot sign arbitrary digests.
+ */
+export function verifyPendingRejectionSignature(input: PendingRejectionSignatureInput): Promise<boolean | 'unsupported'> {
+  const { rejection, chainId, storeOrigin, account, keyType, signature, publicClient } = input
+  return verifyKeyTypeHashSignature(input.keyTypeRegistry ?? defaultKeyTypeRegistry, keyType, signature, {
+    account,
+    hash: hashPendingRejection(rejection, chainId, storeOrigin),
+    publicClient,
+  })
+}
@@ -24,6 +24,18 @@ export function sarToJson(sar: SignedAssociationRecord): object {
   }
 }
 
+const MAX_UINT40 = (1n << 40n) - 1n
+
+/**
+ * Parse a uint40 (a timestamp) sent as a decimal string, as aarToJson/sarToJson write it.
+ * Returns null if the value is not a digits-only string or does not fit in uint40.
+ */
+export function parseUint40(value: unknown): bigint | null {
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) return null
+  const parsed = BigInt(value)
+  return parsed <= MAX_UINT40 ? parsed : null
+}
+
 // Copy text to clipboard
 export async function copyToClipboard(text: string): Promise<boolean> {
   try {
@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { base64urlnopad } from '@scure/base'
+import { sarToJson } from './serialize'
+import {
+  APPROVE_PATH,
+  InvalidSigningRequestError,
+  SIGNING_REQUEST_PARAM,
+  SIGNING_REQUEST_VERSION,
+  buildSigningRequestUrl,
+  decodeSigningRequest,
+  encodeSigningRequest,
+} from './signingRequest'
+import { testAssociation } from '@/test/fixtures'
+
+const { sar } = testAssociation({ validUntil: 2_000_000_000n, data: '0xbeef' }, { initiator: '0x11', approver: '0x' })
+
+// Token for an arbitrary JSON value, as a tampered or foreign link would carry
+function token(value: unknown): string {
+  return base64urlnopad.encode(new TextEncoder().encode(JSON.stringify(value)))
+}
+
+function request(overrides: Record<string, unknown> = {}) {
+  return { v: SIGNING_REQUEST_VERSION, status: 'pending', sar: sarToJson(sar), ...overrides }
+}
+
+describe('signing requests', () => {
+  it('round-trip a SAR signed by the initiator', () => {
+    assert.deepEqual(decodeSigningRequest(encodeSigningRequest(sar)), { status: 'pending', sar })
+  })
+
+  it('carry the request in the approve link', () => {
+    const url = new URL(buildSigningRequestUrl('https://demo.example', sar))
+    assert.equal(url.pathname, APPROVE_PATH)
+    assert.deepEqual(decodeSigningRequest(url.searchParams.get(SIGNING_REQUEST_PARAM)!).sar, sar)
+  })
+
+  it('reject other versions and statuses', () => {
+    assert.throws(() => decodeSigningRequest(token(request({ v: 2 }))), /Unsupported signing request version 2/)
+    assert.throws(() => decodeSigningRequest(token(request({ v: undefined }))), InvalidSigningRequestError)
+    assert.throws(() => decodeSigningRequest(token(request({ status: 'approved' }))), /Unexpected signing request status/)
+  })
+
+  it('refuse SARs that are not awaiting the approver', () => {
+    const approved = { ...sar, approverSignature: '0x22' as const }
+    assert.throws(() => encodeSigningRequest(approved), /already signed/)
+    assert.throws(() => decodeSigningRequest(token(request({ sar: sarToJson(approved) }))), /already signed/)
+    assert.throws(() => encodeSigningRequest({ ...sar, initiatorSignature: '0x' }), /initiator has not signed/)
+    assert.throws(() => encodeSigningRequest({ ...sar, revokedAt: 1n }), /revoked/)
+  })
+
+  it('reject malformed tokens', () => {
+    assert.throws(() => decodeSigningRequest('not base64url!'), /Malformed signing request/)
+    assert.throws(() => decodeSigningRequest(base64urlnopad.encode(new TextEncoder().encode('{'))), /Malformed signing request/)
+    assert.throws(() => decodeSigningRequest(token(null)), InvalidSigningRequestError)
+    assert.throws(() => decodeSigningRequest(token(request({ sar: undefined }))), /Missing SAR/)
+  })
+
+  it('reject malformed SAR fields', () => {
+    const json = sarToJson(sar) as Record<string, unknown> & { record: Record<string, unknown> }
+    const withRecord = (record: Record<string, unknown>) => token(request({ sar: { ...json, record: { ...json.record, ...record } } }))
+    assert.throws(() => decodeSigningRequest(withRecord({ initiator: 'alice' })), /Invalid initiator/)
+    assert.throws(() => decodeSigningRequest(withRecord({ validAt: '-1' })), /Invalid validAt/)
+    assert.throws(() => decodeSigningRequest(withRecord({ validUntil: 1 })), /Invalid validUntil/)
+    assert.throws(() => decodeSigningRequest(withRecord({ interfaceId: '0x00' })), /Invalid interfaceId/)
+    assert.throws(() => decodeSigningRequest(token(request({ sar: { ...json, initiatorKeyType: '0x1' } }))), /Invalid initiatorKeyType/)
+    assert.throws(() => decodeSigningRequest(token(request({ sar: { ...json, revokedAt: '1e3' } }))), /Invalid revokedAt/)
+  })
+})
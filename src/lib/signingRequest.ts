@@ -0,0 +1,126 @@
+import { type Hex, hexToNumber, isHex, size } from 'viem'
+import { base64urlnopad } from '@scure/base'
+import { sarToJson } from './serialize'
+import type { AssociatedAccountRecord, SignedAssociationRecord } from './types'
+
+/**
+ * Signing requests: a half-signed association handed to the approver on another device.
+ *
+ * The request carries the canonical SAR JSON (initiator signature set, approver
+ * signature empty) and a `pending` status, base64url encoded into the `request`
+ * query parameter of the `/approve` page. It holds no secrets, as the initiator
+ * signature is public once the association is stored.
+ */
+
+export const SIGNING_REQUEST_VERSION = 1
+
+// Page that completes a signing request, and the query parameter carrying it
+export const APPROVE_PATH = '/approve'
+export const SIGNING_REQUEST_PARAM = 'request'
+
+// Status of the association in the request; approved requests are stored, not shared
+export type SigningRequestStatus = 'pending'
+
+export interface SigningRequest {
+  status: SigningRequestStatus
+  /** SAR signed by the initiator only */
+  sar: SignedAssociationRecord
+}
+
+/**
+ * Thrown when a signing request is malformed or not awaiting the approver.
+ */
+export class InvalidSigningRequestError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvalidSigningRequestError'
+  }
+}
+
+/**
+ * Encode a SAR signed by the initiator as a signing request token.
+ */
+export function encodeSigningRequest(sar: SignedAssociationRecord): string {
+  assertPending(sar)
+  const json = JSON.stringify({ v: SIGNING_REQUEST_VERSION, status: 'pending', sar: sarToJson(sar) })
+  return base64urlnopad.encode(new TextEncoder().encode(json))
+}
+
+export function decodeSigningRequest(token: string): SigningRequest {
+  let value: unknown
+  try {
+    value = JSON.parse(new TextDecoder().decode(base64urlnopad.decode(token)))
+  } catch {
+    throw new InvalidSigningRequestError('Malformed signing request')
+  }
+  const { v, status, sar } = (value ?? {}) as Record<string, unknown>
+  if (v !== SIGNING_REQUEST_VERSION) {
+    throw new InvalidSigningRequestError(`Unsupported signing request version ${String(v)}`)
+  }
+  if (status !== 'pending') {
+    throw new InvalidSigningRequestError(`Unexpected signing request status ${String(status)}`)
+  }
+  const parsed = parseSar(sar)
+  assertPending(parsed)
+  return { status, sar: parsed }
+}
+
+/**
+ * Link to the approve page for a SAR signed by the initiator.
+ */
+export function buildSigningRequestUrl(origin: string, sar: SignedAssociationRecord): string {
+  const url = new URL(APPROVE_PATH, origin)
+  url.searchParams.set(SIGNING_REQUEST_PARAM, encodeSigningRequest(sar))
+  return url.toString()
+}
+
+function assertPending(sar: SignedAssociationRecord): void {
+  if (sar.initiatorSignature === '0x') {
+    throw new InvalidSigningRequestError('The initiator has not signed the association')
+  }
+  if (sar.approverSignature !== '0x') {
+    throw new InvalidSigningRequestError('The approver has already signed the association')
+  }
+  if (sar.revokedAt !== 0n) {
+    throw new InvalidSigningRequestError('The association is revoked')
+  }
+}
+
+function parseHex(value: unknown, name: string, bytes?: number): Hex {
+  if (!isHex(value) || (bytes !== undefined && size(value) !== bytes)) {
+    throw new InvalidSigningRequestError(`Invalid ${name}`)
+  }
+  return value
+}
+
+function parseUint(value: unknown, name: string): bigint {
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    throw new InvalidSigningRequestError(`Invalid ${name}`)
+  }
+  return BigInt(value)
+}
+
+// Inverse of sarToJson
+function parseSar(value: unknown): SignedAssociationRecord {
+  if (typeof value !== 'object' || value === null) {
+    throw new InvalidSigningRequestError('Missing SAR')
+  }
+  const sar = value as Record<string, unknown>
+  const record = (sar.record ?? {}) as Record<string, unknown>
+  const aar: AssociatedAccountRecord = {
+    initiator: parseHex(record.initiator, 'initiator'),
+    approver: parseHex(record.approver, 'approver'),
+    validAt: parseUint(record.validAt, 'validAt'),
+    validUntil: parseUint(record.validUntil, 'validUntil'),
+    interfaceId: parseHex(record.interfaceId, 'interfaceId', 4),
+    data: parseHex(record.data, 'data'),
+  }
+  return {
+    revokedAt: parseUint(sar.revokedAt, 'revokedAt'),
+    initiatorKeyType: hexToNumber(parseHex(sar.initiatorKeyType, 'initiatorKeyType', 2)),
+    approverKeyType: hexToNumber(parseHex(sar.approverKeyType, 'approverKeyType', 2)),
+    initiatorSignature: parseHex(sar.initiatorSignature, 'initiatorSignature'),
+    approverSignature: parseHex(sar.approverSignature, 'approverSignature'),
+    record: aar,
+  }
+}
@@ -0,0 +1,104 @@
+import { createMemoryAssociationStore } from './memory'
+import { assertSchemaCurrent, type MigrationDriver } from './migrate'
+import { MIGRATIONS } from './migrations'
+import { createNeonAssociationStore, createNeonDriver } from './neon'
+import { createPgliteAssociationStore, createPgliteDriver } from './pglite'
+import type { AssociationStore } from './types'
+
+export * from './types'
+export * from './query'
+export { toRowValues, rowToRecords, hasSameSignatures, isSuperseded, toPendingRowValues, pendingRowToRecords } from './rows'
+export { createSqlAssociationStore, type SqlQuery } from './sql'
+export { createMemoryAssociationStore, createNeonAssociationStore, createPgliteAssociationStore }
+export { createNeonDriver, createPgliteDriver }
+export * from './migrate'
+export { MIGRATIONS } from './migrations'
+
+export type AssociationStoreKind = 'neon' | 'pglite' | 'memory'
+
+const STORE_KINDS: readonly AssociationStoreKind[] = ['neon', 'pglite', 'memory']
+
+/**
+ * Create the store selected by configuration:
+ * - ASSOCIATION_STORE: 'neon' | 'pglite' | 'memory'. Defaults to 'neon' when
+ *   DATABASE_URL is set, otherwise to 'memory' outside production. In production
+ *   one of them is required, so a missing DATABASE_URL cannot lose data silently.
+ * - DATABASE_URL: Neon connection string (neon)
+ * - PGLITE_DATA_DIR: directory to persist the embedded database in (pglite, in-memory if unset)
+ */
+export function createAssociationStoreFromEnv(env: Record<string, string | undefined> = process.env): AssociationStore {
+  switch (storeKindFromEnv(env)) {
+    case 'neon':
+      return createNeonAssociationStore(requireDatabaseUrl(env))
+    case 'pglite':
+      return createPgliteAssociationStore(env.PGLITE_DATA_DIR || undefined)
+    case 'memory':
+      return createMemoryAssociationStore()
+  }
+}
+
+/**
+ * Migration driver for the configured database, null for the in-memory store.
+ */
+export function createMigrationDriverFromEnv(env: Record<string, string | undefined> = process.env): MigrationDriver | null {
+  switch (storeKindFromEnv(env)) {
+    case 'neon':
+      return createNeonDriver(requireDatabaseUrl(env))
+    case 'pglite':
+      return createPgliteDriver(env.PGLITE_DATA_DIR || undefined)
+    case 'memory':
+      return null
+  }
+}
+
+/**
+ * Fail fast when the configured Neon database is behind the app's migrations.
+ * PGlite migrates itself on first use and the in-memory store has no schema.
+ */
+export async function assertAssociationStoreSchema(env: Record<string, string | undefined> = process.env): Promise<void> {
+  if (storeKindFromEnv(env) !== 'neon') return
+  await assertSchemaCurrent(createNeonDriver(requireDatabaseUrl(env)), MIGRATIONS)
+}
+
+// How long a pending association waits for the approver by default (seconds)
+export const DEFAULT_PENDING_TTL = 7 * 24 * 60 * 60
+
+/**
+ * Lifetime of pending associations in seconds, from PENDING_ASSOCIATION_TTL (default 7 days).
+ */
+export function pendingTtlFromEnv(env: Record<string, string | undefined> = process.env): bigint {
+  const ttl = env.PENDING_ASSOCIATION_TTL
+  if (ttl === undefined || ttl === '') return BigInt(DEFAULT_PENDING_TTL)
+  if (!/^\d+$/.test(ttl) || BigInt(ttl) === 0n) {
+    throw new Error(`Invalid PENDING_ASSOCIATION_TTL "${ttl}", expected a positive number of seconds`)
+  }
+  return BigInt(ttl)
+}
+
+function storeKindFromEnv(env: Record<string, string | undefined>): AssociationStoreKind {
+  const kind = env.ASSOCIATION_STORE || (env.DATABASE_URL ? 'neon' : env.NODE_ENV !== 'production' ? 'memory' : null)
+  if (kind === null) {
+    throw new Error('No association store configured: set DATABASE_URL, or ASSOCIATION_STORE (memory only if data loss on restart is acceptable)')
+  }
+  if (!(STORE_KINDS as readonly string[]).includes(kind)) {
+    throw new Error(`Unknown ASSOCIATION_STORE "${kind}", expected one of ${STORE_KINDS.join(', ')}`)
+  }
+  return kind as AssociationStoreKind
+}
+
+function requireDatabaseUrl(env: Record<string, string | undefined>): string {
+  if (!env.DATABASE_URL) {
+    throw new Error('DATABASE_URL is required for the neon association store')
+  }
+  return env.DATABASE_URL
+}
+
+let store: AssociationStore | null = null
+
+/**
+ * The process-wide store, created from configuration on first use.
+ */
+export function getAssociationStore(): AssociationStore {
+  store ??= createAssociationStoreFromEnv()
+  return store
+}
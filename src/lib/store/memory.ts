@@ -0,0 +1,227 @@
+import { formatKeyType } from '../keyTypes'
+import { associationStatus, nextCursor, type AssociationQuery } from './query'
+import { toPendingRowValues, toRowValues } from './rows'
+import {
+  AssociationExistsError,
+  type AssociationStore,
+  type DbAssociation,
+  type DbPendingAssociation,
+  type IndexedBlock,
+  type OnchainRevocation,
+} from './types'
+
+// In-memory equivalent of the SQL store's WHERE clause
+function matches(row: DbAssociation, q: AssociationQuery): boolean {
+  // Which sides the address and key type filters apply to
+  const initiator = q.role !== 'approver'
+  const approver = q.role !== 'initiator'
+  if (q.address !== undefined &&
+    !((initiator && row.initiator_address === q.address) || (approver && row.approver_address === q.address))) {
+    return false
+  }
+  if (q.keyType !== undefined) {
+    const keyType = formatKeyType(q.keyType)
+    if (!((initiator && row.initiator_key_type === keyType) || (approver && row.approver_key_type === keyType))) {
+      return false
+    }
+  }
+  if (q.status && associationStatus(row, q.now) !== q.status) return false
+  if (q.source !== undefined && row.source !== q.source) return false
+  if (q.interfaceId !== undefined &&
+    (row.interface_id?.toLowerCase() ?? '0x00000000') !== q.interfaceId) {
+    return false
+  }
+  const createdAt = BigInt(Math.floor(Date.parse(row.created_at) / 1000))
+  if (q.createdFrom !== undefined && createdAt < q.createdFrom) return false
+  if (q.createdTo !== undefined && createdAt > q.createdTo) return false
+  if (q.validFrom !== undefined && row.valid_until !== null && BigInt(row.valid_until) <= q.validFrom) return false
+  if (q.validTo !== undefined && BigInt(row.valid_at) > q.validTo) return false
+  return true
+}
+
+// Ascending comparison by the sort key, ties broken by id
+function compare(a: { value: string; id: number }, b: { value: string; id: number }): number {
+  const byValue = a.value === b.value ? 0 : BigInt(a.value) < BigInt(b.value) ? -1 : 1
+  return byValue || a.id - b.id
+}
+
+/**
+ * Store that keeps associations in process memory.
+ * Data is lost on restart; intended for local development and tests.
+ */
+export function createMemoryAssociationStore(): AssociationStore {
+  const associations: DbAssociation[] = []
+  // Deadlines of used request nonces, by `${kind}:${signer}:${nonce}`
+  const usedNonces = new Map<string, bigint>()
+  // Indexer state: revocation events (with the revoked_at they replaced) and processed blocks
+  const revocations: (OnchainRevocation & { previousRevokedAt: string | null })[] = []
+  let blocks: IndexedBlock[] = []
+  // Pending associations by hash
+  const pending = new Map<string, DbPendingAssociation>()
+  let nextId = 1
+
+  const find = (hash: string) => associations.find((row) => row.hash === hash.toLowerCase()) ?? null
+  const findPending = (hash: string, now: bigint) => {
+    const row = pending.get(hash.toLowerCase())
+    return row && BigInt(row.expires_at) > now ? row : null
+  }
+
+  return {
+    insert: async (association) => {
+      if (find(association.hash)) {
+        throw new AssociationExistsError(association.hash)
+      }
+      const row: DbAssociation = {
+        ...toRowValues(association),
+        id: nextId++,
+        created_at: new Date().toISOString(),
+      }
+      associations.push(row)
+      // The stored association answers its pending request
+      pending.delete(row.hash)
+      return { ...row }
+    },
+
+    getByHash: async (hash) => {
+      const row = find(hash)
+      return row ? { ...row } : null
+    },
+
+    query: async (q) => {
+      const direction = q.order === 'asc' ? 1 : -1
+      const key = (row: DbAssociation) => ({ value: q.sort === 'validAt' ? row.valid_at : '0', id: row.id })
+      const after = q.after && { value: q.sort === 'validAt' ? q.after.value : '0', id: q.after.id }
+      const rows = associations
+        .filter((row) => matches(row, q) && (!after || compare(key(row), after) * direction > 0))
+        .sort((a, b) => compare(key(a), key(b)) * direction)
+      const page = rows.slice(0, q.limit).map((row) => ({ ...row }))
+      return { associations: page, nextCursor: nextCursor(q, page, rows.length > q.limit) }
+    },
+
+    revoke: async (hash, revokedAt) => {
+      const row = find(hash)
+      if (!row) return null
+      // The earlier revocation timestamp takes precedence
+      if (row.revoked_at === null || BigInt(row.revoked_at) > revokedAt) {
+        row.revoked_at = revokedAt.toString()
+      }
+      return { ...row }
+    },
+
+    consumeRequestNonce: async (kind, signer, nonce, deadline) => {
+      const key = `${kind}:${signer}:${nonce}`
+      if (usedNonces.has(key)) return false
+      usedNonces.set(key, deadline)
+      return true
+    },
+
+    pruneExpiredRequestNonces: async (now) => {
+      let deleted = 0
+      for (const [key, deadline] of usedNonces) {
+        if (deadline < now) {
+          usedNonces.delete(key)
+          deleted++
+        }
+      }
+      return deleted
+    },
+
+    insertPending: async (association, now) => {
+      // An expired request for the same association is replaced
+      if (findPending(association.hash, now)) {
+        throw new AssociationExistsError(association.hash)
+      }
+      const row: DbPendingAssociation = {
+        ...toPendingRowValues(association),
+        status: 'pending',
+        created_at: new Date().toISOString(),
+      }
+      // Re-add so the map stays in creation order
+      pending.delete(row.hash)
+      pending.set(row.hash, row)
+      return { ...row }
+    },
+
+    getPending: async (hash, now) => {
+      const row = findPending(hash, now)
+      return row ? { ...row } : null
+    },
+
+    listPending: async (address, now) => {
+      // Insertion order is creation order
+      return Array.from(pending.values())
+        .filter((row) => (row.initiator_address === address || row.approver_address === address) &&
+          BigInt(row.expires_at) > now)
+        .reverse()
+        .map((row) => ({ ...row }))
+    },
+
+    rejectPending: async (hash, now) => {
+      const row = findPending(hash, now)
+      if (!row || row.status !== 'pending') return null
+      row.status = 'rejected'
+      return { ...row }
+    },
+
+    pruneExpiredPending: async (now) => {
+      let deleted = 0
+      for (const [hash, row] of pending) {
+        if (BigInt(row.expires_at) <= now) {
+          pending.delete(hash)
+          deleted++
+        }
+      }
+      return deleted
+    },
+
+    getIndexedBlocks: async () => blocks.map((block) => ({ ...block })),
+
+    saveIndexedBlocks: async (saved, pruneBelow) => {
+      const byNumber = new Map(blocks.map((block) => [block.number, block]))
+      for (const block of saved) byNumber.set(block.number, { ...block })
+      const sorted = Array.from(byNumber.values()).sort((a, b) => (a.number < b.number ? -1 : 1))
+      const highest = sorted[sorted.length - 1]
+      blocks = sorted.filter((block) => block.number >= pruneBelow || block === highest)
+    },
+
+    supersedeOffchain: async (hash, onchain) => {
+      const row = find(hash)
+      if (!row || row.source !== 'offchain') return
+      row.block_number = onchain.blockNumber.toString()
+      row.transaction_hash = onchain.transactionHash.toLowerCase()
+    },
+
+    recordOnchainRevocation: async (revocation) => {
+      const recorded = revocations.some((r) =>
+        r.blockNumber === revocation.blockNumber && r.logIndex === revocation.logIndex)
+      if (recorded) return
+      const row = find(revocation.hash)
+      revocations.push({ ...revocation, previousRevokedAt: row?.revoked_at ?? null })
+      if (row && (row.revoked_at === null || BigInt(row.revoked_at) > revocation.revokedAt)) {
+        row.revoked_at = revocation.revokedAt.toString()
+      }
+    },
+
+    rollbackOnchain: async (blockNumber) => {
+      // Undo revocations newest first, so each restores the value it replaced
+      for (let i = revocations.length - 1; i >= 0; i--) {
+        const revocation = revocations[i]
+        if (revocation.blockNumber <= blockNumber) continue
+        const row = find(revocation.hash)
+        if (row) row.revoked_at = revocation.previousRevokedAt
+        revocations.splice(i, 1)
+      }
+      for (let i = associations.length - 1; i >= 0; i--) {
+        const row = associations[i]
+        if (row.block_number === null || BigInt(row.block_number) <= blockNumber) continue
+        if (row.source === 'onchain') {
+          associations.splice(i, 1)
+        } else {
+          row.block_number = null
+          row.transaction_hash = null
+        }
+      }
+      blocks = blocks.filter((block) => block.number <= blockNumber)
+    },
+  }
+}
@@ -0,0 +1,102 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { hashAssociation } from '../eip712'
+import { testRecord } from '@/test/fixtures'
+import { createPgliteDriver } from './pglite'
+import { getMigrationStatus, migrateDown, migrateUp } from './migrate'
+import { MIGRATIONS } from './migrations'
+
+// The old .schema file, which databases created before migrations were set up with
+const LEGACY_SCHEMA = [
+  `CREATE TABLE accounts (
+    address VARCHAR(255) PRIMARY KEY,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  )`,
+  `CREATE TABLE associations (
+    id SERIAL PRIMARY KEY,
+    initiator_address VARCHAR(255) NOT NULL REFERENCES accounts(address),
+    approver_address VARCHAR(255) NOT NULL REFERENCES accounts(address),
+    initiator_bytes TEXT NOT NULL,
+    approver_bytes TEXT NOT NULL,
+    valid_at BIGINT NOT NULL,
+    valid_until BIGINT,
+    interface_id VARCHAR(10),
+    data TEXT,
+    revoked_at BIGINT,
+    initiator_key_type CHAR(6) NOT NULL,
+    approver_key_type CHAR(6) NOT NULL,
+    initiator_signature TEXT NOT NULL,
+    approver_signature TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  )`,
+  'CREATE INDEX initiator_idx ON associations(initiator_address)',
+  'CREATE INDEX approver_idx ON associations(approver_address)',
+  'CREATE INDEX valid_at_idx ON associations(valid_at)',
+  'CREATE INDEX valid_until_idx ON associations(valid_until)',
+  'CREATE INDEX revoked_at_idx ON associations(revoked_at)',
+]
+
+const LATEST = Math.max(...MIGRATIONS.map((m) => m.version))
+
+async function insertLegacyRow(
+  driver: ReturnType<typeof createPgliteDriver>,
+  validAt: bigint,
+  revokedAt: bigint | null
+): Promise<void> {
+  const aar = testRecord({ validAt })
+  await driver.query(
+    `INSERT INTO associations (
+      initiator_address, approver_address, initiator_bytes, approver_bytes, valid_at, valid_until,
+      interface_id, data, revoked_at, initiator_key_type, approver_key_type, initiator_signature, approver_signature
+    ) VALUES ('a', 'b', $1, $2, $3, $4, $5, $6, $7, '0x0001', '0x0001', '0x11', '0x22')`,
+    [aar.initiator, aar.approver, aar.validAt.toString(), aar.validUntil.toString(), aar.interfaceId, aar.data, revokedAt?.toString() ?? null]
+  )
+}
+
+describe('migrations', () => {
+  it('migrate a fresh database up, down and up again', async () => {
+    const driver = createPgliteDriver()
+    try {
+      assert.equal((await migrateUp(driver, MIGRATIONS)).length, MIGRATIONS.length)
+      assert.deepEqual(await getMigrationStatus(driver, MIGRATIONS), { current: LATEST, latest: LATEST, pending: [] })
+
+      await migrateDown(driver, MIGRATIONS, 0)
+      assert.equal((await getMigrationStatus(driver, MIGRATIONS)).current, 0)
+      const tables = await driver.query(`SELECT table_name FROM information_schema.tables WHERE table_schema = 'public'`)
+      assert.deepEqual(tables.map((row) => row.table_name), ['schema_migrations'])
+
+      await migrateUp(driver, MIGRATIONS)
+      assert.equal((await getMigrationStatus(driver, MIGRATIONS)).current, LATEST)
+    } finally {
+      await driver.close?.()
+    }
+  })
+
+  it('adopt a database created from the old .schema, merging duplicate associations', async () => {
+    const driver = createPgliteDriver()
+    try {
+      for (const statement of LEGACY_SCHEMA) {
+        await driver.query(statement)
+      }
+      await driver.query(`INSERT INTO accounts (address) VALUES ('a'), ('b')`)
+      await insertLegacyRow(driver, 100n, null)
+      await insertLegacyRow(driver, 100n, 500n)
+      await insertLegacyRow(driver, 100n, 400n)
+      await insertLegacyRow(driver, 200n, null)
+
+      await migrateUp(driver, MIGRATIONS)
+
+      const rows = await driver.query('SELECT id, hash, revoked_at FROM associations ORDER BY id')
+      assert.deepEqual(rows.map((row) => ({ ...row, revoked_at: row.revoked_at === null ? null : String(row.revoked_at) })), [
+        { id: 1, hash: hashAssociation(testRecord({ validAt: 100n })), revoked_at: '400' },
+        { id: 4, hash: hashAssociation(testRecord({ validAt: 200n })), revoked_at: null },
+      ])
+
+      // The hash is now required and unique
+      await assert.rejects(insertLegacyRow(driver, 300n, null))
+      await assert.rejects(driver.query(`UPDATE associations SET hash = $1 WHERE id = 4`, [rows[0].hash]))
+    } finally {
+      await driver.close?.()
+    }
+  })
+})
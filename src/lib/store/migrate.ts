@@ -0,0 +1,160 @@
+import type { SqlDriver, SqlQuery } from './sql'
+
+/**
+ * Versioned schema migrations
+ *
+ * Each migration has an `up` and `down` list of steps. Applied versions are
+ * recorded in the `schema_migrations` table; a migration and its record are
+ * written in one transaction.
+ *
+ * A step is a statement, or a data step that reads the database and returns the
+ * statements to run in its place (e.g. to backfill a column computed in TypeScript).
+ * Data steps run before the migration's transaction starts, since Neon transactions
+ * cannot interleave reads and writes, so they see the database as the previous
+ * migration left it.
+ */
+
+export interface SqlStatement {
+  text: string
+  params?: unknown[]
+}
+
+export type MigrationStep = string | ((query: SqlQuery) => Promise<SqlStatement[]>)
+
+export interface Migration {
+  version: number
+  name: string
+  up: MigrationStep[]
+  down: MigrationStep[]
+}
+
+export interface MigrationDriver extends SqlDriver {
+  /** Release the database, for drivers that hold one open */
+  close?: () => Promise<void>
+}
+
+export interface MigrationStatus {
+  /** Highest applied version, 0 for an empty database */
+  current: number
+  /** Highest known version */
+  latest: number
+  pending: Migration[]
+}
+
+/**
+ * Thrown when the database has not been migrated to the version the app requires.
+ */
+export class SchemaOutOfDateError extends Error {
+  readonly current: number
+  readonly latest: number
+
+  constructor(current: number, latest: number) {
+    super(`Database schema is at version ${current} but version ${latest} is required; run \`npm run db:migrate\``)
+    this.name = 'SchemaOutOfDateError'
+    this.current = current
+    this.latest = latest
+  }
+}
+
+const CREATE_MIGRATIONS_TABLE = `CREATE TABLE IF NOT EXISTS schema_migrations (
+  version INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+)`
+
+// Expand data steps into their statements, in order
+async function resolveSteps(driver: MigrationDriver, steps: MigrationStep[]): Promise<SqlStatement[]> {
+  const statements: SqlStatement[] = []
+  for (const step of steps) {
+    if (typeof step === 'string') {
+      statements.push({ text: step })
+    } else {
+      statements.push(...await step(driver.query))
+    }
+  }
+  return statements
+}
+
+async function appliedVersions(driver: MigrationDriver): Promise<number[]> {
+  await driver.query(CREATE_MIGRATIONS_TABLE)
+  const rows = await driver.query('SELECT version FROM schema_migrations ORDER BY version')
+  return rows.map((row) => Number(row.version))
+}
+
+export async function getMigrationStatus(
+  driver: MigrationDriver,
+  migrations: readonly Migration[]
+): Promise<MigrationStatus> {
+  const applied = new Set(await appliedVersions(driver))
+  return {
+    current: Math.max(0, ...applied),
+    latest: Math.max(0, ...migrations.map((m) => m.version)),
+    pending: migrations.filter((m) => !applied.has(m.version)),
+  }
+}
+
+/**
+ * Apply pending migrations in version order, up to `target` (all if omitted).
+ * Returns the migrations that were applied.
+ */
+export async function migrateUp(
+  driver: MigrationDriver,
+  migrations: readonly Migration[],
+  target?: number
+): Promise<Migration[]> {
+  const { pending } = await getMigrationStatus(driver, migrations)
+  const toApply = pending
+    .filter((m) => target === undefined || m.version <= target)
+    .sort((a, b) => a.version - b.version)
+
+  for (const migration of toApply) {
+    await driver.transaction([
+      ...await resolveSteps(driver, migration.up),
+      {
+        text: 'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+        params: [migration.version, migration.name],
+      },
+    ])
+  }
+  return toApply
+}
+
+/**
+ * Revert applied migrations in reverse order until `target` is the highest applied
+ * version (one migration if omitted). Returns the migrations that were reverted.
+ */
+export async function migrateDown(
+  driver: MigrationDriver,
+  migrations: readonly Migration[],
+  target?: number
+): Promise<Migration[]> {
+  const applied = (await appliedVersions(driver)).sort((a, b) => b - a)
+  const versions = target === undefined ? applied.slice(0, 1) : applied.filter((v) => v > target)
+
+  const reverted: Migration[] = []
+  for (const version of versions) {
+    const migration = migrations.find((m) => m.version === version)
+    if (!migration) {
+      throw new Error(`Cannot revert unknown migration version ${version}`)
+    }
+    await driver.transaction([
+      ...await resolveSteps(driver, migration.down),
+      { text: 'DELETE FROM schema_migrations WHERE version = $1', params: [version] },
+    ])
+    reverted.push(migration)
+  }
+  return reverted
+}
+
+/**
+ * Throw SchemaOutOfDateError if any migration has not been applied.
+ */
+export async function assertSchemaCurrent(
+  driver: MigrationDriver,
+  migrations: readonly Migration[]
+): Promise<void> {
+  const { current, latest, pending } = await getMigrationStatus(driver, migrations)
+  if (pending.length > 0) {
+    throw new SchemaOutOfDateError(current, latest)
+  }
+}
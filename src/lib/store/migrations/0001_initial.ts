@@ -0,0 +1,47 @@
+import type { Migration } from '../migrate'
+
+// accounts and associations tables, exactly as the old .schema file created them.
+// IF NOT EXISTS adopts databases set up from that file, which have no schema_migrations rows.
+export const initial: Migration = {
+  version: 1,
+  name: 'initial',
+  up: [
+    `CREATE TABLE IF NOT EXISTS accounts (
+      address VARCHAR(255) PRIMARY KEY,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )`,
+    `CREATE TABLE IF NOT EXISTS associations (
+      id SERIAL PRIMARY KEY,
+
+      -- Foreign keys to account addresses
+      initiator_address VARCHAR(255) NOT NULL REFERENCES accounts(address),
+      approver_address VARCHAR(255) NOT NULL REFERENCES accounts(address),
+
+      -- AssociatedAccountRecord fields
+      initiator_bytes TEXT NOT NULL,
+      approver_bytes TEXT NOT NULL,
+      valid_at BIGINT NOT NULL,
+      valid_until BIGINT,
+      interface_id VARCHAR(10),
+      data TEXT,
+
+      -- SignedAssociationRecord fields
+      revoked_at BIGINT,
+      initiator_key_type CHAR(6) NOT NULL,
+      approver_key_type CHAR(6) NOT NULL,
+      initiator_signature TEXT NOT NULL,
+      approver_signature TEXT NOT NULL,
+
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )`,
+    'CREATE INDEX IF NOT EXISTS initiator_idx ON associations(initiator_address)',
+    'CREATE INDEX IF NOT EXISTS approver_idx ON associations(approver_address)',
+    'CREATE INDEX IF NOT EXISTS valid_at_idx ON associations(valid_at)',
+    'CREATE INDEX IF NOT EXISTS valid_until_idx ON associations(valid_until)',
+    'CREATE INDEX IF NOT EXISTS revoked_at_idx ON associations(revoked_at)',
+  ],
+  down: [
+    'DROP TABLE associations',
+    'DROP TABLE accounts',
+  ],
+}
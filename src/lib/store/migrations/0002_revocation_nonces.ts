@@ -0,0 +1,22 @@
+import type { Migration } from '../migrate'
+
+// Nonces of accepted revocation requests, so each signed request is used once
+export const revocationNonces: Migration = {
+  version: 2,
+  name: 'revocation_nonces',
+  up: [
+    `CREATE TABLE revocation_nonces (
+      signer VARCHAR(255) NOT NULL,
+      nonce NUMERIC(78, 0) NOT NULL,
+
+      -- Deadline of the request; rows past it can no longer be replayed and may be pruned
+      deadline BIGINT NOT NULL,
+
+      used_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (signer, nonce)
+    )`,
+  ],
+  down: [
+    'DROP TABLE revocation_nonces',
+  ],
+}
@@ -0,0 +1,41 @@
+import type { Migration } from '../migrate'
+
+// Mirror of the AssociationsStore contract written by the onchain indexer
+export const onchainIndex: Migration = {
+  version: 3,
+  name: 'onchain_index',
+  up: [
+    `ALTER TABLE associations ADD COLUMN source VARCHAR(8) NOT NULL DEFAULT 'offchain'`,
+    'ALTER TABLE associations ADD COLUMN block_number BIGINT',
+    'ALTER TABLE associations ADD COLUMN transaction_hash CHAR(66)',
+    'CREATE INDEX source_block_idx ON associations(source, block_number)',
+    `CREATE TABLE onchain_revocations (
+      block_number BIGINT NOT NULL,
+      log_index INTEGER NOT NULL,
+      transaction_hash CHAR(66) NOT NULL,
+
+      -- AssociationRevoked(hash, revokedBy, revokedAt)
+      hash CHAR(66) NOT NULL,
+      revoked_by CHAR(66) NOT NULL,
+      revoked_at BIGINT NOT NULL,
+
+      -- associations.revoked_at before this event, restored on rollback
+      previous_revoked_at BIGINT,
+
+      PRIMARY KEY (block_number, log_index)
+    )`,
+    'CREATE INDEX onchain_revocations_hash_idx ON onchain_revocations(hash)',
+    `CREATE TABLE indexer_blocks (
+      block_number BIGINT PRIMARY KEY,
+      block_hash CHAR(66) NOT NULL
+    )`,
+  ],
+  down: [
+    'DROP TABLE indexer_blocks',
+    'DROP TABLE onchain_revocations',
+    'DROP INDEX source_block_idx',
+    'ALTER TABLE associations DROP COLUMN transaction_hash',
+    'ALTER TABLE associations DROP COLUMN block_number',
+    'ALTER TABLE associations DROP COLUMN source',
+  ],
+}
@@ -0,0 +1,43 @@
+import type { Migration } from '../migrate'
+
+// Associations signed by the initiator only, awaiting the approver's countersignature
+export const pendingAssociations: Migration = {
+  version: 4,
+  name: 'pending_associations',
+  up: [
+    `CREATE TABLE pending_associations (
+      -- EIP-712 hash of the AssociatedAccountRecord (the ID once stored)
+      hash CHAR(66) PRIMARY KEY,
+
+      -- Account keys of both parties (not registered in accounts until stored)
+      initiator_address VARCHAR(255) NOT NULL,
+      approver_address VARCHAR(255) NOT NULL,
+
+      -- AssociatedAccountRecord fields
+      initiator_bytes TEXT NOT NULL,
+      approver_bytes TEXT NOT NULL,
+      valid_at BIGINT NOT NULL,
+      valid_until BIGINT,
+      interface_id VARCHAR(10),
+      data TEXT,
+
+      -- The initiator's half of the SignedAssociationRecord
+      initiator_key_type CHAR(6) NOT NULL,
+      initiator_signature TEXT NOT NULL,
+
+      -- 'pending' or 'rejected' (by the approver)
+      status VARCHAR(8) NOT NULL DEFAULT 'pending',
+
+      -- Unix seconds after which the request is dropped
+      expires_at BIGINT NOT NULL,
+
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )`,
+    'CREATE INDEX pending_initiator_idx ON pending_associations(initiator_address)',
+    'CREATE INDEX pending_approver_idx ON pending_associations(approver_address)',
+    'CREATE INDEX pending_expires_at_idx ON pending_associations(expires_at)',
+  ],
+  down: [
+    'DROP TABLE pending_associations',
+  ],
+}
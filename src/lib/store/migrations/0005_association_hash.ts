@@ -0,0 +1,76 @@
+import type { Hex } from 'viem'
+import { hashAssociation } from '../../eip712'
+import type { Migration, SqlStatement } from '../migrate'
+import type { SqlQuery } from '../sql'
+
+// Rows of one association (same AAR hash), oldest first
+interface HashGroup {
+  ids: number[]
+  /** Earliest revocation among the rows */
+  revokedAt: bigint | null
+}
+
+/**
+ * Fill `hash` for every stored association. Databases built from the old `.schema`
+ * had no uniqueness on the AAR, so the same association may be stored several times:
+ * the oldest row is kept, with the earliest revocation of its copies (the earlier
+ * timestamp takes precedence per ERC-8092), and the copies are deleted.
+ */
+async function backfillHashes(query: SqlQuery): Promise<SqlStatement[]> {
+  const rows = await query(
+    `SELECT id, initiator_bytes, approver_bytes, valid_at, valid_until, interface_id, data, revoked_at
+    FROM associations
+    ORDER BY id`
+  )
+
+  const groups = new Map<Hex, HashGroup>()
+  for (const row of rows) {
+    const hash = hashAssociation({
+      initiator: row.initiator_bytes as Hex,
+      approver: row.approver_bytes as Hex,
+      validAt: BigInt(String(row.valid_at)),
+      validUntil: row.valid_until === null ? 0n : BigInt(String(row.valid_until)),
+      interfaceId: (row.interface_id || '0x00000000') as Hex,
+      data: (row.data || '0x') as Hex,
+    }).toLowerCase() as Hex
+    const revokedAt = row.revoked_at === null ? null : BigInt(String(row.revoked_at))
+    const group = groups.get(hash)
+    if (!group) {
+      groups.set(hash, { ids: [Number(row.id)], revokedAt })
+      continue
+    }
+    group.ids.push(Number(row.id))
+    if (revokedAt !== null && (group.revokedAt === null || revokedAt < group.revokedAt)) {
+      group.revokedAt = revokedAt
+    }
+  }
+
+  const statements: SqlStatement[] = []
+  for (const [hash, { ids: [kept, ...copies], revokedAt }] of groups) {
+    statements.push({
+      text: 'UPDATE associations SET hash = $2, revoked_at = $3 WHERE id = $1',
+      params: [kept, hash, revokedAt?.toString() ?? null],
+    })
+    for (const id of copies) {
+      statements.push({ text: 'DELETE FROM associations WHERE id = $1', params: [id] })
+    }
+  }
+  return statements
+}
+
+// EIP-712 hash of the AAR, the association ID shared with onchain storage.
+// Added nullable, backfilled and deduplicated, then made required and unique.
+export const associationHash: Migration = {
+  version: 5,
+  name: 'association_hash',
+  up: [
+    'ALTER TABLE associations ADD COLUMN hash CHAR(66)',
+    backfillHashes,
+    'ALTER TABLE associations ALTER COLUMN hash SET NOT NULL',
+    'ALTER TABLE associations ADD CONSTRAINT associations_hash_key UNIQUE (hash)',
+  ],
+  // Deleted duplicate rows are not restored
+  down: [
+    'ALTER TABLE associations DROP COLUMN hash',
+  ],
+}
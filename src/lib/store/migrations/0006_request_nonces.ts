@@ -0,0 +1,23 @@
+import type { Migration } from '../migrate'
+
+// Nonces of every kind of signed store request (revocations and pending rejections),
+// each kind with its own nonce space
+export const requestNonces: Migration = {
+  version: 6,
+  name: 'request_nonces',
+  up: [
+    'ALTER TABLE revocation_nonces RENAME TO request_nonces',
+    `ALTER TABLE request_nonces ADD COLUMN kind VARCHAR(16) NOT NULL DEFAULT 'revocation'`,
+    'ALTER TABLE request_nonces DROP CONSTRAINT revocation_nonces_pkey',
+    'ALTER TABLE request_nonces ADD PRIMARY KEY (kind, signer, nonce)',
+    'CREATE INDEX request_nonces_deadline_idx ON request_nonces(deadline)',
+  ],
+  down: [
+    `DELETE FROM request_nonces WHERE kind <> 'revocation'`,
+    'DROP INDEX request_nonces_deadline_idx',
+    'ALTER TABLE request_nonces DROP CONSTRAINT request_nonces_pkey',
+    'ALTER TABLE request_nonces DROP COLUMN kind',
+    'ALTER TABLE request_nonces RENAME TO revocation_nonces',
+    'ALTER TABLE revocation_nonces ADD PRIMARY KEY (signer, nonce)',
+  ],
+}
@@ -0,0 +1,17 @@
+import type { Migration } from '../migrate'
+import { initial } from './0001_initial'
+import { revocationNonces } from './0002_revocation_nonces'
+import { onchainIndex } from './0003_onchain_index'
+import { pendingAssociations } from './0004_pending_associations'
+import { associationHash } from './0005_association_hash'
+import { requestNonces } from './0006_request_nonces'
+
+// All migrations, in version order. Add new ones at the end.
+export const MIGRATIONS: readonly Migration[] = [
+  initial,
+  revocationNonces,
+  onchainIndex,
+  pendingAssociations,
+  associationHash,
+  requestNonces,
+]
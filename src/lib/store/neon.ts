@@ -0,0 +1,24 @@
+import { neon } from '@neondatabase/serverless'
+import type { MigrationDriver } from './migrate'
+import { createSqlAssociationStore } from './sql'
+import type { AssociationStore } from './types'
+
+/**
+ * Neon serverless Postgres over HTTP.
+ * DATABASE_URL is automatically provided by Neon's Vercel integration.
+ */
+export function createNeonDriver(databaseUrl: string): MigrationDriver {
+  const sql = neon(databaseUrl)
+  return {
+    query: (text, params) => sql.query(text, params),
+    transaction: (statements) =>
+      sql.transaction(statements.map(({ text, params }) => sql.query(text, params))),
+  }
+}
+
+/**
+ * Store backed by Neon. The schema is migrated separately (`npm run db:migrate`).
+ */
+export function createNeonAssociationStore(databaseUrl: string): AssociationStore {
+  return createSqlAssociationStore(createNeonDriver(databaseUrl))
+}
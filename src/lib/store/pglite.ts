@@ -0,0 +1,67 @@
+import type { PGlite } from '@electric-sql/pglite'
+import { migrateUp, type MigrationDriver } from './migrate'
+import { MIGRATIONS } from './migrations'
+import { createSqlAssociationStore } from './sql'
+import type { AssociationStore } from './types'
+
+/**
+ * PGlite, an embedded (WASM) Postgres.
+ * Runs locally without a database server or network access.
+ *
+ * @param dataDir - Directory to persist the database in; in-memory if omitted
+ */
+export function createPgliteDriver(dataDir?: string): MigrationDriver {
+  let ready: Promise<PGlite> | null = null
+
+  // Start the database on first use
+  const getDb = () => {
+    ready ??= import('@electric-sql/pglite').then(({ PGlite }) => PGlite.create(dataDir))
+    return ready
+  }
+
+  return {
+    query: async (text, params) => {
+      const db = await getDb()
+      const result = await db.query<Record<string, unknown>>(text, params)
+      return result.rows
+    },
+    transaction: async (statements) => {
+      const db = await getDb()
+      return db.transaction(async (tx) => {
+        const results: Record<string, unknown>[][] = []
+        for (const { text, params } of statements) {
+          results.push((await tx.query<Record<string, unknown>>(text, params)).rows)
+        }
+        return results
+      })
+    },
+    close: async () => {
+      if (ready) {
+        await (await ready).close()
+        ready = null
+      }
+    },
+  }
+}
+
+/**
+ * Store backed by PGlite. Pending migrations are applied on first use, so a
+ * fresh local database is always ready.
+ */
+export function createPgliteAssociationStore(dataDir?: string): AssociationStore {
+  const driver = createPgliteDriver(dataDir)
+  let migrated: Promise<unknown> | null = null
+
+  const ready = () => (migrated ??= migrateUp(driver, MIGRATIONS))
+
+  return createSqlAssociationStore({
+    query: async (text, params) => {
+      await ready()
+      return driver.query(text, params)
+    },
+    transaction: async (statements) => {
+      await ready()
+      return driver.transaction(statements)
+    },
+  })
+}
@@ -0,0 +1,211 @@
+import { type Hex, isAddress, isHex, size } from 'viem'
+import { base64urlnopad } from '@scure/base'
+import type { AssociationSource, DbAssociation } from './types'
+
+/**
+ * Association queries: filters, sorting and cursor pagination.
+ *
+ * Pagination is keyset based. The cursor is an opaque token encoding the sort
+ * and the position (sort value and row id) of the last row of the previous page,
+ * so pages stay stable while new associations are inserted.
+ */
+
+// Status of an association at a point in time. Mutually exclusive, checked in this order:
+// revoked, expired, not-yet-valid, otherwise active.
+export type AssociationStatus = 'active' | 'expired' | 'revoked' | 'not-yet-valid'
+
+export type AssociationRole = 'initiator' | 'approver'
+
+// `created` orders by insertion (row id)
+export type AssociationSort = 'created' | 'validAt'
+
+export type SortOrder = 'asc' | 'desc'
+
+export interface AssociationQuery {
+  /** Account key of a party */
+  address?: string
+  /** Restrict `address` (and `keyType`) to one side of the association */
+  role?: AssociationRole
+  status?: AssociationStatus
+  /** Unix seconds the status is evaluated at */
+  now: bigint
+  /** Key type of either party, or of the `role` party */
+  keyType?: number
+  source?: AssociationSource
+  interfaceId?: Hex
+  /** Stored at or after / before these times (unix seconds) */
+  createdFrom?: bigint
+  createdTo?: bigint
+  /** Validity window [validAt, validUntil) overlaps [validFrom, validTo] (unix seconds) */
+  validFrom?: bigint
+  validTo?: bigint
+  sort: AssociationSort
+  order: SortOrder
+  limit: number
+  /** Position after which the page starts, from a previous page's nextCursor */
+  after?: AssociationCursor
+}
+
+export interface AssociationCursor {
+  sort: AssociationSort
+  order: SortOrder
+  /** Sort value of the last row (valid_at), unused for `created` */
+  value: string
+  id: number
+}
+
+export interface AssociationPage {
+  associations: DbAssociation[]
+  /** Pass as `cursor` to fetch the next page; null on the last page */
+  nextCursor: string | null
+}
+
+export const DEFAULT_QUERY_LIMIT = 100
+export const MAX_QUERY_LIMIT = 500
+
+const STATUSES: readonly AssociationStatus[] = ['active', 'expired', 'revoked', 'not-yet-valid']
+const ROLES: readonly AssociationRole[] = ['initiator', 'approver']
+const SORTS: readonly AssociationSort[] = ['created', 'validAt']
+const ORDERS: readonly SortOrder[] = ['asc', 'desc']
+const SOURCES: readonly AssociationSource[] = ['onchain', 'offchain']
+
+/**
+ * Thrown when query parameters or a cursor are malformed.
+ */
+export class InvalidAssociationQueryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvalidAssociationQueryError'
+  }
+}
+
+/**
+ * Status of a stored association at `now`.
+ */
+export function associationStatus(row: DbAssociation, now: bigint): AssociationStatus {
+  if (row.revoked_at !== null && BigInt(row.revoked_at) <= now) return 'revoked'
+  if (row.valid_until !== null && BigInt(row.valid_until) <= now) return 'expired'
+  if (BigInt(row.valid_at) > now) return 'not-yet-valid'
+  return 'active'
+}
+
+/**
+ * Sort value of a row for the cursor.
+ */
+export function sortValue(row: DbAssociation, sort: AssociationSort): string {
+  return sort === 'validAt' ? row.valid_at : ''
+}
+
+export function encodeCursor(cursor: AssociationCursor): string {
+  const json = JSON.stringify([cursor.sort, cursor.order, cursor.value, cursor.id])
+  return base64urlnopad.encode(new TextEncoder().encode(json))
+}
+
+export function decodeCursor(token: string): AssociationCursor {
+  try {
+    const [sort, order, value, id] = JSON.parse(new TextDecoder().decode(base64urlnopad.decode(token)))
+    if (SORTS.includes(sort) && ORDERS.includes(order) && typeof value === 'string' && Number.isInteger(id)) {
+      return { sort, order, value, id }
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidAssociationQueryError('Malformed cursor')
+}
+
+/**
+ * Build the next page's cursor from the rows of the current page.
+ * `hasMore` is whether rows exist past the last one.
+ */
+export function nextCursor(query: AssociationQuery, rows: DbAssociation[], hasMore: boolean): string | null {
+  const last = rows[rows.length - 1]
+  if (!hasMore || !last) return null
+  return encodeCursor({ sort: query.sort, order: query.order, value: sortValue(last, query.sort), id: last.id })
+}
+
+function parseEnum<T extends string>(params: URLSearchParams, name: string, values: readonly T[]): T | undefined {
+  const value = params.get(name)
+  if (value === null) return undefined
+  if (!(values as readonly string[]).includes(value)) {
+    throw new InvalidAssociationQueryError(`Invalid ${name} "${value}", expected one of ${values.join(', ')}`)
+  }
+  return value as T
+}
+
+function parseUnixSeconds(params: URLSearchParams, name: string): bigint | undefined {
+  const value = params.get(name)
+  if (value === null) return undefined
+  if (!/^\d+$/.test(value)) {
+    throw new InvalidAssociationQueryError(`Invalid ${name} "${value}", expected unix seconds`)
+  }
+  return BigInt(value)
+}
+
+/**
+ * Parse the query parameters of GET /api/associations.
+ *
+ * - `address`, `role` (initiator | approver)
+ * - `status` (active | expired | revoked | not-yet-valid), evaluated at `now`
+ * - `keyType` (bytes2 hex like 0x8002, or decimal), `interfaceId` (bytes4 hex)
+ * - `source` (onchain | offchain)
+ * - `createdFrom`, `createdTo`, `validFrom`, `validTo` (unix seconds)
+ * - `sort` (created | validAt), `order` (asc | desc), `limit`, `cursor`
+ */
+export function parseAssociationQuery(params: URLSearchParams, now: bigint): AssociationQuery {
+  // EVM addresses are stored lowercased; other chain types are case-sensitive
+  const rawAddress = params.get('address') ?? undefined
+  const address = rawAddress && isAddress(rawAddress) ? rawAddress.toLowerCase() : rawAddress
+  const role = parseEnum(params, 'role', ROLES)
+  if (role && !address) {
+    throw new InvalidAssociationQueryError('role requires address')
+  }
+
+  let keyType: number | undefined
+  const keyTypeParam = params.get('keyType')
+  if (keyTypeParam !== null) {
+    keyType = /^0x[0-9a-fA-F]{1,4}$/.test(keyTypeParam)
+      ? parseInt(keyTypeParam, 16)
+      : /^\d+$/.test(keyTypeParam) ? Number(keyTypeParam) : NaN
+    if (!Number.isInteger(keyType) || keyType > 0xffff) {
+      throw new InvalidAssociationQueryError(`Invalid keyType "${keyTypeParam}", expected bytes2 hex or decimal`)
+    }
+  }
+
+  const interfaceId = params.get('interfaceId') ?? undefined
+  if (interfaceId !== undefined && (!isHex(interfaceId) || size(interfaceId) !== 4)) {
+    throw new InvalidAssociationQueryError(`Invalid interfaceId "${interfaceId}", expected bytes4 hex`)
+  }
+
+  const limitParam = params.get('limit')
+  const limit = limitParam === null ? DEFAULT_QUERY_LIMIT : Number(limitParam)
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_QUERY_LIMIT) {
+    throw new InvalidAssociationQueryError(`Invalid limit "${limitParam}", expected 1 to ${MAX_QUERY_LIMIT}`)
+  }
+
+  const sort = parseEnum(params, 'sort', SORTS) ?? 'created'
+  const order = parseEnum(params, 'order', ORDERS) ?? 'desc'
+
+  const cursorParam = params.get('cursor')
+  const after = cursorParam ? decodeCursor(cursorParam) : undefined
+  if (after && (after.sort !== sort || after.order !== order)) {
+    throw new InvalidAssociationQueryError('cursor was issued for a different sort or order')
+  }
+
+  return {
+    address,
+    role,
+    status: parseEnum(params, 'status', STATUSES),
+    now,
+    keyType,
+    source: parseEnum(params, 'source', SOURCES),
+    interfaceId: interfaceId?.toLowerCase() as Hex | undefined,
+    createdFrom: parseUnixSeconds(params, 'createdFrom'),
+    createdTo: parseUnixSeconds(params, 'createdTo'),
+    validFrom: parseUnixSeconds(params, 'validFrom'),
+    validTo: parseUnixSeconds(params, 'validTo'),
+    sort,
+    order,
+    limit,
+    after,
+  }
+}
@@ -0,0 +1,113 @@
+import type { Hex } from 'viem'
+import { formatKeyType } from '../keyTypes'
+import type { AssociatedAccountRecord, SignedAssociationRecord } from '../types'
+import type { DbAssociation, DbPendingAssociation, NewAssociation, NewPendingAssociation } from './types'
+
+// Columns written on insert; `id` and `created_at` are assigned by the store
+export type AssociationRowValues = Omit<DbAssociation, 'id' | 'created_at'>
+
+/**
+ * Map an association to its column values. Zero/empty optional fields are stored as NULL.
+ */
+export function toRowValues({ hash, initiatorAddress, approverAddress, aar, sar, source, onchain }: NewAssociation): AssociationRowValues {
+  return {
+    hash: hash.toLowerCase(),
+    initiator_address: initiatorAddress,
+    approver_address: approverAddress,
+    initiator_bytes: aar.initiator,
+    approver_bytes: aar.approver,
+    valid_at: aar.validAt.toString(),
+    valid_until: aar.validUntil === 0n ? null : aar.validUntil.toString(),
+    interface_id: aar.interfaceId === '0x00000000' ? null : aar.interfaceId,
+    data: aar.data === '0x' ? null : aar.data,
+    revoked_at: sar.revokedAt === 0n ? null : sar.revokedAt.toString(),
+    initiator_key_type: formatKeyType(sar.initiatorKeyType),
+    approver_key_type: formatKeyType(sar.approverKeyType),
+    initiator_signature: sar.initiatorSignature,
+    approver_signature: sar.approverSignature,
+    source: source ?? 'offchain',
+    block_number: onchain ? onchain.blockNumber.toString() : null,
+    transaction_hash: onchain ? onchain.transactionHash.toLowerCase() : null,
+  }
+}
+
+// Columns written on insert of a pending association; `status` and `created_at` are assigned by the store
+export type PendingRowValues = Omit<DbPendingAssociation, 'status' | 'created_at'>
+
+/**
+ * Map a pending association to its column values, like toRowValues without the approver's signature.
+ */
+export function toPendingRowValues({ hash, initiatorAddress, approverAddress, aar, sar, expiresAt }: NewPendingAssociation): PendingRowValues {
+  const row = toRowValues({ hash, initiatorAddress, approverAddress, aar, sar })
+  return {
+    hash: row.hash,
+    initiator_address: row.initiator_address,
+    approver_address: row.approver_address,
+    initiator_bytes: row.initiator_bytes,
+    approver_bytes: row.approver_bytes,
+    valid_at: row.valid_at,
+    valid_until: row.valid_until,
+    interface_id: row.interface_id,
+    data: row.data,
+    initiator_key_type: row.initiator_key_type,
+    initiator_signature: row.initiator_signature,
+    expires_at: expiresAt.toString(),
+  }
+}
+
+/**
+ * Rebuild the AAR/SAR from a stored row.
+ */
+export function rowToRecords(row: DbAssociation): { aar: AssociatedAccountRecord; sar: SignedAssociationRecord } {
+  const aar: AssociatedAccountRecord = {
+    initiator: row.initiator_bytes as Hex,
+    approver: row.approver_bytes as Hex,
+    validAt: BigInt(row.valid_at),
+    validUntil: row.valid_until ? BigInt(row.valid_until) : 0n,
+    interfaceId: (row.interface_id || '0x00000000') as Hex,
+    data: (row.data || '0x') as Hex,
+  }
+  const sar: SignedAssociationRecord = {
+    revokedAt: row.revoked_at ? BigInt(row.revoked_at) : 0n,
+    initiatorKeyType: parseInt(row.initiator_key_type, 16),
+    approverKeyType: parseInt(row.approver_key_type, 16),
+    initiatorSignature: row.initiator_signature as Hex,
+    approverSignature: row.approver_signature as Hex,
+    record: aar,
+  }
+  return { aar, sar }
+}
+
+/**
+ * Whether a stored row carries the same key types and signatures as a SAR.
+ * Resubmitting the same signed record is idempotent; anything else is a conflict.
+ */
+export function hasSameSignatures(row: DbAssociation, sar: SignedAssociationRecord): boolean {
+  return row.initiator_key_type === formatKeyType(sar.initiatorKeyType) &&
+    row.approver_key_type === formatKeyType(sar.approverKeyType) &&
+    row.initiator_signature.toLowerCase() === sar.initiatorSignature.toLowerCase() &&
+    row.approver_signature.toLowerCase() === sar.approverSignature.toLowerCase()
+}
+
+/**
+ * Whether an offchain row has been superseded by the same association stored onchain.
+ */
+export function isSuperseded(row: DbAssociation): boolean {
+  return row.source === 'offchain' && row.transaction_hash !== null
+}
+
+/**
+ * Rebuild the AAR and the initiator-signed SAR from a pending row.
+ */
+export function pendingRowToRecords(row: DbPendingAssociation): { aar: AssociatedAccountRecord; sar: SignedAssociationRecord } {
+  return rowToRecords({
+    ...row,
+    id: 0,
+    revoked_at: null,
+    approver_key_type: '0x0000',
+    approver_signature: '0x',
+    source: 'offchain',
+    block_number: null,
+    transaction_hash: null,
+  })
+}
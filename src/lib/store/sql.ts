@@ -0,0 +1,415 @@
+import type { Hex } from 'viem'
+import { formatKeyType } from '../keyTypes'
+import type { SqlStatement } from './migrate'
+import { nextCursor, type AssociationQuery } from './query'
+import { toPendingRowValues, toRowValues } from './rows'
+import { AssociationExistsError, type AssociationStore, type DbAssociation, type DbPendingAssociation } from './types'
+
+/**
+ * Postgres-backed store shared by the Neon and PGlite backends.
+ * Both only need to run a parameterized query and return its rows.
+ */
+
+export type SqlQuery = (text: string, params?: unknown[]) => Promise<Record<string, unknown>[]>
+
+export interface SqlDriver {
+  query: SqlQuery
+  /** Run statements atomically and return the rows of each */
+  transaction: (statements: SqlStatement[]) => Promise<Record<string, unknown>[][]>
+}
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505'
+
+// BIGINT columns, returned as strings by Neon but as numbers by PGlite
+const BIGINT_COLUMNS = new Set(['valid_at', 'valid_until', 'revoked_at', 'block_number', 'expires_at'])
+
+/**
+ * Normalize driver-specific values (bigint, Date) to the API's string form.
+ */
+function toApiRow<T extends DbAssociation | DbPendingAssociation>(row: Record<string, unknown>): T {
+  const normalized: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(row)) {
+    if (typeof value === 'bigint' || (typeof value === 'number' && BIGINT_COLUMNS.has(key))) {
+      normalized[key] = value.toString()
+    } else if (value instanceof Date) {
+      normalized[key] = value.toISOString()
+    } else {
+      normalized[key] = value
+    }
+  }
+  return normalized as unknown as T
+}
+
+/**
+ * Build the SELECT for an association query. Fetches one row past the limit
+ * so the caller can tell whether another page exists.
+ */
+function buildQuery(q: AssociationQuery): { text: string; params: unknown[] } {
+  const params: unknown[] = []
+  const param = (value: unknown) => {
+    params.push(value)
+    return `$${params.length}`
+  }
+  const where: string[] = []
+
+  if (q.address !== undefined) {
+    const address = param(q.address)
+    where.push(
+      q.role === 'initiator' ? `initiator_address = ${address}`
+        : q.role === 'approver' ? `approver_address = ${address}`
+          : `(initiator_address = ${address} OR approver_address = ${address})`
+    )
+  }
+
+  if (q.status) {
+    const now = param(q.now.toString())
+    const revoked = `(revoked_at IS NOT NULL AND revoked_at <= ${now})`
+    const expired = `(valid_until IS NOT NULL AND valid_until <= ${now})`
+    const notYetValid = `valid_at > ${now}`
+    switch (q.status) {
+      case 'revoked':
+        where.push(revoked)
+        break
+      case 'expired':
+        where.push(`NOT ${revoked} AND ${expired}`)
+        break
+      case 'not-yet-valid':
+        where.push(`NOT ${revoked} AND NOT ${expired} AND ${notYetValid}`)
+        break
+      case 'active':
+        where.push(`NOT ${revoked} AND NOT ${expired} AND NOT ${notYetValid}`)
+        break
+    }
+  }
+
+  if (q.keyType !== undefined) {
+    const keyType = param(formatKeyType(q.keyType))
+    where.push(
+      q.role === 'initiator' ? `initiator_key_type = ${keyType}`
+        : q.role === 'approver' ? `approver_key_type = ${keyType}`
+          : `(initiator_key_type = ${keyType} OR approver_key_type = ${keyType})`
+    )
+  }
+
+  if (q.source !== undefined) where.push(`source = ${param(q.source)}`)
+
+  if (q.interfaceId !== undefined) {
+    // The zero interface ID is stored as NULL
+    where.push(q.interfaceId === '0x00000000' ? 'interface_id IS NULL' : `LOWER(interface_id) = ${param(q.interfaceId)}`)
+  }
+
+  if (q.createdFrom !== undefined) where.push(`EXTRACT(EPOCH FROM created_at) >= ${param(q.createdFrom.toString())}`)
+  if (q.createdTo !== undefined) where.push(`EXTRACT(EPOCH FROM created_at) <= ${param(q.createdTo.toString())}`)
+  if (q.validFrom !== undefined) where.push(`(valid_until IS NULL OR valid_until > ${param(q.validFrom.toString())})`)
+  if (q.validTo !== undefined) where.push(`valid_at <= ${param(q.validTo.toString())}`)
+
+  const direction = q.order === 'asc' ? 'ASC' : 'DESC'
+  const comparison = q.order === 'asc' ? '>' : '<'
+  if (q.after) {
+    where.push(
+      q.sort === 'validAt'
+        ? `(valid_at, id) ${comparison} (${param(q.after.value)}, ${param(q.after.id)})`
+        : `id ${comparison} ${param(q.after.id)}`
+    )
+  }
+  const orderBy = q.sort === 'validAt' ? `valid_at ${direction}, id ${direction}` : `id ${direction}`
+
+  return {
+    text: `SELECT * FROM associations
+      ${where.length ? `WHERE ${where.join(' AND ')}` : ''}
+      ORDER BY ${orderBy}
+      LIMIT ${param(q.limit + 1)}`,
+    params,
+  }
+}
+
+export function createSqlAssociationStore({ query, transaction }: SqlDriver): AssociationStore {
+  const select = async (text: string, params: unknown[]) =>
+    (await query(text, params)).map(toApiRow<DbAssociation>)
+  const selectPending = async (text: string, params: unknown[]) =>
+    (await query(text, params)).map(toApiRow<DbPendingAssociation>)
+
+  return {
+    insert: async (association) => {
+      const row = toRowValues(association)
+      try {
+        // The accounts, the association and the answered pending request are written together
+        const [, [inserted]] = await transaction([
+          {
+            // Ensure accounts exist (upsert)
+            text: 'INSERT INTO accounts (address) VALUES ($1), ($2) ON CONFLICT (address) DO NOTHING',
+            params: [row.initiator_address, row.approver_address],
+          },
+          {
+            text: `INSERT INTO associations (
+              hash,
+              initiator_address,
+              approver_address,
+              initiator_bytes,
+              approver_bytes,
+              valid_at,
+              valid_until,
+              interface_id,
+              data,
+              revoked_at,
+              initiator_key_type,
+              approver_key_type,
+              initiator_signature,
+              approver_signature,
+              source,
+              block_number,
+              transaction_hash
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+            RETURNING *`,
+            params: [
+              row.hash,
+              row.initiator_address,
+              row.approver_address,
+              row.initiator_bytes,
+              row.approver_bytes,
+              row.valid_at,
+              row.valid_until,
+              row.interface_id,
+              row.data,
+              row.revoked_at,
+              row.initiator_key_type,
+              row.approver_key_type,
+              row.initiator_signature,
+              row.approver_signature,
+              row.source,
+              row.block_number,
+              row.transaction_hash,
+            ],
+          },
+          {
+            // The stored association answers its pending request
+            text: 'DELETE FROM pending_associations WHERE hash = $1',
+            params: [row.hash],
+          },
+        ])
+        return toApiRow<DbAssociation>(inserted)
+      } catch (err) {
+        if ((err as { code?: string }).code === UNIQUE_VIOLATION) {
+          throw new AssociationExistsError(association.hash)
+        }
+        throw err
+      }
+    },
+
+    getByHash: async (hash: Hex) => {
+      const [row] = await select('SELECT * FROM associations WHERE hash = $1', [hash.toLowerCase()])
+      return row ?? null
+    },
+
+    query: async (q) => {
+      const { text, params } = buildQuery(q)
+      const rows = await select(text, params)
+      const associations = rows.slice(0, q.limit)
+      return { associations, nextCursor: nextCursor(q, associations, rows.length > q.limit) }
+    },
+
+    revoke: async (hash, revokedAt) => {
+      // Only update if not currently revoked, or the new timestamp is earlier
+      await query(
+        `UPDATE associations
+        SET revoked_at = $2
+        WHERE hash = $1
+          AND (revoked_at IS NULL OR revoked_at > $2)`,
+        [hash.toLowerCase(), revokedAt.toString()]
+      )
+      const [row] = await select('SELECT * FROM associations WHERE hash = $1', [hash.toLowerCase()])
+      return row ?? null
+    },
+
+    consumeRequestNonce: async (kind, signer, nonce, deadline) => {
+      const inserted = await query(
+        `INSERT INTO request_nonces (kind, signer, nonce, deadline)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (kind, signer, nonce) DO NOTHING
+        RETURNING signer`,
+        [kind, signer, nonce.toString(), deadline.toString()]
+      )
+      return inserted.length > 0
+    },
+
+    pruneExpiredRequestNonces: async (now) => {
+      const deleted = await query(
+        'DELETE FROM request_nonces WHERE deadline < $1 RETURNING nonce',
+        [now.toString()]
+      )
+      return deleted.length
+    },
+
+    insertPending: async (pending, now) => {
+      const row = toPendingRowValues(pending)
+      try {
+        const [, [inserted]] = await transaction([
+          {
+            // An expired request for the same association is replaced
+            text: 'DELETE FROM pending_associations WHERE hash = $1 AND expires_at <= $2',
+            params: [row.hash, now.toString()],
+          },
+          {
+            text: `INSERT INTO pending_associations (
+              hash,
+              initiator_address,
+              approver_address,
+              initiator_bytes,
+              approver_bytes,
+              valid_at,
+              valid_until,
+              interface_id,
+              data,
+              initiator_key_type,
+              initiator_signature,
+              expires_at
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+            RETURNING *`,
+            params: [
+              row.hash,
+              row.initiator_address,
+              row.approver_address,
+              row.initiator_bytes,
+              row.approver_bytes,
+              row.valid_at,
+              row.valid_until,
+              row.interface_id,
+              row.data,
+              row.initiator_key_type,
+              row.initiator_signature,
+              row.expires_at,
+            ],
+          },
+        ])
+        return toApiRow<DbPendingAssociation>(inserted)
+      } catch (err) {
+        if ((err as { code?: string }).code === UNIQUE_VIOLATION) {
+          throw new AssociationExistsError(pending.hash)
+        }
+        throw err
+      }
+    },
+
+    getPending: async (hash, now) => {
+      const [row] = await selectPending(
+        'SELECT * FROM pending_associations WHERE hash = $1 AND expires_at > $2',
+        [hash.toLowerCase(), now.toString()]
+      )
+      return row ?? null
+    },
+
+    listPending: async (address, now) => {
+      return selectPending(
+        `SELECT * FROM pending_associations
+        WHERE (initiator_address = $1 OR approver_address = $1)
+          AND expires_at > $2
+        ORDER BY created_at DESC, hash`,
+        [address, now.toString()]
+      )
+    },
+
+    rejectPending: async (hash, now) => {
+      const [row] = await selectPending(
+        `UPDATE pending_associations
+        SET status = 'rejected'
+        WHERE hash = $1 AND status = 'pending' AND expires_at > $2
+        RETURNING *`,
+        [hash.toLowerCase(), now.toString()]
+      )
+      return row ?? null
+    },
+
+    pruneExpiredPending: async (now) => {
+      const deleted = await query(
+        'DELETE FROM pending_associations WHERE expires_at <= $1 RETURNING hash',
+        [now.toString()]
+      )
+      return deleted.length
+    },
+
+    getIndexedBlocks: async () => {
+      const rows = await query('SELECT block_number, block_hash FROM indexer_blocks ORDER BY block_number')
+      return rows.map((row) => ({ number: BigInt(row.block_number as string | number), hash: row.block_hash as Hex }))
+    },
+
+    saveIndexedBlocks: async (blocks, pruneBelow) => {
+      for (const block of blocks) {
+        await query(
+          `INSERT INTO indexer_blocks (block_number, block_hash) VALUES ($1, $2)
+          ON CONFLICT (block_number) DO UPDATE SET block_hash = EXCLUDED.block_hash`,
+          [block.number.toString(), block.hash.toLowerCase()]
+        )
+      }
+      await query(
+        `DELETE FROM indexer_blocks
+        WHERE block_number < $1
+          AND block_number < (SELECT MAX(block_number) FROM indexer_blocks)`,
+        [pruneBelow.toString()]
+      )
+    },
+
+    supersedeOffchain: async (hash, onchain) => {
+      await query(
+        `UPDATE associations
+        SET block_number = $2, transaction_hash = $3
+        WHERE hash = $1 AND source = 'offchain'`,
+        [hash.toLowerCase(), onchain.blockNumber.toString(), onchain.transactionHash.toLowerCase()]
+      )
+    },
+
+    recordOnchainRevocation: async (revocation) => {
+      const hash = revocation.hash.toLowerCase()
+      // Keep the current revoked_at so a rollback can restore it
+      const inserted = await query(
+        `INSERT INTO onchain_revocations (
+          block_number, log_index, transaction_hash, hash, revoked_by, revoked_at, previous_revoked_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, (SELECT revoked_at FROM associations WHERE hash = $4))
+        ON CONFLICT (block_number, log_index) DO NOTHING
+        RETURNING hash`,
+        [
+          revocation.blockNumber.toString(),
+          revocation.logIndex,
+          revocation.transactionHash.toLowerCase(),
+          hash,
+          revocation.revokedBy.toLowerCase(),
+          revocation.revokedAt.toString(),
+        ]
+      )
+      if (inserted.length === 0) return
+      await query(
+        `UPDATE associations
+        SET revoked_at = $2
+        WHERE hash = $1
+          AND (revoked_at IS NULL OR revoked_at > $2)`,
+        [hash, revocation.revokedAt.toString()]
+      )
+    },
+
+    rollbackOnchain: async (blockNumber) => {
+      const block = blockNumber.toString()
+      // Undo revocations newest first, so each restores the value it replaced
+      const revocations = await query(
+        `SELECT hash, previous_revoked_at FROM onchain_revocations
+        WHERE block_number > $1
+        ORDER BY block_number DESC, log_index DESC`,
+        [block]
+      )
+      for (const revocation of revocations) {
+        await query('UPDATE associations SET revoked_at = $2 WHERE hash = $1', [
+          revocation.hash,
+          revocation.previous_revoked_at,
+        ])
+      }
+      await query('DELETE FROM onchain_revocations WHERE block_number > $1', [block])
+      await query(`DELETE FROM associations WHERE source = 'onchain' AND block_number > $1`, [block])
+      await query(
+        `UPDATE associations
+        SET block_number = NULL, transaction_hash = NULL
+        WHERE source = 'offchain' AND block_number > $1`,
+        [block]
+      )
+      await query('DELETE FROM indexer_blocks WHERE block_number > $1', [block])
+    },
+  }
+}
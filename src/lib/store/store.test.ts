@@ -0,0 +1,104 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { encodeEvmAddress } from '@/lib/erc7930'
+import { CHAIN_ID, testAddress, testAssociation } from '@/test/fixtures'
+import { createMemoryAssociationStore } from './memory'
+import { migrateUp } from './migrate'
+import { MIGRATIONS } from './migrations'
+import { createPgliteAssociationStore, createPgliteDriver } from './pglite'
+import { createSqlAssociationStore } from './sql'
+import { decodeCursor } from './query'
+import { isSuperseded } from './rows'
+import { AssociationExistsError, type AssociationStore } from './types'
+
+// The same contract for every backend; PGlite runs the migrations on first use
+const BACKENDS: [string, () => AssociationStore][] = [
+  ['memory', createMemoryAssociationStore],
+  ['pglite', () => createPgliteAssociationStore()],
+]
+
+for (const [name, createStore] of BACKENDS) {
+  describe(`${name} association store`, () => {
+    it('insert and look up by hash, rejecting duplicates', async () => {
+      const store = createStore()
+      const association = testAssociation()
+      const row = await store.insert(association)
+      assert.equal(row.hash, association.hash)
+      assert.equal(row.source, 'offchain')
+      assert.equal((await store.getByHash(association.hash))?.id, row.id)
+      await assert.rejects(store.insert(association), AssociationExistsError)
+    })
+
+    it('keep the earliest revocation', async () => {
+      const store = createStore()
+      const { hash } = testAssociation()
+      await store.insert(testAssociation())
+      assert.equal((await store.revoke(hash, 500n))?.revoked_at, '500')
+      assert.equal((await store.revoke(hash, 600n))?.revoked_at, '500')
+      assert.equal((await store.revoke(hash, 400n))?.revoked_at, '400')
+      assert.equal(await store.revoke(testAssociation({ validAt: 1n }).hash, 400n), null)
+    })
+
+    it('mark offchain associations superseded by their onchain copy', async () => {
+      const store = createStore()
+      const association = testAssociation()
+      await store.insert(association)
+      assert.equal(isSuperseded((await store.getByHash(association.hash))!), false)
+
+      const transactionHash = `0x${'cd'.repeat(32)}` as const
+      await store.supersedeOffchain(association.hash, { blockNumber: 42n, transactionHash })
+      const row = (await store.getByHash(association.hash))!
+      assert.equal(isSuperseded(row), true)
+      assert.equal(row.source, 'offchain')
+      assert.equal(row.transaction_hash, transactionHash)
+    })
+
+    it('use each request nonce once per kind and signer', async () => {
+      const store = createStore()
+      assert.equal(await store.consumeRequestNonce('revocation', '0xa', 1n, 100n), true)
+      assert.equal(await store.consumeRequestNonce('revocation', '0xa', 1n, 100n), false)
+      assert.equal(await store.consumeRequestNonce('revocation', '0xb', 1n, 100n), true)
+      assert.equal(await store.consumeRequestNonce('rejection', '0xa', 1n, 100n), true)
+    })
+
+    it('prune nonces past their deadline', async () => {
+      const store = createStore()
+      await store.consumeRequestNonce('revocation', '0xa', 1n, 100n)
+      await store.consumeRequestNonce('revocation', '0xa', 2n, 200n)
+      assert.equal(await store.pruneExpiredRequestNonces(100n), 0)
+      assert.equal(await store.pruneExpiredRequestNonces(150n), 1)
+      assert.equal(await store.consumeRequestNonce('revocation', '0xa', 2n, 200n), false)
+    })
+
+    it('page through associations with cursors', async () => {
+      const store = createStore()
+      for (let validAt = 1n; validAt <= 5n; validAt++) {
+        await store.insert(testAssociation({ validAt }))
+      }
+      const seen: string[] = []
+      let after: ReturnType<typeof decodeCursor> | undefined
+      do {
+        const page = await store.query({ now: 10n, sort: 'validAt', order: 'asc', limit: 2, after })
+        seen.push(...page.associations.map((row) => row.valid_at))
+        after = page.nextCursor ? decodeCursor(page.nextCursor) : undefined
+      } while (after)
+      assert.deepEqual(seen, ['1', '2', '3', '4', '5'])
+    })
+  })
+}
+
+describe('sql association store', () => {
+  it('write nothing when the association insert fails', async () => {
+    const driver = createPgliteDriver()
+    await migrateUp(driver, MIGRATIONS)
+    const store = createSqlAssociationStore(driver)
+    const stored = testAssociation()
+    await store.insert(stored)
+
+    // Same hash, so the association insert fails after the new party's account was upserted
+    const initiator = encodeEvmAddress(testAddress(3), CHAIN_ID)
+    await assert.rejects(store.insert({ ...testAssociation({ initiator }), hash: stored.hash }), AssociationExistsError)
+    assert.deepEqual(await driver.query('SELECT address FROM accounts WHERE address = $1', [testAddress(3)]), [])
+    await driver.close?.()
+  })
+})
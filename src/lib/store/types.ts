@@ -0,0 +1,199 @@
+import type { Hex } from 'viem'
+import type { AssociatedAccountRecord, SignedAssociationRecord } from '../types'
+import type { AssociationPage, AssociationQuery } from './query'
+
+// Where an association was stored: the offchain API, or the AssociationsStore contract (via the indexer)
+export type AssociationSource = 'onchain' | 'offchain'
+
+// Row shape of the `associations` table, as returned by the API
+export interface DbAssociation {
+  id: number
+  /** EIP-712 hash of the AAR, the association ID shared with onchain storage */
+  hash: string
+  initiator_address: string
+  approver_address: string
+  initiator_bytes: string
+  approver_bytes: string
+  valid_at: string // bigint comes as string from postgres
+  valid_until: string | null
+  interface_id: string | null
+  data: string | null
+  revoked_at: string | null
+  initiator_key_type: string
+  approver_key_type: string
+  initiator_signature: string
+  approver_signature: string
+  source: AssociationSource
+  /**
+   * Block and transaction of the AssociationCreated event, for onchain associations
+   * and for offchain copies superseded by the same association stored onchain
+   */
+  block_number: string | null
+  transaction_hash: string | null
+  created_at: string
+}
+
+// A validated association ready to be stored
+export interface NewAssociation {
+  /** EIP-712 hash of the AAR */
+  hash: Hex
+  /** Account keys (see toAccountKey) of both parties */
+  initiatorAddress: string
+  approverAddress: string
+  aar: AssociatedAccountRecord
+  sar: SignedAssociationRecord
+  /** Defaults to 'offchain' */
+  source?: AssociationSource
+  /** Location of the AssociationCreated event, for onchain associations */
+  onchain?: OnchainLocation
+}
+
+// Signed requests to the store, each kind with its own nonces: RevocationRequest and PendingRejection
+export type SignedRequestKind = 'revocation' | 'rejection'
+
+// A pending association awaits the approver; a rejected one stays visible to the initiator until it expires
+export type PendingAssociationStatus = 'pending' | 'rejected'
+
+// Row shape of the `pending_associations` table: an association signed by the initiator only
+export interface DbPendingAssociation {
+  /** EIP-712 hash of the AAR, the association ID once stored */
+  hash: string
+  initiator_address: string
+  approver_address: string
+  initiator_bytes: string
+  approver_bytes: string
+  valid_at: string
+  valid_until: string | null
+  interface_id: string | null
+  data: string | null
+  initiator_key_type: string
+  initiator_signature: string
+  status: PendingAssociationStatus
+  /** Unix seconds after which the request is dropped */
+  expires_at: string
+  created_at: string
+}
+
+// An association with a valid initiator signature, awaiting the approver
+export interface NewPendingAssociation {
+  /** EIP-712 hash of the AAR */
+  hash: Hex
+  /** Account keys (see toAccountKey) of both parties */
+  initiatorAddress: string
+  approverAddress: string
+  aar: AssociatedAccountRecord
+  /** Signed by the initiator; the approver fields are ignored */
+  sar: SignedAssociationRecord
+  /** Unix seconds after which the request is dropped */
+  expiresAt: bigint
+}
+
+// Position of an indexed event
+export interface OnchainLocation {
+  blockNumber: bigint
+  transactionHash: Hex
+}
+
+// A block the indexer has processed; hashes of recent blocks detect reorgs
+export interface IndexedBlock {
+  number: bigint
+  hash: Hex
+}
+
+// An indexed AssociationRevoked event
+export interface OnchainRevocation extends OnchainLocation {
+  hash: Hex
+  /** keccak256 of the revoking party's ERC-7930 address */
+  revokedBy: Hex
+  revokedAt: bigint
+  logIndex: number
+}
+
+/**
+ * Persistence for the onchain event indexer.
+ * Every write is idempotent, so a batch interrupted before its checkpoint can be replayed.
+ */
+export interface IndexerStore {
+  /** Processed blocks still within the reorg window, plus the checkpoint (the highest), ascending */
+  getIndexedBlocks: () => Promise<IndexedBlock[]>
+  /** Remember processed blocks and drop those below `pruneBelow`, always keeping the highest */
+  saveIndexedBlocks: (blocks: IndexedBlock[], pruneBelow: bigint) => Promise<void>
+  /**
+   * Mark an offchain association as superseded by the same association stored onchain.
+   * The onchain record takes precedence; offchain rows keep their source but gain its location.
+   */
+  supersedeOffchain: (hash: Hex, onchain: OnchainLocation) => Promise<void>
+  /** Record a revocation event and apply it to the association, if stored */
+  recordOnchainRevocation: (revocation: OnchainRevocation) => Promise<void>
+  /** Undo everything indexed above `blockNumber`: onchain associations, supersessions, revocations and blocks */
+  rollbackOnchain: (blockNumber: bigint) => Promise<void>
+}
+
+/**
+ * Offchain association storage, which also mirrors the onchain store via the indexer.
+ * Implementations: Neon (serverless Postgres), PGlite (embedded Postgres) and in-memory.
+ */
+export interface AssociationStore extends IndexerStore {
+  /**
+   * Store an association and its accounts, dropping its pending request if any.
+   * Throws AssociationExistsError if the hash is taken.
+   */
+  insert: (association: NewAssociation) => Promise<DbAssociation>
+  getByHash: (hash: Hex) => Promise<DbAssociation | null>
+  /** One page of associations matching the filters, in the requested order */
+  query: (query: AssociationQuery) => Promise<AssociationPage>
+  /**
+   * Set `revoked_at`, unless the association is already revoked at an earlier time
+   * (the earlier timestamp takes precedence per ERC-8092). Returns null if not found.
+   */
+  revoke: (hash: Hex, revokedAt: bigint) => Promise<DbAssociation | null>
+  /**
+   * Record the nonce of a signed request of `kind` as used by `signer` (an account key).
+   * Returns false if the signer already used it for that kind.
+   */
+  consumeRequestNonce: (kind: SignedRequestKind, signer: string, nonce: bigint, deadline: bigint) => Promise<boolean>
+  /**
+   * Forget nonces of requests whose deadline passed before `now`, which can no longer be replayed.
+   * Returns how many were deleted.
+   */
+  pruneExpiredRequestNonces: (now: bigint) => Promise<number>
+  /**
+   * Store an association awaiting the approver's signature, replacing an expired request for it.
+   * Throws AssociationExistsError if a request with the hash has not expired at `now`.
+   */
+  insertPending: (pending: NewPendingAssociation, now: bigint) => Promise<DbPendingAssociation>
+  /** A pending or rejected association that has not expired at `now` */
+  getPending: (hash: Hex, now: bigint) => Promise<DbPendingAssociation | null>
+  /** Unexpired pending and rejected associations where `address` (an account key) is a party, newest first */
+  listPending: (address: string, now: bigint) => Promise<DbPendingAssociation[]>
+  /** Mark a pending association as rejected. Returns null if not found, expired or not pending. */
+  rejectPending: (hash: Hex, now: bigint) => Promise<DbPendingAssociation | null>
+  /** Delete pending associations expired at `now`. Returns how many were deleted. */
+  pruneExpiredPending: (now: bigint) => Promise<number>
+}
+
+/**
+ * Thrown when an association with the same hash is already stored.
+ */
+export class AssociationExistsError extends Error {
+  readonly hash: Hex
+
+  constructor(hash: Hex) {
+    super(`Association ${hash} is already stored`)
+    this.name = 'AssociationExistsError'
+    this.hash = hash
+  }
+}
+
+/**
+ * Thrown when an association is resubmitted with signatures that differ from the stored ones.
+ */
+export class AssociationConflictError extends Error {
+  readonly hash: Hex
+
+  constructor(hash: Hex) {
+    super(`Association ${hash} is already stored with different signatures`)
+    this.name = 'AssociationConflictError'
+    this.hash = hash
+  }
+}
@@ -1,5 +1,5 @@
-import { type Address, type Hex, toHex } from 'viem'
-import { buildFromPayload } from '@wonderland/interop-addresses'
+import { type Address, type Hex } from 'viem'
+import { encodeEvmAddress } from './erc7930'
 
 // Key type constants from ERC-8092
 export const KEY_TYPES = {
@@ -46,14 +46,36 @@ export type FlowStep =
   | 'complete'
   | 'revoke-existing'
 
-// Helper to convert address to ERC-7930 format using interop-addresses library
+// Where the store step writes the association: the contract, the offchain API, or both
+export type StorageStrategy = 'onchain' | 'database' | 'both'
+
+// One write of a storage strategy
+export type StorageLeg = 'onchain' | 'database'
+
+export const STORAGE_LEGS: Record<StorageStrategy, StorageLeg[]> = {
+  onchain: ['onchain'],
+  database: ['database'],
+  // The database copy is available immediately; the onchain record supersedes it once indexed
+  both: ['database', 'onchain'],
+}
+
+export const STORAGE_LEG_LABELS: Record<StorageLeg, string> = {
+  onchain: 'Onchain',
+  database: 'Database',
+}
+
+export type StorageLegStatus = 'idle' | 'pending' | 'stored' | 'failed'
+
+export const STORAGE_STATUS_LABELS: Record<StorageLegStatus, string> = {
+  idle: 'Not started',
+  pending: 'Storing...',
+  stored: '✓ Stored',
+  failed: 'Failed',
+}
+
+// Helper to convert an EVM address to ERC-7930 format
 export function addressToErc7930(address: Address, chainId: number): Hex {
-  return buildFromPayload({
-    version: 1,
-    chainType: 'eip155',
-    chainReference: toHex(chainId),
-    address: address,
-  })
+  return encodeEvmAddress(address, chainId)
 }
 
 // Create empty AAR
@@ -0,0 +1,104 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { privateKeyToAccount } from 'viem/accounts'
+import { hashAssociation } from './eip712'
+import { encodeEvmAddress } from './erc7930'
+import { KEY_TYPES, type AssociatedAccountRecord, type SignedAssociationRecord } from './types'
+import { findBlockAtTimestamp, resolveValidationTime, validateAssociation } from './validation'
+import { CHAIN_ID, testRecord } from '@/test/fixtures'
+
+// Blocks 0..100, block n mined at 1000 + 2n
+const chain = {
+  call: async () => undefined,
+  readContract: async () => undefined,
+  getCode: async () => undefined,
+  getBlock: async (args: { blockNumber?: bigint; blockTag?: string }) => {
+    const number = args.blockNumber ?? 100n
+    return { number, timestamp: 1000n + 2n * number }
+  },
+}
+
+describe('findBlockAtTimestamp', () => {
+  it('find the last block at or before the timestamp', async () => {
+    assert.equal(await findBlockAtTimestamp(chain, 1000n), 0n)
+    assert.equal(await findBlockAtTimestamp(chain, 1050n), 25n)
+    assert.equal(await findBlockAtTimestamp(chain, 1051n), 25n)
+    assert.equal(await findBlockAtTimestamp(chain, 1199n), 99n)
+  })
+
+  it('use the latest block for timestamps after it', async () => {
+    assert.equal(await findBlockAtTimestamp(chain, 5000n), 100n)
+  })
+
+  it('reject timestamps before the first block', async () => {
+    await assert.rejects(findBlockAtTimestamp(chain, 999n))
+  })
+})
+
+describe('resolveValidationTime', () => {
+  it('place a bare timestamp at a block', async () => {
+    assert.deepEqual(await resolveValidationTime({ timestamp: 1077n }, chain), { timestamp: 1077n, blockNumber: 38n })
+  })
+
+  it('keep an explicit block', async () => {
+    assert.deepEqual(await resolveValidationTime({ timestamp: 1077n, blockNumber: 5n }, chain), { timestamp: 1077n, blockNumber: 5n })
+  })
+})
+
+describe('validateAssociation', () => {
+  const initiator = privateKeyToAccount(`0x${'01'.repeat(32)}`)
+  const approver = privateKeyToAccount(`0x${'02'.repeat(32)}`)
+  const aar = testRecord({
+    initiator: encodeEvmAddress(initiator.address, CHAIN_ID),
+    approver: encodeEvmAddress(approver.address, CHAIN_ID),
+    validUntil: 1_700_003_600n,
+  })
+  const at = { timestamp: aar.validAt }
+
+  async function signedRecord(record: AssociatedAccountRecord, overrides: Partial<SignedAssociationRecord> = {}): Promise<SignedAssociationRecord> {
+    const hash = hashAssociation(record)
+    return {
+      revokedAt: 0n,
+      initiatorKeyType: KEY_TYPES.K1,
+      approverKeyType: KEY_TYPES.K1,
+      initiatorSignature: await initiator.sign({ hash }),
+      approverSignature: await approver.sign({ hash }),
+      record,
+      ...overrides,
+    }
+  }
+
+  it('report the five spec checks in order', async () => {
+    const result = await validateAssociation({ aar, sar: await signedRecord(aar), at })
+    assert.equal(result.valid, true)
+    assert.deepEqual(result.checks.map((check) => check.step), ['validAt', 'validUntil', 'revokedAt', 'initiatorSignature', 'approverSignature'])
+    assert.deepEqual(result.checks.map((check) => check.code), ['Valid', 'Valid', 'NotRevoked', 'Valid', 'Valid'])
+    assert.equal(result.checks[1].message, 'Expires in 1h 0m')
+    assert.deepEqual(result.checks[3].verifier, { name: 'K1', method: 'EIP-712 ecrecover' })
+  })
+
+  it('report the first failing check and keep evaluating the rest', async () => {
+    const sar = await signedRecord(aar, { revokedAt: aar.validAt, approverSignature: await initiator.sign({ hash: hashAssociation(aar) }) })
+    const result = await validateAssociation({ aar, sar, at: { timestamp: aar.validUntil } })
+    assert.equal(result.valid, false)
+    assert.equal(result.code, 'Expired')
+    assert.equal(result.error, result.checks[1].message)
+    assert.deepEqual(result.checks.map((check) => check.status), ['pass', 'fail', 'fail', 'pass', 'fail'])
+    assert.deepEqual(result.checks.map((check) => check.code), ['Valid', 'Expired', 'Revoked', 'Valid', 'InvalidSignature'])
+  })
+
+  it('skip missing signatures as NotPopulated without failing', async () => {
+    const sar = await signedRecord(aar, { approverKeyType: 0, approverSignature: '0x' })
+    const result = await validateAssociation({ aar, sar, at })
+    assert.equal(result.valid, true)
+    assert.deepEqual(result.checks[4], { step: 'approverSignature', status: 'skip', code: 'NotPopulated', message: 'No approver signature' })
+  })
+
+  it('fail a malformed party address even when its signature is missing', async () => {
+    const record = { ...aar, approver: '0x0001' as const }
+    const sar = await signedRecord(record, { approverSignature: '0x' })
+    const result = await validateAssociation({ aar: record, sar, at })
+    assert.equal(result.code, 'InvalidAddress')
+    assert.equal(result.checks[4].status, 'fail')
+  })
+})
@@ -1,8 +1,8 @@
-import { type Hex, verifyTypedData, getAddress } from 'viem'
-import { EIP712_DOMAIN, ASSOCIATED_ACCOUNT_RECORD_TYPES } from './eip712'
+import type { BlockTag, Hex } from 'viem'
 import type { AssociatedAccountRecord, SignedAssociationRecord } from './types'
-import { KEY_TYPES } from './types'
-import { verifyErc1271Signature, type Erc1271Client } from './erc1271'
+import type { Erc1271Client } from './erc1271'
+import { createDefaultKeyTypeRegistry, formatKeyType, verifyKeyTypeSignature, type KeyTypeRegistry } from './keyTypes'
+import { decodeInteropAddress, isInteropAddressError, type InteropAddress } from './erc7930'
 
 /**
  * ERC-8092 Validation
@@ -14,17 +14,158 @@ import { verifyErc1271Signature, type Erc1271Client } from './erc1271'
 export interface ValidationInput {
   aar: AssociatedAccountRecord
   sar: SignedAssociationRecord
-  /** Extracted EVM address of the initiator (from ERC-7930 bytes) */
-  initiatorAddress: Hex
-  /** Extracted EVM address of the approver (from ERC-7930 bytes) */
-  approverAddress: Hex
   /** Public client for ERC-1271/6492 validation (required for smart contract wallets) */
   publicClient?: Erc1271Client
+  /** Verifiers by key type; defaults to createDefaultKeyTypeRegistry() (no delegation schemas) */
+  keyTypeRegistry?: KeyTypeRegistry
+  /** Validate as of this time or block instead of now */
+  at?: ValidationTime
+}
+
+/**
+ * The point in time a record is validated at.
+ * - `{ timestamp }`: unix seconds for the time checks; contract calls use `blockNumber` if
+ *   given, otherwise the last block at or before the timestamp
+ * - `{ blockNumber }` / `{ blockTag }`: the block's timestamp drives the time checks (as
+ *   `block.timestamp` does for onchain consumers) and contract calls run at that block
+ */
+export type ValidationTime =
+  | { timestamp: bigint; blockNumber?: bigint }
+  | { blockNumber: bigint }
+  | { blockTag: BlockTag }
+
+export interface ResolvedValidationTime {
+  timestamp: bigint
+  /** Block contract calls are evaluated at, latest if undefined */
+  blockNumber?: bigint
+}
+
+const BLOCK_TAGS: readonly BlockTag[] = ['latest', 'earliest', 'pending', 'safe', 'finalized']
+
+/**
+ * Parse the text form of a validation time, as used by the `?at=` query parameter:
+ * a unix timestamp (`1735689600`), a block number (`block:12345678`) or a block tag (`finalized`).
+ * Returns null if the text is none of these.
+ */
+export function parseValidationTime(value: string): ValidationTime | null {
+  if (/^\d+$/.test(value)) {
+    return { timestamp: BigInt(value) }
+  }
+  const block = /^block:(\d+)$/.exec(value)
+  if (block) {
+    return { blockNumber: BigInt(block[1]) }
+  }
+  if ((BLOCK_TAGS as readonly string[]).includes(value)) {
+    return { blockTag: value as BlockTag }
+  }
+  return null
+}
+
+/**
+ * Resolve a validation time to a timestamp (and block), fetching the block when
+ * given a block number or tag, or searching for it when given a bare timestamp.
+ * Defaults to the current time.
+ */
+export async function resolveValidationTime(
+  at: ValidationTime | undefined,
+  publicClient?: Erc1271Client
+): Promise<ResolvedValidationTime> {
+  if (!at) {
+    return { timestamp: BigInt(Math.floor(Date.now() / 1000)) }
+  }
+  // Without a client there are no contract calls to place at a block
+  if ('timestamp' in at && (at.blockNumber !== undefined || !publicClient)) {
+    return { timestamp: at.timestamp, blockNumber: at.blockNumber }
+  }
+  if (!publicClient?.getBlock) {
+    throw new Error('A public client with getBlock is required to validate at a block')
+  }
+  if ('timestamp' in at) {
+    const blockNumber = await findBlockAtTimestamp({ getBlock: publicClient.getBlock }, at.timestamp)
+    return { timestamp: at.timestamp, blockNumber }
+  }
+  const block = 'blockNumber' in at
+    ? await publicClient.getBlock({ blockNumber: at.blockNumber })
+    : await publicClient.getBlock({ blockTag: at.blockTag })
+  // Pending blocks have no number yet; their calls run against the latest state
+  return { timestamp: block.timestamp, blockNumber: block.number ?? undefined }
+}
+
+/**
+ * Number of the last block at or before `timestamp`, by binary search over block
+ * timestamps (which never decrease). Throws if the timestamp predates the chain.
+ */
+export async function findBlockAtTimestamp(
+  publicClient: Pick<Required<Erc1271Client>, 'getBlock'>,
+  timestamp: bigint
+): Promise<bigint> {
+  const latest = await publicClient.getBlock({ blockTag: 'latest' })
+  if (latest.number === null) {
+    throw new Error('The latest block has no number')
+  }
+  if (latest.timestamp <= timestamp) {
+    return latest.number
+  }
+
+  // Invariant: block `low` is at or before the timestamp, block `high` is after it
+  let low = 0n
+  let high = latest.number
+  const genesis = await publicClient.getBlock({ blockNumber: low })
+  if (genesis.timestamp > timestamp) {
+    throw new Error(`Timestamp ${timestamp} is before the first block`)
+  }
+  while (high - low > 1n) {
+    const middle = (low + high) / 2n
+    const block = await publicClient.getBlock({ blockNumber: middle })
+    if (block.timestamp <= timestamp) {
+      low = middle
+    } else {
+      high = middle
+    }
+  }
+  return low
+}
+
+export type ValidationErrorCode =
+  | 'InvalidAddress'
+  | 'NotYetValid'
+  | 'Expired'
+  | 'Revoked'
+  | 'InvalidSignature'
+  | 'UnsupportedKeyType'
+
+export type ValidationCheckCode =
+  | ValidationErrorCode
+  | 'Valid'
+  | 'NoExpiry'
+  | 'NotRevoked'
+  | 'NotPopulated'
+
+// The five validation steps from the spec, in order
+export type ValidationStep = 'validAt' | 'validUntil' | 'revokedAt' | 'initiatorSignature' | 'approverSignature'
+
+export type ValidationCheckStatus = 'pass' | 'fail' | 'skip'
+
+export interface ValidationCheck {
+  step: ValidationStep
+  status: ValidationCheckStatus
+  code: ValidationCheckCode
+  /** Human readable detail, e.g. "Expires in 1h 0m" */
+  message: string
+  /** Key type of the signature (signature steps only) */
+  keyType?: number
+  /** Verifier registered for the key type (signature steps only) */
+  verifier?: { name: string; method: string }
 }
 
 export interface ValidationResult {
   valid: boolean
+  /** Message of the first failing check */
   error?: string
+  /** Code of the first failing check */
+  code?: ValidationErrorCode
+  /** Outcome of every validation step, in spec order */
+  checks: ValidationCheck[]
 }
 
 /**
@@ -39,169 +180,202 @@ export interface ValidationResult {
  * 5. If the `approverSignature` field is populated, the signature MUST be valid for the EIP-712 
  *    preimage of the underlying `AssociatedAccountRecord`.
  * 
- * Supported signature types:
+ * Time checks use `at` (the current time by default), the equivalent of `block.timestamp`
+ * for onchain consumers.
+ *
+ * Every step is evaluated and reported in `checks`, so a caller can see all failures
+ * (and upcoming expiry) rather than only the first one.
+ *
+ * Signatures are checked by the verifier registered for their key type in
+ * `keyTypeRegistry`. Key types without a registered verifier fail with the
+ * `UnsupportedKeyType` code. The default registry supports:
+ * - Delegated: Application-specific schemas registered in the delegation registry
  * - K1 (secp256k1): Standard EOA signatures
+ * - R1 (secp256r1): P-256 signatures bound to the account via the appended public key
+ * - BLS (BLS12-381): Signatures bound to the account via the appended public key
+ * - EdDSA (Ed25519): Solana account signatures over the AAR hash
+ * - WebAuthn: Passkey assertions whose challenge is the AAR hash
  * - ERC-1271: Smart contract wallet signatures (deployed contracts)
  * - ERC-6492: Smart contract wallet signatures (undeployed/counterfactual contracts)
  */
 export async function validateAssociation(input: ValidationInput): Promise<ValidationResult> {
-  const { aar, sar, initiatorAddress, approverAddress, publicClient } = input
-  const now = BigInt(Math.floor(Date.now() / 1000))
+  const { aar, sar, publicClient } = input
+  const keyTypeRegistry = input.keyTypeRegistry ?? createDefaultKeyTypeRegistry()
+
+  const { timestamp: now, blockNumber } = await resolveValidationTime(input.at, publicClient)
+  const checks: ValidationCheck[] = []
 
   // 1. Current timestamp MUST be >= validAt
   if (now < aar.validAt) {
-    return {
-      valid: false,
-      error: `Association not yet valid (validAt: ${aar.validAt}, now: ${now})`,
-    }
+    checks.push({
+      step: 'validAt',
+      status: 'fail',
+      code: 'NotYetValid',
+      message: `Not yet valid, starts in ${formatDuration(aar.validAt - now)} (validAt: ${aar.validAt}, now: ${now})`,
+    })
+  } else {
+    checks.push({ step: 'validAt', status: 'pass', code: 'Valid', message: `Valid since ${aar.validAt}` })
   }
 
   // 2. If validUntil is nonzero, current timestamp MUST be < validUntil
-  if (aar.validUntil !== 0n && now >= aar.validUntil) {
-    return {
-      valid: false,
-      error: `Association has expired (validUntil: ${aar.validUntil}, now: ${now})`,
-    }
+  if (aar.validUntil === 0n) {
+    checks.push({ step: 'validUntil', status: 'pass', code: 'NoExpiry', message: 'No expiry' })
+  } else if (now >= aar.validUntil) {
+    checks.push({
+      step: 'validUntil',
+      status: 'fail',
+      code: 'Expired',
+      message: `Expired (validUntil: ${aar.validUntil}, now: ${now})`,
+    })
+  } else {
+    checks.push({
+      step: 'validUntil',
+      status: 'pass',
+      code: 'Valid',
+      message: `Expires in ${formatDuration(aar.validUntil - now)}`,
+    })
   }
 
   // 3. If revokedAt is nonzero, current timestamp MUST be < revokedAt
-  if (sar.revokedAt !== 0n && now >= sar.revokedAt) {
-    return {
-      valid: false,
-      error: `Association is revoked (revokedAt: ${sar.revokedAt}, now: ${now})`,
-    }
-  }
-
-  // Build the EIP-712 message for signature verification
-  // Note: EIP-712 signing uses Number for uint40 fields
-  const eip712Message = {
-    initiator: aar.initiator,
-    approver: aar.approver,
-    validAt: Number(aar.validAt),
-    validUntil: Number(aar.validUntil),
-    interfaceId: aar.interfaceId,
-    data: aar.data,
+  if (sar.revokedAt === 0n) {
+    checks.push({ step: 'revokedAt', status: 'pass', code: 'NotRevoked', message: 'Not revoked' })
+  } else if (now >= sar.revokedAt) {
+    checks.push({
+      step: 'revokedAt',
+      status: 'fail',
+      code: 'Revoked',
+      message: `Revoked (revokedAt: ${sar.revokedAt}, now: ${now})`,
+    })
+  } else {
+    checks.push({
+      step: 'revokedAt',
+      status: 'pass',
+      code: 'Valid',
+      message: `Revocation takes effect in ${formatDuration(sar.revokedAt - now)}`,
+    })
   }
 
   // 4. Validate initiator signature (if populated)
-  if (sar.initiatorSignature && sar.initiatorSignature !== '0x') {
-    const isInitiatorValid = await verifySignature({
-      address: initiatorAddress,
-      signature: sar.initiatorSignature,
-      keyType: sar.initiatorKeyType,
-      aar,
-      eip712Message,
-      publicClient,
-    })
-
-    if (!isInitiatorValid) {
-      return {
-        valid: false,
-        error: 'Invalid initiator signature',
-      }
-    }
-  }
+  checks.push(await checkSignature({
+    step: 'initiatorSignature',
+    party: 'initiator',
+    accountBytes: aar.initiator,
+    keyType: sar.initiatorKeyType,
+    signature: sar.initiatorSignature,
+    aar,
+    publicClient,
+    blockNumber,
+    keyTypeRegistry,
+  }))
 
   // 5. Validate approver signature (if populated)
-  if (sar.approverSignature && sar.approverSignature !== '0x') {
-    const isApproverValid = await verifySignature({
-      address: approverAddress,
-      signature: sar.approverSignature,
-      keyType: sar.approverKeyType,
-      aar,
-      eip712Message,
-      publicClient,
-    })
+  checks.push(await checkSignature({
+    step: 'approverSignature',
+    party: 'approver',
+    accountBytes: aar.approver,
+    keyType: sar.approverKeyType,
+    signature: sar.approverSignature,
+    aar,
+    publicClient,
+    blockNumber,
+    keyTypeRegistry,
+  }))
 
-    if (!isApproverValid) {
-      return {
-        valid: false,
-        error: 'Invalid approver signature',
-      }
+  const failed = checks.find((check) => check.status === 'fail')
+  if (failed) {
+    return {
+      valid: false,
+      error: failed.message,
+      code: failed.code as ValidationErrorCode,
+      checks,
     }
   }
-
-  return { valid: true }
+  return { valid: true, checks }
 }
 
-interface VerifySignatureParams {
-  address: Hex
-  signature: Hex
+interface CheckSignatureParams {
+  step: 'initiatorSignature' | 'approverSignature'
+  party: 'initiator' | 'approver'
+  /** ERC-7930 address of the signing party */
+  accountBytes: Hex
   keyType: number
+  signature: Hex
   aar: AssociatedAccountRecord
-  eip712Message: {
-    initiator: Hex
-    approver: Hex
-    validAt: number
-    validUntil: number
-    interfaceId: Hex
-    data: Hex
-  }
   publicClient?: Erc1271Client
+  blockNumber?: bigint
+  keyTypeRegistry: KeyTypeRegistry
 }
 
 /**
- * Verify a signature based on its key type.
- * Supports:
- * - EOA (K1/secp256k1) signatures
- * - Smart contract (ERC-1271) signatures for deployed contracts
- * - Counterfactual (ERC-6492) signatures for undeployed smart contract wallets
+ * Run a signature step with the verifier registered for its key type.
+ * A malformed party address fails the step even when the signature is not populated.
  */
-async function verifySignature(params: VerifySignatureParams): Promise<boolean> {
-  const { address, signature, keyType, aar, eip712Message, publicClient } = params
-
-  // ERC-6492: Counterfactual smart contract wallet signature (undeployed)
-  // Uses viem's built-in verifyTypedData which natively supports ERC-6492 signatures
-  // by detecting the magic suffix and using the Universal Signature Validator
-  if (keyType === KEY_TYPES.ERC6492) {
-    if (!publicClient?.verifyTypedData) {
-      // Cannot validate ERC-6492 signature without a public client with verifyTypedData
-      return false
-    }
+async function checkSignature(params: CheckSignatureParams): Promise<ValidationCheck> {
+  const { step, party, accountBytes, keyType, signature, aar, publicClient, blockNumber, keyTypeRegistry } = params
 
-    try {
-      return await publicClient.verifyTypedData({
-        address: getAddress(address),
-        domain: EIP712_DOMAIN,
-        types: ASSOCIATED_ACCOUNT_RECORD_TYPES,
-        primaryType: 'AssociatedAccountRecord',
-        message: eip712Message,
-        signature,
-      })
-    } catch {
-      // Verification failed
-      return false
+  // Decode the party from its ERC-7930 representation
+  let account: InteropAddress
+  try {
+    account = decodeInteropAddress(accountBytes)
+  } catch (err) {
+    if (isInteropAddressError(err)) {
+      return { step, status: 'fail', code: 'InvalidAddress', message: err.message, keyType }
     }
+    throw err
+  }
+
+  if (!signature || signature === '0x') {
+    return { step, status: 'skip', code: 'NotPopulated', message: `No ${party} signature` }
   }
 
-  // ERC-1271: Smart contract wallet signature (deployed)
-  if (keyType === KEY_TYPES.ERC1271) {
-    if (!publicClient) {
-      // Cannot validate ERC-1271 signature without a public client
-      return false
+  const registration = keyTypeRegistry.get(keyType)
+  if (!registration) {
+    return {
+      step,
+      status: 'fail',
+      code: 'UnsupportedKeyType',
+      message: `Unsupported ${party} key type ${formatKeyType(keyType)}`,
+      keyType,
     }
+  }
 
-    return verifyErc1271Signature(
-      publicClient,
-      getAddress(address),
-      aar,
-      signature
-    )
-  }
-
-  // K1 (secp256k1): Standard EOA signature
-  // Also handle DELEGATED (0x0000) as EOA for backwards compatibility
-  if (keyType === KEY_TYPES.K1 || keyType === KEY_TYPES.DELEGATED) {
-    return verifyTypedData({
-      address: getAddress(address),
-      domain: EIP712_DOMAIN,
-      types: ASSOCIATED_ACCOUNT_RECORD_TYPES,
-      primaryType: 'AssociatedAccountRecord',
-      message: eip712Message,
-      signature,
-    })
+  const verifier = { name: registration.name, method: registration.method }
+  const result = await verifyKeyTypeSignature(keyTypeRegistry, keyType, signature, {
+    account,
+    aar,
+    publicClient,
+    blockNumber,
+  })
+  if (result !== true) {
+    return {
+      step,
+      status: 'fail',
+      code: 'InvalidSignature',
+      message: `Invalid ${party} signature`,
+      keyType,
+      verifier,
+    }
   }
+  return {
+    step,
+    status: 'pass',
+    code: 'Valid',
+    message: `Valid ${party} signature`,
+    keyType,
+    verifier,
+  }
+}
 
-  // Unsupported key type
-  return false
+/**
+ * Format a duration in seconds as a short string, e.g. "2d 3h" or "45m".
+ */
+function formatDuration(seconds: bigint): string {
+  const s = Number(seconds)
+  const days = Math.floor(s / 86400)
+  const hours = Math.floor((s % 86400) / 3600)
+  const minutes = Math.floor((s % 3600) / 60)
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${minutes}m`
+  if (minutes > 0) return `${minutes}m`
+  return `${s}s`
 }
@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { type Hex, bytesToHex, concat, hexToBytes, sha256, slice, stringToHex } from 'viem'
+import { p256 } from '@noble/curves/p256'
+import { base64urlnopad } from '@scure/base'
+import { hashAssociation } from './eip712'
+import { p256PublicKeyToAddress } from './p256'
+import { WebAuthnRpIdNotConfiguredError, encodeWebAuthnSignature, verifyWebAuthnSignature, webAuthnRpIdFromEnv } from './webauthn'
+import { testRecord } from '@/test/fixtures'
+
+const privateKey = hexToBytes(`0x${'01'.repeat(32)}`)
+const publicKey = bytesToHex(p256.getPublicKey(privateKey, false))
+const x = slice(publicKey, 1, 33)
+const y = slice(publicKey, 33, 65)
+const address = p256PublicKeyToAddress(x, y)
+const aar = testRecord()
+
+// Assertion as an authenticator would produce it for `rpId`, user present
+function assertion(rpId: string): Hex {
+  const authenticatorData = concat([sha256(stringToHex(rpId)), '0x01', '0x00000000'])
+  const clientDataJSON = JSON.stringify({
+    type: 'webauthn.get',
+    challenge: base64urlnopad.encode(hexToBytes(hashAssociation(aar))),
+    origin: `https://${rpId}`,
+  })
+  const digest = sha256(concat([authenticatorData, sha256(stringToHex(clientDataJSON))]))
+  const signature = bytesToHex(p256.sign(hexToBytes(digest), privateKey, { prehash: false }).toCompactRawBytes())
+  return encodeWebAuthnSignature({
+    authenticatorData,
+    clientDataJSON,
+    r: slice(signature, 0, 32),
+    s: slice(signature, 32, 64),
+    x,
+    y,
+  })
+}
+
+describe('verifyWebAuthnSignature', () => {
+  it('accept an assertion made for the expected RP ID', () => {
+    assert.equal(verifyWebAuthnSignature(address, aar, assertion('demo.example'), 'demo.example'), true)
+  })
+
+  it('reject an assertion made for another RP ID', () => {
+    assert.equal(verifyWebAuthnSignature(address, aar, assertion('evil.example'), 'demo.example'), false)
+  })
+})
+
+describe('webAuthnRpIdFromEnv', () => {
+  it('default to localhost outside production', () => {
+    assert.equal(webAuthnRpIdFromEnv({}), 'localhost')
+    assert.equal(webAuthnRpIdFromEnv({ NEXT_PUBLIC_WEBAUTHN_RP_ID: 'demo.example' }), 'demo.example')
+  })
+
+  it('require an RP ID in production', () => {
+    assert.throws(() => webAuthnRpIdFromEnv({ NODE_ENV: 'production' }), WebAuthnRpIdNotConfiguredError)
+    assert.equal(webAuthnRpIdFromEnv({ NODE_ENV: 'production', NEXT_PUBLIC_WEBAUTHN_RP_ID: 'demo.example' }), 'demo.example')
+  })
+})
@@ -0,0 +1,250 @@
+import { type Address, type Hex, bytesToHex, concat, decodeAbiParameters, encodeAbiParameters, hexToBytes, isAddressEqual, numberToHex, sha256, slice, stringToHex } from 'viem'
+import { p256 } from '@noble/curves/p256'
+import { base64urlnopad } from '@scure/base'
+import { hashAssociation } from './eip712'
+import { p256PublicKeyToAddress, verifyP256Digest } from './p256'
+import type { AssociatedAccountRecord } from './types'
+
+/**
+ * WebAuthn / passkey signatures (key type 0x8001)
+ *
+ * The passkey signs an assertion whose challenge is the EIP-712 hash of the AAR.
+ * The signature envelope is the ABI encoding of:
+ *
+ *   (bytes authenticatorData, string clientDataJSON, uint256 r, uint256 s, uint256 x, uint256 y)
+ *
+ * `r`/`s` are the P-256 signature over sha256(authenticatorData || sha256(clientDataJSON)).
+ * `x`/`y` are the passkey's public key coordinates. As with R1 signatures, the
+ * signer's ERC-7930 address MUST be keccak256(x || y)[12:].
+ *
+ * Passkeys are scoped to a relying party (RP) ID, and the authenticator binds
+ * sha256(RP ID) into authenticatorData, so an assertion made for another site
+ * is rejected even if its challenge matches.
+ */
+
+const WEBAUTHN_SIGNATURE_PARAMS = [
+  { name: 'authenticatorData', type: 'bytes' },
+  { name: 'clientDataJSON', type: 'string' },
+  { name: 'r', type: 'uint256' },
+  { name: 's', type: 'uint256' },
+  { name: 'x', type: 'uint256' },
+  { name: 'y', type: 'uint256' },
+] as const
+
+// authenticatorData flag: user present
+const FLAG_USER_PRESENT = 0x01
+
+export interface WebAuthnSignature {
+  authenticatorData: Hex
+  clientDataJSON: string
+  r: Hex
+  s: Hex
+  x: Hex
+  y: Hex
+}
+
+/**
+ * Thrown on a production server without `NEXT_PUBLIC_WEBAUTHN_RP_ID`: passkey
+ * signatures cannot be verified, which is a misconfiguration rather than an invalid signature.
+ */
+export class WebAuthnRpIdNotConfiguredError extends Error {
+  constructor() {
+    super('No WebAuthn RP ID configured: set NEXT_PUBLIC_WEBAUTHN_RP_ID to the domain passkeys are created under')
+    this.name = 'WebAuthnRpIdNotConfiguredError'
+  }
+}
+
+/**
+ * RP ID passkeys are created and verified under: `NEXT_PUBLIC_WEBAUTHN_RP_ID` if set,
+ * otherwise the page's hostname (the browser's default RP ID). On the server see webAuthnRpIdFromEnv.
+ */
+export function defaultWebAuthnRpId(): string {
+  if (typeof window !== 'undefined') {
+    // Read literally so Next inlines it into the client bundle
+    return process.env.NEXT_PUBLIC_WEBAUTHN_RP_ID || window.location.hostname
+  }
+  return webAuthnRpIdFromEnv()
+}
+
+/**
+ * Server-side RP ID: `NEXT_PUBLIC_WEBAUTHN_RP_ID`, or localhost outside production.
+ * In production it is required, so passkey signatures are not checked against the wrong RP ID.
+ */
+export function webAuthnRpIdFromEnv(env: Record<string, string | undefined> = process.env): string {
+  if (env.NEXT_PUBLIC_WEBAUTHN_RP_ID) return env.NEXT_PUBLIC_WEBAUTHN_RP_ID
+  if (env.NODE_ENV === 'production') throw new WebAuthnRpIdNotConfiguredError()
+  return 'localhost'
+}
+
+/** A passkey credential registered in this browser */
+export interface PasskeyCredential {
+  /** Base64url credential ID */
+  id: string
+  x: Hex
+  y: Hex
+  address: Address
+}
+
+export function encodeWebAuthnSignature(signature: WebAuthnSignature): Hex {
+  return encodeAbiParameters(WEBAUTHN_SIGNATURE_PARAMS, [
+    signature.authenticatorData,
+    signature.clientDataJSON,
+    BigInt(signature.r),
+    BigInt(signature.s),
+    BigInt(signature.x),
+    BigInt(signature.y),
+  ])
+}
+
+/**
+ * Decode a WebAuthn signature envelope. Returns null if it is not valid ABI.
+ */
+export function decodeWebAuthnSignature(signature: Hex): WebAuthnSignature | null {
+  try {
+    const [authenticatorData, clientDataJSON, r, s, x, y] = decodeAbiParameters(WEBAUTHN_SIGNATURE_PARAMS, signature)
+    return {
+      authenticatorData,
+      clientDataJSON,
+      r: numberToHex(r, { size: 32 }),
+      s: numberToHex(s, { size: 32 }),
+      x: numberToHex(x, { size: 32 }),
+      y: numberToHex(y, { size: 32 }),
+    }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Verify a WebAuthn signature over the EIP-712 hash of an AAR for the given account.
+ *
+ * Checks that the assertion is a `webauthn.get` with the AAR hash as its challenge,
+ * that it was made for `rpId` with the user-present flag set, and that the P-256
+ * signature is valid.
+ */
+export function verifyWebAuthnSignature(
+  address: Address,
+  aar: AssociatedAccountRecord,
+  signature: Hex,
+  rpId: string
+): boolean {
+  return verifyWebAuthnHashSignature(address, hashAssociation(aar), signature, rpId)
+}
+
+/**
+ * Verify a WebAuthn signature whose challenge is any 32-byte EIP-712 digest
+ * (e.g. a revocation request), with the same checks as verifyWebAuthnSignature.
+ */
+export function verifyWebAuthnHashSignature(
+  address: Address,
+  hash: Hex,
+  signature: Hex,
+  rpId: string
+): boolean {
+  const decoded = decodeWebAuthnSignature(signature)
+  if (!decoded) return false
+
+  if (!isAddressEqual(p256PublicKeyToAddress(decoded.x, decoded.y), address)) {
+    return false
+  }
+
+  // authenticatorData: rpIdHash (32) | flags (1) | signCount (4) | ...
+  const authenticatorData = hexToBytes(decoded.authenticatorData)
+  if (authenticatorData.length < 37 || (authenticatorData[32] & FLAG_USER_PRESENT) === 0) {
+    return false
+  }
+  if (slice(decoded.authenticatorData, 0, 32) !== sha256(stringToHex(rpId))) {
+    return false
+  }
+
+  let clientData: { type?: string; challenge?: string }
+  try {
+    clientData = JSON.parse(decoded.clientDataJSON)
+  } catch {
+    return false
+  }
+  const expectedChallenge = base64urlnopad.encode(hexToBytes(hash))
+  if (clientData.type !== 'webauthn.get' || clientData.challenge !== expectedChallenge) {
+    return false
+  }
+
+  const digest = sha256(concat([decoded.authenticatorData, sha256(stringToHex(decoded.clientDataJSON))]))
+  return verifyP256Digest(digest, decoded)
+}
+
+/**
+ * Register a new passkey in the browser and derive its account address.
+ */
+export async function createPasskey(name: string): Promise<PasskeyCredential> {
+  const credential = await navigator.credentials.create({
+    publicKey: {
+      rp: { id: defaultWebAuthnRpId(), name: 'ERC-8092 Demo' },
+      user: {
+        id: crypto.getRandomValues(new Uint8Array(16)),
+        name,
+        displayName: name,
+      },
+      challenge: crypto.getRandomValues(new Uint8Array(32)),
+      // ES256 (P-256) only, so the key can be verified as 0x8001
+      pubKeyCredParams: [{ type: 'public-key', alg: -7 }],
+      authenticatorSelection: { residentKey: 'preferred', userVerification: 'preferred' },
+    },
+  }) as PublicKeyCredential | null
+
+  if (!credential) {
+    throw new Error('Passkey creation was cancelled')
+  }
+
+  const response = credential.response as AuthenticatorAttestationResponse
+  const spki = response.getPublicKey()
+  if (!spki) {
+    throw new Error('Browser did not return the passkey public key')
+  }
+
+  // The uncompressed P-256 point (0x04 | x | y) is the tail of the SPKI encoding
+  const point = bytesToHex(new Uint8Array(spki).slice(-65))
+  const x = slice(point, 1, 33)
+  const y = slice(point, 33, 65)
+
+  return {
+    id: credential.id,
+    x,
+    y,
+    address: p256PublicKeyToAddress(x, y),
+  }
+}
+
+/**
+ * Sign the EIP-712 hash of an AAR with a passkey and return the 0x8001 envelope.
+ */
+export async function signWithPasskey(
+  passkey: PasskeyCredential,
+  aar: AssociatedAccountRecord
+): Promise<Hex> {
+  const assertion = await navigator.credentials.get({
+    publicKey: {
+      challenge: new Uint8Array(hexToBytes(hashAssociation(aar))),
+      rpId: defaultWebAuthnRpId(),
+      allowCredentials: [{ type: 'public-key', id: new Uint8Array(base64urlnopad.decode(passkey.id)) }],
+      userVerification: 'preferred',
+    },
+  }) as PublicKeyCredential | null
+
+  if (!assertion) {
+    throw new Error('Passkey signing was cancelled')
+  }
+
+  const response = assertion.response as AuthenticatorAssertionResponse
+  // Authenticators return DER signatures; normalize to raw r/s
+  const signature = p256.Signature.fromDER(new Uint8Array(response.signature))
+  const compact = bytesToHex(signature.toCompactRawBytes())
+
+  return encodeWebAuthnSignature({
+    authenticatorData: bytesToHex(new Uint8Array(response.authenticatorData)),
+    clientDataJSON: new TextDecoder().decode(response.clientDataJSON),
+    r: slice(compact, 0, 32),
+    s: slice(compact, 32, 64),
+    x: passkey.x,
+    y: passkey.y,
+  })
+}
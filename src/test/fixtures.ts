@@ -0,0 +1,47 @@
+import { type Address, type Hex, padHex, toHex } from 'viem'
+import { encodeEvmAddress, extractAddress } from '@/lib/erc7930'
+import { hashAssociation } from '@/lib/eip712'
+import { KEY_TYPES, type AssociatedAccountRecord, type SignedAssociationRecord } from '@/lib/types'
+import type { NewAssociation } from '@/lib/store'
+
+// Shared fixtures for the test suites. Signatures are placeholders: stores do not verify them.
+
+export const CHAIN_ID = 84532
+
+export function testAddress(n: number): Address {
+  return padHex(toHex(n), { size: 20 })
+}
+
+export function testRecord(overrides: Partial<AssociatedAccountRecord> = {}): AssociatedAccountRecord {
+  return {
+    initiator: encodeEvmAddress(testAddress(1), CHAIN_ID),
+    approver: encodeEvmAddress(testAddress(2), CHAIN_ID),
+    validAt: 1_700_000_000n,
+    validUntil: 0n,
+    interfaceId: '0x00000000',
+    data: '0x',
+    ...overrides,
+  }
+}
+
+export function testAssociation(
+  overrides: Partial<AssociatedAccountRecord> = {},
+  signatures: { initiator: Hex, approver: Hex } = { initiator: '0x11', approver: '0x22' }
+): NewAssociation {
+  const aar = testRecord(overrides)
+  const sar: SignedAssociationRecord = {
+    revokedAt: 0n,
+    initiatorKeyType: KEY_TYPES.K1,
+    approverKeyType: KEY_TYPES.K1,
+    initiatorSignature: signatures.initiator,
+    approverSignature: signatures.approver,
+    record: aar,
+  }
+  return {
+    hash: hashAssociation(aar),
+    initiatorAddress: extractAddress(aar.initiator),
+    approverAddress: extractAddress(aar.approver),
+    aar,
+    sar,
+  }
+}